@@ -1,14 +1,41 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { CommonActions, NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { View, StyleSheet } from 'react-native';
+import { StyleSheet } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { LinearGradient } from 'expo-linear-gradient';
 import NotFound from './src/pages/NotFound';
-import Index from './src/pages/Index';
+import Home from './src/pages/Home';
+import Music from './src/pages/Music';
+import Diary from './src/pages/Diary';
+import Feed from './src/pages/Feed';
+import Letter from './src/pages/Letter';
+import Playlist from './src/pages/Playlist';
+import SignIn from './src/pages/SignIn';
+import CoupleSetup from './src/pages/CoupleSetup';
+import { BottomNavigation } from './src/components/ui/bottom-navigation';
+import { AuthProvider, useAuth } from './src/hooks/use-auth';
+import { LetterFiltersProvider } from './src/hooks/use-letter-filters';
+import { useUnreadLetterCount } from './src/hooks/use-letters';
+import { usePushNotifications } from './src/hooks/use-push-notifications';
+import { ToastProvider } from './src/hooks/use-toast-native';
+import {
+  getRouteSection,
+  goToSection,
+  linking,
+  navigationRef,
+  RootStackParamList,
+  Section,
+  SECTION_ROUTES,
+} from './src/lib/navigation';
+import type { NotificationTarget } from './src/lib/push-notifications';
+import { startOutbox } from './src/lib/outbox';
+import { persistQueryCache, restoreQueryCache, setupOnlineManager } from './src/lib/query-persistence';
 
 const queryClient = new QueryClient();
-const Stack = createNativeStackNavigator();
+setupOnlineManager();
+const Stack = createNativeStackNavigator<RootStackParamList>();
 
 const styles = StyleSheet.create({
   container: {
@@ -23,9 +50,93 @@ const styles = StyleSheet.create({
   },
 });
 
+// Al tocar un aviso: las cartas se buscan en el feed y las playlists se abren solas
+const openNotificationTarget = (target: NotificationTarget) => {
+  if (target.section === 'feed') {
+    goToSection('Feed', { letterId: target.letterId });
+  } else if (target.playlistId) {
+    navigationRef.dispatch(
+      CommonActions.reset({
+        index: 2,
+        routes: [{ name: 'Home' }, { name: 'Music' }, { name: 'Playlist', params: { id: target.playlistId } }],
+      })
+    );
+  } else {
+    goToSection('Music');
+  }
+};
+
+// Barra de abajo: una sola para todas las pantallas, marcada según la ruta actual
+function SectionNavigation({ section }: { section: Section }) {
+  const { data: unreadCount } = useUnreadLetterCount();
+
+  return (
+    <BottomNavigation
+      activeSection={section}
+      onSectionChange={(next) => goToSection(SECTION_ROUTES[next as Section])}
+      unreadCount={unreadCount}
+    />
+  );
+}
+
+// Pantallas según el estado de la sesión: entrar, configurar la pareja o la app completa
+function RootNavigator() {
+  const { session, profile, loading } = useAuth();
+  const [navigationReady, setNavigationReady] = React.useState(false);
+  const [routeName, setRouteName] = React.useState<string>();
+
+  usePushNotifications(navigationReady && !!profile?.couple_id, openNotificationTarget);
+
+  if (loading) return null;
+
+  const section = getRouteSection(routeName);
+  const updateRouteName = () => setRouteName(navigationRef.getCurrentRoute()?.name);
+
+  return (
+    <NavigationContainer
+      ref={navigationRef}
+      linking={linking}
+      onReady={() => {
+        setNavigationReady(true);
+        updateRouteName();
+      }}
+      onStateChange={updateRouteName}
+    >
+      <Stack.Navigator screenOptions={{ headerShown: false }}>
+        {!session ? (
+          <Stack.Screen name="SignIn" component={SignIn} />
+        ) : !profile?.couple_id ? (
+          <Stack.Screen name="CoupleSetup" component={CoupleSetup} />
+        ) : (
+          <>
+            <Stack.Screen name="Home" component={Home} />
+            <Stack.Screen name="Music" component={Music} />
+            <Stack.Screen name="Diary" component={Diary} />
+            <Stack.Screen name="Feed" component={Feed} />
+            <Stack.Screen name="Letter" component={Letter} />
+            <Stack.Screen name="Playlist" component={Playlist} />
+            <Stack.Screen name="NotFound" component={NotFound} options={{ headerShown: true, title: 'No encontrado' }} />
+          </>
+        )}
+      </Stack.Navigator>
+      {section && <SectionNavigation section={section} />}
+    </NavigationContainer>
+  );
+}
+
 export default function App() {
+  // Reintentar en segundo plano las cartas que quedaron sin enviar
+  React.useEffect(() => startOutbox(), []);
+
+  // Cartas y playlists guardadas en el dispositivo para abrir la app al instante y sin conexión
+  const [cacheRestored, setCacheRestored] = React.useState(false);
+  React.useEffect(() => {
+    restoreQueryCache(queryClient).finally(() => setCacheRestored(true));
+    return persistQueryCache(queryClient);
+  }, []);
+
   return (
-    <View style={styles.container}>
+    <GestureHandlerRootView style={styles.container}>
       <LinearGradient
         colors={['#F5F3FF', '#7C3AED', '#9F1239']}
         start={{ x: 0, y: 0 }}
@@ -33,14 +144,16 @@ export default function App() {
         style={styles.background}
       >
         <QueryClientProvider client={queryClient}>
-          <NavigationContainer>
-            <Stack.Navigator initialRouteName="Index">
-              <Stack.Screen name="Index" component={Index} options={{ headerShown: false }} />
-              <Stack.Screen name="NotFound" component={NotFound} />
-            </Stack.Navigator>
-          </NavigationContainer>
+          {cacheRestored && (
+            <AuthProvider>
+              <LetterFiltersProvider>
+                <RootNavigator />
+              </LetterFiltersProvider>
+            </AuthProvider>
+          )}
         </QueryClientProvider>
       </LinearGradient>
-    </View>
+      <ToastProvider />
+    </GestureHandlerRootView>
   );
 }
\ No newline at end of file
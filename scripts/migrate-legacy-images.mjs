@@ -0,0 +1,77 @@
+// Mueve a Storage las fotos de las cartas antiguas que todavía guardan un data URL en image_url.
+// Corre una sola vez contra la base, con la service role key, antes de publicar la versión
+// de la app que ya no lee image_url:
+//
+//   SUPABASE_URL=https://<proyecto>.supabase.co SUPABASE_SERVICE_ROLE_KEY=... npm run images:migrate-legacy
+//
+// Se procesa una carta a la vez para no cargar todas las imágenes en memoria. Las cartas que
+// todavía no tienen pareja se saltan: vuelve a correrlo después de crear la primera pareja.
+import { createClient } from "@supabase/supabase-js";
+
+const BUCKET = "letter-images";
+const EXTENSIONS = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp", "image/gif": "gif" };
+
+const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error("Faltan SUPABASE_URL y SUPABASE_SERVICE_ROLE_KEY");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+// data:image/jpeg;base64,... → tipo y contenido
+const parseDataUrl = (dataUrl) => {
+  const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) throw new Error("No es un data URL en base64");
+  return { contentType: match[1], bytes: Buffer.from(match[2], "base64") };
+};
+
+const migrateLetter = async (id) => {
+  const { data: letter, error } = await supabase
+    .from("love_letters")
+    .select("id, couple_id, image_url")
+    .eq("id", id)
+    .single();
+  if (error) throw error;
+  if (!letter.image_url?.startsWith("data:")) return "sin cambios";
+  if (!letter.couple_id) return "sin pareja";
+
+  const { contentType, bytes } = parseDataUrl(letter.image_url);
+  // Sin miniatura: la app muestra directamente la foto completa
+  const path = `${letter.couple_id}/letters/${letter.id}/full.${EXTENSIONS[contentType] ?? "jpg"}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, bytes, { contentType, upsert: true });
+  if (uploadError) throw uploadError;
+
+  const { error: updateError } = await supabase
+    .from("love_letters")
+    .update({ image_path: path, thumbnail_path: null, image_url: null })
+    .eq("id", letter.id);
+  if (updateError) throw updateError;
+  return "migrada";
+};
+
+const { data: letters, error } = await supabase.from("love_letters").select("id").like("image_url", "data:%");
+if (error) {
+  console.error("No se pudieron buscar las cartas:", error);
+  process.exit(1);
+}
+
+const counts = { migrada: 0, "sin cambios": 0, "sin pareja": 0, error: 0 };
+for (const { id } of letters) {
+  try {
+    const result = await migrateLetter(id);
+    counts[result]++;
+    console.log(`${id}: ${result}`);
+  } catch (err) {
+    counts.error++;
+    console.error(`${id}: error`, err);
+  }
+}
+
+console.log(`Migradas: ${counts.migrada}, sin pareja: ${counts["sin pareja"]}, con error: ${counts.error}`);
+process.exit(counts.error > 0 ? 1 : 0);
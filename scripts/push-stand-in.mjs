@@ -0,0 +1,63 @@
+// Reemplazo local del servicio de push de Expo para probar los triggers de avisos.
+// Responde como https://exp.host/--/api/v2/push/send y muestra cada aviso que recibe.
+//
+//   npm run push:stand-in
+//   -- en la base local:
+//   UPDATE public.push_settings SET endpoint = 'http://host.docker.internal:8787/push';
+//
+// Con PUSH_FORWARD=1 además reenvía los avisos a Expo para que lleguen al dispositivo.
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+
+const server = createServer(async (request, response) => {
+  if (request.method !== "POST") {
+    response.writeHead(405).end();
+    return;
+  }
+
+  try {
+    const raw = await readBody(request);
+    const messages = [].concat(JSON.parse(raw));
+
+    for (const message of messages) {
+      console.log(`[${new Date().toISOString()}] → ${message.to}`);
+      console.log(`  ${message.title}: ${message.body}`);
+      console.log(`  data: ${JSON.stringify(message.data)}`);
+    }
+
+    if (process.env.PUSH_FORWARD === "1") {
+      const forwarded = await fetch(EXPO_PUSH_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: raw,
+      });
+      response.writeHead(forwarded.status, { "Content-Type": "application/json" });
+      response.end(await forwarded.text());
+      return;
+    }
+
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify({ data: messages.map(() => ({ status: "ok", id: randomUUID() })) })
+    );
+  } catch (error) {
+    console.error("Aviso inválido:", error);
+    response.writeHead(400, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ errors: [{ code: "VALIDATION_ERROR", message: String(error) }] }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Push stand-in escuchando en http://localhost:${PORT}/push`);
+});
@@ -4,7 +4,6 @@ import {
   Text, 
   StyleSheet, 
   ScrollView, 
-  TextInput, 
   TouchableOpacity,
   ActivityIndicator,
   Alert,
@@ -13,15 +12,106 @@ import {
   Image
 } from "react-native";
 import * as ImagePicker from "expo-image-picker";
-import { supabase } from "../integrations/supabase/client";
-import { Heart, ImageIcon } from "lucide-react-native";
+import { enqueueLetter } from "../lib/outbox";
+import { deleteDraft, DraftContent, isDraftEmpty, LetterDraft, loadDrafts, newDraftId } from "../lib/drafts";
+import { useAuth } from "../hooks/use-auth";
+import { useDraftAutosave } from "../hooks/use-drafts";
+import OutboxList from "./OutboxList";
+import DraftsList from "./DraftsList";
+import UnlockDatePicker from "./UnlockDatePicker";
+import RichTextEditor from "./RichTextEditor";
+import LetterPhotosPicker, { MAX_LETTER_PHOTOS } from "./LetterPhotosPicker";
+import PhotoEditor from "./PhotoEditor";
+import VoiceNoteRecorder from "./VoiceNoteRecorder";
+import VideoClipsPicker from "./VideoClipsPicker";
+import type { PreparedVideo } from "../lib/letter-videos";
+import type { VoiceNote } from "../lib/voice-notes";
+import { CURRENT_LETTER_FORMAT } from "../lib/rich-text";
+import { Heart } from "lucide-react-native";
 
 const DiarySection = () => {
+  const { profile } = useAuth();
   const [message, setMessage] = React.useState("");
-  const [author, setAuthor] = React.useState("");
   const [isSubmitting, setIsSubmitting] = React.useState(false);
-  const [image, setImage] = React.useState<string | null>(null);
-  
+  const [photos, setPhotos] = React.useState<string[]>([]);
+  const [videos, setVideos] = React.useState<PreparedVideo[]>([]);
+  const [voiceNote, setVoiceNote] = React.useState<VoiceNote | null>(null);
+  const [unlockAt, setUnlockAt] = React.useState<Date | null>(null);
+  // Foto abierta en el editor; replaces indica la foto ya adjunta que se está reeditando
+  const [editing, setEditing] = React.useState<{ uri: string; replaces: string | null } | null>(null);
+  // Borrador donde se va guardando lo que se escribe; no se guarda nada hasta recuperar el último
+  const [draftId, setDraftId] = React.useState(newDraftId);
+  const [restored, setRestored] = React.useState(false);
+
+  const draft = React.useMemo<DraftContent>(
+    () => ({ message, photos, videos, voiceNote, unlockAt: unlockAt?.toISOString() ?? null }),
+    [message, photos, videos, voiceNote, unlockAt]
+  );
+
+  // Los archivos del borrador se copian fuera de la caché; el formulario pasa a usar las copias
+  const relocateFiles = React.useCallback((moved: Record<string, string>) => {
+    const relocate = (uri: string) => moved[uri] ?? uri;
+    setPhotos((current) => current.map(relocate));
+    setVideos((current) =>
+      current.map((video) => ({ ...video, uri: relocate(video.uri), posterUri: relocate(video.posterUri) }))
+    );
+    setVoiceNote((current) => current && { ...current, uri: relocate(current.uri) });
+  }, []);
+
+  const saveDraftNow = useDraftAutosave(draftId, draft, relocateFiles, restored);
+
+  const openDraft = (saved: LetterDraft) => {
+    setDraftId(saved.id);
+    setMessage(saved.message);
+    setPhotos(saved.photos);
+    setVideos(saved.videos);
+    setVoiceNote(saved.voiceNote);
+    setUnlockAt(saved.unlockAt ? new Date(saved.unlockAt) : null);
+  };
+
+  const startNewLetter = () => {
+    setDraftId(newDraftId());
+    setMessage("");
+    setPhotos([]);
+    setVideos([]);
+    setVoiceNote(null);
+    setUnlockAt(null);
+  };
+
+  // Al volver a "Escribir" se continúa el último borrador
+  React.useEffect(() => {
+    let active = true;
+    loadDrafts()
+      .then((saved) => {
+        if (active && saved[0]) openDraft(saved[0]);
+      })
+      .catch((error) => console.error("Error loading drafts:", error))
+      .finally(() => {
+        if (active) setRestored(true);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // El borrador actual queda guardado en la lista
+  const handleNewLetter = async () => {
+    await saveDraftNow();
+    startNewLetter();
+  };
+
+  const resumeDraft = async (saved: LetterDraft) => {
+    await saveDraftNow();
+    openDraft(saved);
+  };
+
+  const discardDraft = async (saved: LetterDraft) => {
+    // Termina cualquier guardado pendiente para que no vuelva a crear el borrador
+    await saveDraftNow();
+    if (saved.id === draftId) startNewLetter();
+    await deleteDraft(saved.id).catch((error) => console.error("Error discarding draft:", error));
+  };
+
   const pickImage = async () => {
     // Solicitar permisos para acceder a la galería de fotos
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -31,108 +121,95 @@ const DiarySection = () => {
       return;
     }
 
-    // Abrir el selector de imágenes
+    // Abrir el selector de imágenes; se pueden elegir varias hasta completar el máximo
     let result = await ImagePicker.launchImageLibraryAsync({
       mediaTypes: "images", // Usar directamente el string "images"
-      allowsEditing: true,
-      aspect: [4, 3],
+      allowsMultipleSelection: true,
+      selectionLimit: MAX_LETTER_PHOTOS - photos.length,
       quality: 0.8,
     });
 
-    if (!result.canceled) {
-      setImage(result.assets[0].uri);
+    if (result.canceled) return;
+
+    // Una sola foto pasa por el editor; varias se adjuntan tal cual y se editan tocándolas
+    if (result.assets.length === 1) {
+      setEditing({ uri: result.assets[0].uri, replaces: null });
+    } else {
+      const picked = result.assets.map((asset) => asset.uri).filter((uri) => !photos.includes(uri));
+      setPhotos([...photos, ...picked].slice(0, MAX_LETTER_PHOTOS));
     }
   };
 
-  // Convertir imagen a Base64 para guardar directamente en la tabla
-  const imageToBase64 = async (uri: string) => {
-    try {
-      // Obtener los datos de la imagen como blob
-      const response = await fetch(uri);
-      const blob = await response.blob();
-      
-      // Convertir blob a base64
-      return new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          // El resultado es una cadena como "data:image/jpeg;base64,/9j/4AAQSkZ..."
-          // Solo queremos la parte base64 sin el prefijo
-          const base64String = reader.result as string;
-          // Eliminar el prefijo para guardar sólo los datos
-          const base64Data = base64String.split(',')[1];
-          resolve(base64Data);
-        };
-        reader.onerror = () => reject(new Error('Error al leer la imagen'));
-        reader.readAsDataURL(blob);
-      });
-    } catch (error) {
-      console.error('Error convirtiendo imagen a base64:', error);
-      throw error;
+  const takePhoto = async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+
+    if (status !== 'granted') {
+      Alert.alert('Permiso requerido', 'Se necesita acceso a la cámara para tomar una foto.');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: "images",
+      quality: 0.8,
+    });
+
+    if (!result.canceled) {
+      setEditing({ uri: result.assets[0].uri, replaces: null });
     }
   };
 
+  const handleEdited = (uri: string) => {
+    if (!editing) return;
+    const { replaces } = editing;
+    setPhotos((current) =>
+      replaces
+        ? current.map((photo) => (photo === replaces ? uri : photo))
+        : [...current.filter((photo) => photo !== uri), uri].slice(0, MAX_LETTER_PHOTOS)
+    );
+    setEditing(null);
+  };
+
   const handleSubmit = async () => {
-    if (!message.trim() || !author.trim()) {
-      Alert.alert("Campos requeridos", "Por favor escribe tu nombre y mensaje");
+    if (!message.trim()) {
+      Alert.alert("Campos requeridos", "Por favor escribe tu mensaje");
+      return;
+    }
+    if (unlockAt && unlockAt.getTime() <= Date.now()) {
+      Alert.alert("Fecha inválida", "La fecha de apertura tiene que ser en el futuro");
       return;
     }
+    if (!profile?.couple_id) return;
 
     setIsSubmitting(true);
 
     try {
-      // Si hay una imagen, convertir a base64 para guardar en la tabla
-      let imageBase64 = null;
-      if (image) {
-        try {
-          console.log('Procesando imagen para guardar...');
-          // Convertir imagen a base64
-          imageBase64 = await imageToBase64(image);
-          console.log('Imagen convertida a base64 correctamente');
-        } catch (err) {
-          console.error('Error en el proceso de subida de imagen:', err);
-          Alert.alert(
-            "Error", 
-            "Hubo un problema al procesar la imagen. La carta se enviará sin imagen."
-          );
-          // Si hay error, dejamos imageBase64 como null
-          imageBase64 = null;
-        }
-      }
-      
-      // Insertar la carta con la imagen en base64 si está disponible
-      // Usar la columna image_url existente para guardar el string base64
-      const { error } = await supabase.from("love_letters").insert([
-        {
-          message: message.trim(),
-          author: author.trim(),
-          image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64}` : null, // Guardar la imagen como data URL
-          created_at: new Date().toISOString(),
-        },
-      ]);
-
-      if (error) {
-        console.error("Error submitting letter:", error);
+      // La carta pasa primero por el outbox para no perderla si no hay conexión
+      const sent = await enqueueLetter({
+        coupleId: profile.couple_id,
+        message: message.trim(),
+        formatVersion: CURRENT_LETTER_FORMAT.version,
+        author: profile.display_name,
+        imageUris: photos,
+        videos,
+        voiceNote,
+        unlockAt: unlockAt?.toISOString() ?? null,
+      });
+
+      // Ya quedó guardada en el dispositivo, así que el formulario y su borrador se limpian en ambos casos
+      await saveDraftNow();
+      await deleteDraft(draftId).catch((error) => console.error("Error deleting sent draft:", error));
+      startNewLetter();
+
+      if (sent && unlockAt) {
+        Alert.alert("Carta programada", "Tu carta quedará sellada hasta la fecha que elegiste.");
+      } else if (sent) {
+        Alert.alert("Carta enviada", "Tu carta ha sido enviada con éxito. ¡Gracias!");
+      } else {
         Alert.alert(
-          "Error", 
-          "No se pudo enviar tu carta. Inténtalo de nuevo."
+          "Carta guardada",
+          "No se pudo enviar en este momento. Tu carta quedó guardada y se enviará automáticamente cuando haya conexión."
         );
-        return;
       }
-
-      Alert.alert(
-        "Carta enviada", 
-        "Tu carta ha sido enviada con éxito. ¡Gracias!",
-        [
-          { 
-            text: "OK", 
-            onPress: () => {
-              // Reset form after successful submission
-              setMessage("");
-              setAuthor("");
-            }
-          }
-        ]
-      );
     } catch (error) {
       console.error("Unexpected error:", error);
       Alert.alert("Error", "Ocurrió un error inesperado. Inténtalo de nuevo.");
@@ -161,57 +238,55 @@ const DiarySection = () => {
             Escribeme algo lindo que me quieras mandar, y preferiblemente manda una foto de tu carita jsjs
           </Text>
           <View style={styles.formContainer}>
-            <Text style={styles.inputLabel}>Escribe tu nombre</Text>
-            <TextInput
-              style={styles.authorInput}
-              value={author}
-              onChangeText={setAuthor}
-              placeholder="Nataly"
-              placeholderTextColor="#A1A1AA"
-              maxLength={50}
-            />
+            <View style={styles.formHeader}>
+              <Text style={styles.authorText}>
+                De: <Text style={styles.authorName}>{profile?.display_name}</Text>
+              </Text>
+              {!isDraftEmpty(draft) && (
+                <TouchableOpacity onPress={handleNewLetter} disabled={isSubmitting}>
+                  <Text style={styles.newLetterText}>Nueva carta</Text>
+                </TouchableOpacity>
+              )}
+            </View>
           
             <Text style={styles.inputLabel}>Tu mensaje</Text>
-            <TextInput
-              style={styles.textInput}
+            <RichTextEditor
               value={message}
-              onChangeText={setMessage}
-              multiline
-              numberOfLines={6}
-              placeholderTextColor="#A1A1AA"
-              maxLength={1000}
+              onChange={setMessage}
+              maxLength={CURRENT_LETTER_FORMAT.maxLength}
+              inputStyle={styles.textInput}
             />
             
-            <Text style={styles.inputLabel}>Agregar una foto <Text style={styles.optionalText}>(opcional)</Text></Text>
-            <TouchableOpacity 
-              style={styles.imagePickerButton} 
-              onPress={pickImage}
-            >
-              {image ? (
-                <View style={styles.previewContainer}>
-                  <Image source={{ uri: image }} style={styles.previewImage} />
-                  <TouchableOpacity 
-                    style={styles.removeImageButton}
-                    onPress={() => setImage(null)}
-                  >
-                    <Text style={styles.removeImageText}>×</Text>
-                  </TouchableOpacity>
-                </View>
-              ) : (
-                <View style={styles.imagePlaceholder}>
-                  <ImageIcon width={28} height={28} color="#7e1785" />
-                  <Text style={styles.imagePlaceholderText}>Seleccionar foto (mandame una plis)</Text>
-                </View>
-              )}
-            </TouchableOpacity>
+            <Text style={styles.inputLabel}>Agregar fotos <Text style={styles.optionalText}>(opcional)</Text></Text>
+            <View style={styles.photosPicker}>
+              <LetterPhotosPicker
+                photos={photos}
+                onChange={setPhotos}
+                onPickFromLibrary={pickImage}
+                onTakePhoto={takePhoto}
+                onEdit={(uri) => setEditing({ uri, replaces: uri })}
+              />
+            </View>
+
+            <Text style={styles.inputLabel}>Videos <Text style={styles.optionalText}>(opcional)</Text></Text>
+            <View style={styles.videos}>
+              <VideoClipsPicker videos={videos} onChange={setVideos} />
+            </View>
+
+            <Text style={styles.inputLabel}>Nota de voz <Text style={styles.optionalText}>(opcional)</Text></Text>
+            <View style={styles.voiceNote}>
+              <VoiceNoteRecorder value={voiceNote} onChange={setVoiceNote} />
+            </View>
+
+            <UnlockDatePicker value={unlockAt} onChange={setUnlockAt} />
             
             <TouchableOpacity 
               style={[
                 styles.submitButton,
-                (!message.trim() || !author.trim() || isSubmitting) && styles.submitButtonDisabled
+                (!message.trim() || isSubmitting) && styles.submitButtonDisabled
               ]} 
               onPress={handleSubmit}
-              disabled={!message.trim() || !author.trim() || isSubmitting}
+              disabled={!message.trim() || isSubmitting}
             >
               {isSubmitting ? (
                 <ActivityIndicator size="small" color="#FFFFFF" />
@@ -223,8 +298,18 @@ const DiarySection = () => {
               )}
             </TouchableOpacity>
           </View>
+
+          <DraftsList currentId={draftId} onResume={resumeDraft} onDiscard={discardDraft} />
+
+          <OutboxList />
         </View>
       </ScrollView>
+
+      <PhotoEditor
+        uri={editing?.uri ?? null}
+        onCancel={() => setEditing(null)}
+        onDone={handleEdited}
+      />
     </KeyboardAvoidingView>
   );
 };
@@ -288,15 +373,24 @@ const styles = StyleSheet.create({
     color: "#7e1785", // Color más claro para indicar opcional
     fontStyle: "italic",
   },
-  authorInput: {
-    borderWidth: 1,
-    borderColor: "#E5E7EB",
-    backgroundColor: "white",
-    borderRadius: 12,
-    padding: 16,
+  formHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 16,
+  },
+  authorText: {
     fontSize: 16,
-    color: "#1F2937",
-    marginBottom: 24, 
+    color: "#936bc7",
+  },
+  newLetterText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#7e1785",
+  },
+  authorName: {
+    fontWeight: "600",
+    color: "#7e1785",
   },
   textInput: {
     borderWidth: 1,
@@ -308,51 +402,15 @@ const styles = StyleSheet.create({
     color: "#1F2937",
     textAlignVertical: "top",
     minHeight: 150,
-    marginBottom: 24,
   },
-  imagePickerButton: {
+  photosPicker: {
     marginBottom: 24,
-    borderRadius: 12,
-    overflow: "hidden",
   },
-  imagePlaceholder: {
-    height: 120,
-    borderWidth: 2,
-    borderColor: "#7e1785",
-    borderStyle: "dashed",
-    borderRadius: 12,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  imagePlaceholderText: {
-    marginTop: 8,
-    color: "#7e1785",
-    fontSize: 14,
-    textAlign: "center",
-  },
-  previewContainer: {
-    position: "relative",
-  },
-  previewImage: {
-    width: "100%",
-    height: 200,
-    borderRadius: 12,
-  },
-  removeImageButton: {
-    position: "absolute",
-    top: 10,
-    right: 10,
-    backgroundColor: "rgba(0,0,0,0.6)",
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-    justifyContent: "center",
-    alignItems: "center",
+  videos: {
+    marginBottom: 24,
   },
-  removeImageText: {
-    color: "white",
-    fontSize: 22,
-    fontWeight: "bold",
+  voiceNote: {
+    marginBottom: 24,
   },
   submitButton: {
     backgroundColor: "#7e1785",
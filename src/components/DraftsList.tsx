@@ -0,0 +1,139 @@
+import * as React from "react";
+import { View, Text, StyleSheet, TouchableOpacity, Image, Alert } from "react-native";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { PencilLine, Trash2 } from "lucide-react-native";
+import { useDrafts } from "../hooks/use-drafts";
+import type { LetterDraft } from "../lib/drafts";
+import { stripRichText } from "../lib/rich-text";
+
+type DraftsListProps = {
+  // Borrador que está abierto en el formulario
+  currentId: string;
+  onResume: (draft: LetterDraft) => void;
+  onDiscard: (draft: LetterDraft) => void;
+};
+
+// La primera foto o, si no hay, la portada del primer video
+const draftThumbnail = (draft: LetterDraft) => draft.photos[0] ?? draft.videos[0]?.posterUri ?? null;
+
+const draftPreview = (draft: LetterDraft) => {
+  const text = stripRichText(draft.message).trim();
+  if (text) return text;
+  if (draft.photos.length > 0 || draft.videos.length > 0) return "Carta con fotos o videos";
+  if (draft.voiceNote) return "Carta con nota de voz";
+  return "Carta sin texto";
+};
+
+// Borradores guardados en el dispositivo para continuarlos o descartarlos
+const DraftsList = ({ currentId, onResume, onDiscard }: DraftsListProps) => {
+  const drafts = useDrafts();
+
+  if (drafts.length === 0) return null;
+
+  const confirmDiscard = (draft: LetterDraft) => {
+    Alert.alert("Descartar borrador", "Este borrador se borrará del dispositivo.", [
+      { text: "Cancelar", style: "cancel" },
+      { text: "Descartar", style: "destructive", onPress: () => onDiscard(draft) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Borradores</Text>
+      {drafts.map((draft) => {
+        const thumbnail = draftThumbnail(draft);
+        const isCurrent = draft.id === currentId;
+        return (
+          <View key={draft.id} style={styles.draft}>
+            {thumbnail && <Image source={{ uri: thumbnail }} style={styles.thumbnail} />}
+
+            <TouchableOpacity
+              style={styles.draftInfo}
+              onPress={() => onResume(draft)}
+              disabled={isCurrent}
+            >
+              <Text style={styles.draftMessage} numberOfLines={2}>
+                {draftPreview(draft)}
+              </Text>
+              <Text style={[styles.draftDate, isCurrent && styles.currentText]}>
+                {isCurrent
+                  ? "Editando ahora"
+                  : `Guardado el ${format(new Date(draft.updatedAt), "d MMM, HH:mm", { locale: es })}`}
+              </Text>
+            </TouchableOpacity>
+
+            <View style={styles.actions}>
+              {!isCurrent && (
+                <TouchableOpacity style={styles.actionButton} onPress={() => onResume(draft)}>
+                  <PencilLine width={18} height={18} color="#7e1785" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.actionButton} onPress={() => confirmDiscard(draft)}>
+                <Trash2 width={18} height={18} color="#9F1239" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 20,
+    padding: 16,
+    marginTop: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#7e1785",
+    marginBottom: 8,
+  },
+  draft: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#F3F4F6",
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  draftInfo: {
+    flex: 1,
+  },
+  draftMessage: {
+    fontSize: 14,
+    color: "#1F2937",
+    marginBottom: 4,
+  },
+  draftDate: {
+    fontSize: 12,
+    color: "#936bc7",
+  },
+  currentText: {
+    fontWeight: "600",
+    color: "#7e1785",
+  },
+  actions: {
+    flexDirection: "row",
+    marginLeft: 8,
+  },
+  actionButton: {
+    padding: 8,
+  },
+});
+
+export default DraftsList;
@@ -0,0 +1,169 @@
+import * as React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { X } from "lucide-react-native";
+import RichTextEditor from "./RichTextEditor";
+import { useEditLetter } from "../hooks/use-letters";
+import { CURRENT_LETTER_FORMAT, editedLetterFormatVersion } from "../lib/rich-text";
+import { getLetterMessage, LoveLetter } from "../lib/letters";
+
+interface EditLetterModalProps {
+  letter: LoveLetter;
+  visible: boolean;
+  onClose: () => void;
+}
+
+const EditLetterModal = ({ letter, visible, onClose }: EditLetterModalProps) => {
+  const currentMessage = getLetterMessage(letter);
+  const [message, setMessage] = React.useState(currentMessage);
+  const editLetter = useEditLetter();
+
+  // Cada vez que se abre se parte del mensaje actual de la carta
+  React.useEffect(() => {
+    if (visible) setMessage(currentMessage);
+  }, [visible, currentMessage]);
+
+  const trimmed = message.trim();
+  const canSave = !!trimmed && trimmed !== currentMessage && !editLetter.isPending;
+
+  const handleSave = () => {
+    editLetter.mutate(
+      {
+        id: letter.id,
+        message: trimmed,
+        formatVersion: editedLetterFormatVersion(letter.format_version, trimmed),
+      },
+      {
+        onSuccess: onClose,
+        onError: () => Alert.alert("Error", "No se pudo guardar el cambio. Inténtalo de nuevo."),
+      }
+    );
+  };
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Editar carta</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X width={24} height={24} color="#7e1785" />
+            </TouchableOpacity>
+          </View>
+
+          <RichTextEditor
+            value={message}
+            onChange={setMessage}
+            maxLength={CURRENT_LETTER_FORMAT.maxLength}
+            inputStyle={styles.input}
+          />
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.submitButton, !canSave && styles.submitButtonDisabled]}
+              onPress={handleSave}
+              disabled={!canSave}
+            >
+              {editLetter.isPending ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={[styles.buttonText, styles.submitButtonText]}>Guardar</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={[styles.buttonText, styles.cancelButtonText]}>Cancelar</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  modalContent: {
+    width: "85%",
+    backgroundColor: "#F5F3FF",
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#7e1785",
+  },
+  closeButton: {
+    padding: 4,
+  },
+  input: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 160,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    color: "#1F2937",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: "#7e1785",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 8,
+  },
+  submitButtonDisabled: {
+    backgroundColor: "#936bc7",
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+    justifyContent: "center",
+    marginLeft: 8,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  submitButtonText: {
+    color: "white",
+  },
+  cancelButtonText: {
+    color: "#4B5563",
+  },
+});
+
+export default EditLetterModal;
@@ -0,0 +1,117 @@
+import * as React from "react";
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity, Pressable } from "react-native";
+import { X } from "lucide-react-native";
+import { EMOJI_CATEGORIES, QUICK_REACTIONS } from "../lib/letter-reactions";
+
+interface EmojiPickerModalProps {
+  visible: boolean;
+  // Emojis con los que la cuenta ya reaccionó, se marcan en la grilla
+  selected: string[];
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+const EmojiPickerModal = ({ visible, selected, onSelect, onClose }: EmojiPickerModalProps) => {
+  const handleSelect = (emoji: string) => {
+    onSelect(emoji);
+    onClose();
+  };
+
+  const renderEmoji = (emoji: string) => (
+    <TouchableOpacity
+      key={emoji}
+      style={[styles.emojiButton, selected.includes(emoji) && styles.selectedEmoji]}
+      onPress={() => handleSelect(emoji)}
+    >
+      <Text style={styles.emoji}>{emoji}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={visible} onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        {/* El Pressable interno evita que un toque en la hoja la cierre */}
+        <Pressable style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Reaccionar</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X width={24} height={24} color="#7e1785" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={styles.categoryTitle}>Rápidas</Text>
+            <View style={styles.grid}>{QUICK_REACTIONS.map(renderEmoji)}</View>
+
+            {EMOJI_CATEGORIES.map((category) => (
+              <View key={category.title}>
+                <Text style={styles.categoryTitle}>{category.title}</Text>
+                <View style={styles.grid}>{category.emojis.map(renderEmoji)}</View>
+              </View>
+            ))}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  sheet: {
+    maxHeight: "70%",
+    backgroundColor: "#F5F3FF",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#7e1785",
+  },
+  closeButton: {
+    padding: 4,
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  categoryTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#936bc7",
+    textTransform: "uppercase",
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  emojiButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  selectedEmoji: {
+    backgroundColor: "#EDE4F7",
+  },
+  emoji: {
+    fontSize: 26,
+  },
+});
+
+export default EmojiPickerModal;
@@ -1,200 +1,262 @@
 import * as React from "react";
-import { View, Text, StyleSheet, ScrollView, ActivityIndicator, RefreshControl, Image, TouchableOpacity, Alert, ToastAndroid, Platform } from "react-native";
-import { Heart, Calendar, Download } from "lucide-react-native";
-import * as FileSystem from 'expo-file-system';
-import * as Sharing from 'expo-sharing';
-import { supabase } from "../integrations/supabase/client";
-import { format } from "date-fns";
-import { es } from "date-fns/locale";
-
-interface LoveLetter {
-  id: string;
-  message: string;
-  author: string;
-  image_url: string | null;
-  created_at: string;
+import { View, Text, StyleSheet, FlatList, ActivityIndicator, RefreshControl, Image, TouchableOpacity, NativeSyntheticEvent, NativeScrollEvent, ViewToken, ViewabilityConfig } from "react-native";
+import { ArrowUp } from "lucide-react-native";
+import LetterCard from "./LetterCard";
+import StaleIndicator from "./StaleIndicator";
+import LetterSearchBar from "./LetterSearchBar";
+import { useAuth } from "../hooks/use-auth";
+import { useLetterFeed, useLetterRealtime, useLetterSearch, useMarkLettersRead } from "../hooks/use-letters";
+import { canMarkAsRead } from "../lib/letter-reads";
+import { LoveLetter } from "../lib/letters";
+import { hasActiveFilters, LetterFilters } from "../lib/letter-search";
+
+// A partir de este desplazamiento las cartas más nuevas ya no están a la vista
+const SCROLLED_DOWN_OFFSET = 200;
+
+// Espera después de la última tecla antes de buscar
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Una carta cuenta como leída cuando se ve la mayor parte de ella durante un momento
+const READ_VIEWABILITY: ViewabilityConfig = {
+  itemVisiblePercentThreshold: 60,
+  minimumViewTime: 1000,
+};
+
+interface FeedSectionProps {
+  // Los filtros vienen de LetterFiltersProvider para que la búsqueda siga ahí al cambiar de pantalla
+  filters: LetterFilters;
+  onFiltersChange: (filters: LetterFilters) => void;
+  // Carta a la que desplazarse, por ejemplo al abrir un aviso
+  focusLetterId?: string | null;
+  onFocusHandled?: () => void;
 }
 
-const FeedSection = () => {
-  const [letters, setLetters] = React.useState<LoveLetter[]>([]);
-  const [loading, setLoading] = React.useState(true);
-  const [refreshing, setRefreshing] = React.useState(false);
-
-  const fetchLetters = React.useCallback(async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from("love_letters")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) {
-        console.error("Error fetching letters:", error);
-        return;
+const FeedSection = ({ filters, onFiltersChange, focusLetterId, onFocusHandled }: FeedSectionProps) => {
+  const feed = useLetterFeed();
+
+  const [debouncedQuery, setDebouncedQuery] = React.useState(filters.query);
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(filters.query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.query]);
+
+  const searchFilters = React.useMemo(
+    () => ({ ...filters, query: debouncedQuery }),
+    [filters, debouncedQuery]
+  );
+  const isSearching = hasActiveFilters(searchFilters);
+  const search = useLetterSearch(searchFilters);
+
+  // Con búsqueda o filtros la lista muestra los resultados en lugar del feed
+  const {
+    letters,
+    isPending,
+    isFetching,
+    isError,
+    dataUpdatedAt,
+    error,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = isSearching ? search : feed;
+  const { refreshing, refreshNewer, loadLetter } = feed;
+
+  React.useEffect(() => {
+    if (error) {
+      console.error("Error fetching letters:", error);
+    }
+  }, [error]);
+
+  // Cartas que llegaron en tiempo real mientras se estaba leyendo más abajo en la lista
+  const listRef = React.useRef<FlatList<LoveLetter>>(null);
+  const scrollOffset = React.useRef(0);
+  const [newLettersCount, setNewLettersCount] = React.useState(0);
+
+  useLetterRealtime(
+    React.useCallback(() => {
+      if (scrollOffset.current > SCROLLED_DOWN_OFFSET) {
+        setNewLettersCount((count) => count + 1);
       }
+    }, [])
+  );
 
-      setLetters(data as LoveLetter[]);
-    } catch (error) {
-      console.error("Unexpected error:", error);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+  const onScroll = React.useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    scrollOffset.current = event.nativeEvent.contentOffset.y;
+    if (scrollOffset.current <= SCROLLED_DOWN_OFFSET) {
+      setNewLettersCount(0);
     }
   }, []);
 
-  const onRefresh = React.useCallback(() => {
-    setRefreshing(true);
-    fetchLetters();
-  }, [fetchLetters]);
+  const scrollToTop = () => {
+    listRef.current?.scrollToOffset({ offset: 0, animated: true });
+    setNewLettersCount(0);
+  };
 
+  // Ir a la carta pedida; si no está entre las cargadas se trae una vez antes de rendirse
+  const loadingFocusId = React.useRef<string | null>(null);
   React.useEffect(() => {
-    fetchLetters();
-  }, [fetchLetters]);
-
-  const formatDate = (dateString: string) => {
-    try {
-      return format(new Date(dateString), "d 'de' MMMM 'de' yyyy HH:mm", { locale: es });
-    } catch (error) {
-      return dateString.split('T')[0]; // Fallback format
+    if (!focusLetterId || isSearching || isPending) return;
+
+    const index = letters.findIndex((letter) => letter.id === focusLetterId);
+    if (index !== -1) {
+      listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0 });
+      setNewLettersCount(0);
+      onFocusHandled?.();
+      return;
     }
+    if (loadingFocusId.current === focusLetterId) return;
+
+    loadingFocusId.current = focusLetterId;
+    loadLetter(focusLetterId)
+      .then((found) => {
+        if (!found) onFocusHandled?.();
+      })
+      .catch((err) => {
+        console.error("Error loading focused letter:", err);
+        onFocusHandled?.();
+      })
+      .finally(() => {
+        loadingFocusId.current = null;
+      });
+  }, [focusLetterId, isSearching, isPending, letters, loadLetter, onFocusHandled]);
+
+  // Las cartas miden distinto: si todavía no se midió la fila, se acerca primero y se reintenta
+  const onScrollToIndexFailed = React.useCallback(
+    (info: { index: number; averageItemLength: number }) => {
+      listRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: true });
+      setTimeout(() => listRef.current?.scrollToIndex({ index: info.index, animated: true }), 300);
+    },
+    []
+  );
+
+  // Marcar como leídas las cartas que se ven al desplazarse
+  const { session } = useAuth();
+  const markLettersRead = useMarkLettersRead();
+  const markedIds = React.useRef(new Set<string>());
+
+  const markVisibleAsRead = (viewableItems: ViewToken<LoveLetter>[]) => {
+    const userId = session?.user.id;
+    if (!userId) return;
+
+    const letterIds = viewableItems
+      .map((token) => token.item)
+      .filter((letter) => !markedIds.current.has(letter.id) && canMarkAsRead(letter, userId))
+      .map((letter) => letter.id);
+    if (letterIds.length === 0) return;
+
+    letterIds.forEach((id) => markedIds.current.add(id));
+    markLettersRead.mutate(
+      { letterIds, userId },
+      { onError: () => letterIds.forEach((id) => markedIds.current.delete(id)) }
+    );
   };
 
-  // Función para descargar y compartir imágenes
-  const handleDownloadImage = async (imageUrl: string, filename: string) => {
-    try {
-      // La URL puede venir como data:image/jpeg;base64,...
-      if (imageUrl.startsWith('data:')) {
-        const base64Data = imageUrl.split(',')[1];
-        const fileUri = FileSystem.documentDirectory + filename;
-        
-        await FileSystem.writeAsStringAsync(fileUri, base64Data, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        
-        if (await Sharing.isAvailableAsync()) {
-          await Sharing.shareAsync(fileUri);
-        } else {
-          if (Platform.OS === 'android') {
-            ToastAndroid.show('¡Imagen guardada!', ToastAndroid.SHORT);
-          } else {
-            Alert.alert('Imagen guardada', 'La imagen ha sido guardada exitosamente');
-          }
-        }
-      } else {
-        // Para URLs externas
-        const downloadResumable = FileSystem.createDownloadResumable(
-          imageUrl,
-          FileSystem.documentDirectory + filename
-        );
-        
-        const result = await downloadResumable.downloadAsync();
-        if (!result) {
-          throw new Error('Error al descargar la imagen');
-        }
-        const { uri } = result;
-        
-        if (await Sharing.isAvailableAsync()) {
-          await Sharing.shareAsync(uri);
-        } else {
-          if (Platform.OS === 'android') {
-            ToastAndroid.show('¡Imagen guardada!', ToastAndroid.SHORT);
-          } else {
-            Alert.alert('Imagen guardada', 'La imagen ha sido guardada exitosamente');
-          }
-        }
-      }
-    } catch (error) {
-      console.error("Error al descargar o compartir la imagen:", error);
-      Alert.alert('Error', 'No se pudo descargar la imagen');
+  // FlatList no admite cambiar onViewableItemsChanged, así que se llama a la versión actual por ref
+  const markVisibleAsReadRef = React.useRef(markVisibleAsRead);
+  markVisibleAsReadRef.current = markVisibleAsRead;
+  const onViewableItemsChanged = React.useCallback(
+    ({ viewableItems }: { viewableItems: ViewToken<LoveLetter>[] }) =>
+      markVisibleAsReadRef.current(viewableItems),
+    []
+  );
+
+  const onEndReached = React.useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
     }
-  };
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-  return (
-    <ScrollView 
-      style={styles.container}
-      refreshControl={
-        <RefreshControl
-          refreshing={refreshing}
-          onRefresh={onRefresh}
-          tintColor="#7e1785"
-          colors={["#7e1785"]}
-        />
-      }
-    >
-      <View style={styles.content}>
+  const highlight = isSearching ? searchFilters.query : undefined;
+  const renderItem = React.useCallback(
+    ({ item }: { item: LoveLetter }) => <LetterCard letter={item} highlight={highlight} />,
+    [highlight]
+  );
 
+  const header = (
+    <View>
       <View style={styles.headerIcons}>
-        <Image 
-          source={require('../assets/animations/feed.gif')} 
-          style={styles.feedAnimation} 
+        <Image
+          source={require('../assets/animations/feed.gif')}
+          style={styles.feedAnimation}
         />
       </View>
-        
-
-        <Text style={styles.title}>Nuestras Cartas</Text>
-        <Text style={styles.subtitle}>
-          Lee todos nuestros mensajes
-        </Text>
-        
-        {loading && !refreshing ? (
-          <View style={styles.loadingContainer}>
-            <ActivityIndicator size="large" color="#7e1785" />
-          </View>
-        ) : letters.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>No hay cartas aún.</Text>
-          </View>
-        ) : (
-          <View style={styles.messageList}>
-            {letters.map((letter) => (
-              <View key={letter.id} style={styles.messageCard}>
-                {/* Header con autor y fecha */}
-                <View style={styles.cardHeader}>
-                  <View style={styles.authorContainer}>
-                    <Heart width={20} height={20} color="#7e1785" fill="#7e1785" />
-                    <Text style={styles.messageAuthor}>{letter.author}</Text>
-                  </View>
-                  
-                  <View style={styles.dateContainer}>
-                    <Calendar width={16} height={16} color="#7e1785" />
-                    <Text style={styles.messageDate}>{formatDate(letter.created_at)}</Text>
-                  </View>
-                </View>
-                
-                {/* Imagen de la carta (si existe) */}
-                {letter.image_url && (
-                  <View style={styles.imageContainer}>
-                    <Image 
-                      source={{ uri: letter.image_url }} 
-                      style={styles.messageImage}
-                      resizeMode="contain"
-                    />
-                    <TouchableOpacity 
-                      style={styles.downloadButton}
-                      onPress={() => letter.image_url && handleDownloadImage(letter.image_url, `carta-${letter.id}.jpg`)}
-                    >
-                      <Download width={24} height={24} color="white" />
-                    </TouchableOpacity>
-                  </View>
-                )}
-                
-                {/* Contenido del mensaje */}
-                <View style={styles.messageContentContainer}>
-                  <Text style={styles.messageContent}>{letter.message}</Text>
-                </View>
-                
-                {/* Corazones decorativos al final */}
-                <View style={styles.decorativeHearts}>
-                  <Heart width={24} height={24} color="#9F1239" fill="#9F1239" />
-                  <Heart width={20} height={20} color="#7C3AED" fill="#7C3AED" />
-                  <Heart width={16} height={16} color="#A78BFA" fill="#A78BFA" />
-                </View>
-              </View>
-            ))}
-          </View>
-        )}
-      </View>
-    </ScrollView>
+
+      <Text style={styles.title}>Nuestras Cartas</Text>
+      <Text style={styles.subtitle}>
+        Lee todos nuestros mensajes
+      </Text>
+
+      <LetterSearchBar filters={filters} onChange={onFiltersChange} />
+
+      <StaleIndicator
+        dataUpdatedAt={dataUpdatedAt}
+        isFetching={isFetching && !isPending && !isFetchingNextPage && !refreshing}
+        isError={isError}
+      />
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        ref={listRef}
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        data={letters}
+        keyExtractor={(letter) => letter.id}
+        renderItem={renderItem}
+        ListHeaderComponent={header}
+        ItemSeparatorComponent={() => <View style={styles.separator} />}
+        ListEmptyComponent={
+          isPending ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#7e1785" />
+            </View>
+          ) : (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>
+                {isSearching ? "No encontramos cartas con esa búsqueda." : "No hay cartas aún."}
+              </Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          isFetchingNextPage ? (
+            <View style={styles.footerLoading}>
+              <ActivityIndicator size="small" color="#7e1785" />
+            </View>
+          ) : null
+        }
+        onEndReached={onEndReached}
+        onEndReachedThreshold={0.5}
+        onScroll={onScroll}
+        scrollEventThrottle={100}
+        onScrollToIndexFailed={onScrollToIndexFailed}
+        viewabilityConfig={READ_VIEWABILITY}
+        onViewableItemsChanged={onViewableItemsChanged}
+        initialNumToRender={4}
+        windowSize={7}
+        removeClippedSubviews
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing || (isSearching && search.isRefetching)}
+            onRefresh={isSearching ? () => search.refetch() : refreshNewer}
+            tintColor="#7e1785"
+            colors={["#7e1785"]}
+          />
+        }
+      />
+
+      {/* Aviso de cartas nuevas cuando no se está viendo el inicio del feed */}
+      {newLettersCount > 0 && !isSearching && (
+        <TouchableOpacity style={styles.newLettersBanner} onPress={scrollToTop}>
+          <ArrowUp width={16} height={16} color="white" />
+          <Text style={styles.newLettersText}>
+            {newLettersCount === 1 ? "Nueva carta" : `${newLettersCount} cartas nuevas`}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
   );
 };
 
@@ -236,6 +298,10 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  footerLoading: {
+    padding: 16,
+    alignItems: "center",
+  },
   emptyContainer: {
     padding: 40,
     alignItems: "center",
@@ -253,97 +319,31 @@ const styles = StyleSheet.create({
     color: "#9F1239",
     fontStyle: "italic",
   },
-  messageList: {
-    gap: 24,
+  separator: {
+    height: 24,
   },
-  messageCard: {
-    backgroundColor: "white", // Fondo lavanda claro 
-    borderRadius: 24,
-    overflow: "hidden",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.15,
-    shadowRadius: 8,
-    elevation: 5,
-    marginBottom: 20,
-  },
-  imageContainer: {
-    margin: 16,
-    marginTop: 8,
-    marginBottom: 16,
-    borderRadius: 16,
-    overflow: "hidden",
-    position: "relative",
-    backgroundColor: "#f0f0f0",
-    minHeight: 240,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  messageImage: {
-    width: "100%",
-    height: "auto",
-    minHeight: 240,
-    maxHeight: 400,
-    backgroundColor: "white",
-  },
-  downloadButton: {
+  newLettersBanner: {
     position: "absolute",
-    bottom: 10,
-    right: 10,
-    backgroundColor: "#7e1785",
-    borderRadius: 30,
-    width: 50,
-    height: 50,
-    justifyContent: "center",
+    top: 12,
+    alignSelf: "center",
+    flexDirection: "row",
     alignItems: "center",
+    backgroundColor: "#7e1785",
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
     shadowColor: "#000",
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.3,
     shadowRadius: 3,
     elevation: 5,
   },
-  cardHeader: {
-    padding: 16,
-  },
-  authorContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    marginBottom: 8,
-  },
-  messageAuthor: {
-    fontSize: 18,
-    fontWeight: "700",
-    color: "#7e1785",
-    marginLeft: 8,
-  },
-  dateContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-  },
-  messageDate: {
+  newLettersText: {
+    color: "white",
+    fontWeight: "600",
     fontSize: 14,
-    color: "#7e1785",
     marginLeft: 6,
   },
-  messageContentContainer: {
-    backgroundColor: "#7e1785", // Fondo morado oscuro para el mensaje
-    padding: 20,
-    borderRadius: 16,
-    margin: 16,
-    marginTop: 0,
-  },
-  messageContent: {
-    fontSize: 16,
-    color: "white"
-  },
-  decorativeHearts: {
-    flexDirection: "row",
-    justifyContent: "flex-end",
-    alignItems: "center",
-    paddingHorizontal: 16,
-    paddingBottom: 16,
-    gap: 8,
-  }
 });
 
 export default FeedSection;
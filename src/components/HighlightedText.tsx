@@ -0,0 +1,34 @@
+import * as React from "react";
+import { Text, StyleProp, TextStyle } from "react-native";
+import { getHighlightTerms, splitHighlights } from "../lib/letter-search";
+
+interface HighlightedTextProps {
+  text: string;
+  // Búsqueda escrita en el feed; sin búsqueda el texto se muestra tal cual
+  query?: string;
+  style?: StyleProp<TextStyle>;
+  highlightStyle?: StyleProp<TextStyle>;
+}
+
+const HighlightedText = ({ text, query, style, highlightStyle }: HighlightedTextProps) => {
+  const parts = React.useMemo(
+    () => splitHighlights(text, query ? getHighlightTerms(query) : []),
+    [text, query]
+  );
+
+  return (
+    <Text style={style}>
+      {parts.map((part, index) =>
+        part.match ? (
+          <Text key={index} style={highlightStyle}>
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        )
+      )}
+    </Text>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,367 @@
+import * as React from "react";
+import { View, Text, StyleSheet, Alert, ToastAndroid, Platform, TouchableOpacity } from "react-native";
+import { Heart, Calendar, Pencil, Trash2, MessageCircle, CheckCheck } from "lucide-react-native";
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import LetterGallery from "./LetterGallery";
+import LetterVideo from "./LetterVideo";
+import LetterThread from "./LetterThread";
+import ReactionBar from "./ReactionBar";
+import EditLetterModal from "./EditLetterModal";
+import LetterHistoryModal from "./LetterHistoryModal";
+import SealedEnvelope from "./SealedEnvelope";
+import HighlightedText from "./HighlightedText";
+import RichText from "./RichText";
+import VoiceNotePlayer from "./VoiceNotePlayer";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { useAuth } from "../hooks/use-auth";
+import { useIsBefore } from "../hooks/use-countdown";
+import { useDeleteLetter, useRevealLetter } from "../hooks/use-letters";
+import { useSignedUrl } from "../hooks/use-signed-url";
+import { getSeenAt } from "../lib/letter-reads";
+import {
+  getLetterMessage,
+  getLetterPhotos,
+  getLetterVideos,
+  getLetterVoiceNote,
+  LoveLetter,
+} from "../lib/letters";
+
+interface LetterCardProps {
+  letter: LoveLetter;
+  // Búsqueda activa en el feed para resaltar las coincidencias
+  highlight?: string;
+}
+
+const formatDate = (dateString: string) => {
+  try {
+    return format(new Date(dateString), "d 'de' MMMM 'de' yyyy HH:mm", { locale: es });
+  } catch (error) {
+    return dateString.split('T')[0]; // Fallback format
+  }
+};
+
+const formatSeenDate = (dateString: string) =>
+  format(new Date(dateString), "d MMM, HH:mm", { locale: es });
+
+const notifySaved = () => {
+  if (Platform.OS === 'android') {
+    ToastAndroid.show('¡Archivo guardado!', ToastAndroid.SHORT);
+  } else {
+    Alert.alert('Archivo guardado', 'El archivo ha sido guardado exitosamente');
+  }
+};
+
+// Función para descargar y compartir las fotos y videos de una carta
+const handleDownloadMedia = async (mediaUrl: string, filename: string) => {
+  try {
+    const fileUri = FileSystem.documentDirectory + filename;
+
+    // Las fotos y videos llegan como URLs firmadas de Storage
+    const result = await FileSystem.createDownloadResumable(mediaUrl, fileUri).downloadAsync();
+    if (!result) {
+      throw new Error('Error al descargar el archivo');
+    }
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri);
+    } else {
+      notifySaved();
+    }
+  } catch (error) {
+    console.error("Error al descargar o compartir el archivo:", error);
+    Alert.alert('Error', 'No se pudo descargar el archivo');
+  }
+};
+
+const LetterCard = ({ letter, highlight }: LetterCardProps) => {
+  const { session } = useAuth();
+  const deleteLetter = useDeleteLetter();
+
+  // La carta se revela sola en cuanto pasa su fecha de apertura
+  const isSealed = useIsBefore(letter.unlock_at);
+  useRevealLetter(letter.id, isSealed);
+  const photos = React.useMemo(() => getLetterPhotos(letter), [letter]);
+  const videos = React.useMemo(() => getLetterVideos(letter), [letter]);
+  const voiceNote = React.useMemo(() => getLetterVoiceNote(letter), [letter]);
+  // El audio de una carta sellada no se pide hasta que se abra
+  const voiceNoteUrl = useSignedUrl(voiceNote?.path ?? null, !isSealed);
+
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = React.useState(false);
+  const [isShowingHistory, setIsShowingHistory] = React.useState(false);
+  const [isThreadOpen, setIsThreadOpen] = React.useState(false);
+
+  // Igual que en las políticas: las cartas sin author_id son de antes de tener cuentas
+  const isAuthor = !letter.author_id || letter.author_id === session?.user.id;
+  // Solo quien escribió la carta ve cuándo la leyó la otra persona
+  const seenAt = isAuthor ? getSeenAt(letter) : null;
+
+  // El aviso para deshacer lo muestra useDeleteLetter: esta tarjeta se desmonta al borrarla
+  const handleDelete = () => deleteLetter.mutate(letter.id);
+
+  return (
+    <View style={styles.messageCard}>
+      {/* Header con autor y fecha */}
+      <View style={styles.cardHeader}>
+        <View style={styles.authorRow}>
+          <View style={styles.authorContainer}>
+            <Heart width={20} height={20} color="#7e1785" fill="#7e1785" />
+            <HighlightedText
+              text={letter.author}
+              query={highlight}
+              style={styles.messageAuthor}
+              highlightStyle={styles.highlight}
+            />
+          </View>
+
+          <View style={styles.actions}>
+            {letter.reply_count > 0 && !isSealed && (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.replyCount]}
+                onPress={() => setIsThreadOpen((open) => !open)}
+              >
+                <MessageCircle width={18} height={18} color="#7e1785" />
+                <Text style={styles.replyCountText}>{letter.reply_count}</Text>
+              </TouchableOpacity>
+            )}
+            {isAuthor && (
+              <>
+                <TouchableOpacity style={styles.actionButton} onPress={() => setIsEditing(true)}>
+                  <Pencil width={18} height={18} color="#7e1785" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => setIsConfirmingDelete(true)}
+                >
+                  <Trash2 width={18} height={18} color="#9F1239" />
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.dateContainer}>
+          <Calendar width={16} height={16} color="#7e1785" />
+          <Text style={styles.messageDate}>{formatDate(letter.created_at)}</Text>
+          {letter.edited_at && !isSealed && (
+            <TouchableOpacity onPress={() => setIsShowingHistory(true)}>
+              <Text style={styles.editedMarker}>(editada)</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {seenAt && (
+          <View style={styles.seenContainer}>
+            <CheckCheck width={14} height={14} color="#7C3AED" />
+            <Text style={styles.seenText}>Vista el {formatSeenDate(seenAt)}</Text>
+          </View>
+        )}
+      </View>
+
+      {isSealed && letter.unlock_at ? (
+        <SealedEnvelope unlockAt={letter.unlock_at} />
+      ) : (
+        <>
+          {/* Fotos de la carta (si tiene) */}
+          {photos.length > 0 && (
+            <LetterGallery
+              photos={photos}
+              onDownload={(uri, index) =>
+                handleDownloadMedia(uri, `carta-${letter.id}-${index + 1}.jpg`)
+              }
+            />
+          )}
+
+          {videos.map((video, index) => (
+            <LetterVideo
+              key={video.key}
+              video={video}
+              onDownload={(uri) => handleDownloadMedia(uri, `carta-${letter.id}-video-${index + 1}.mp4`)}
+            />
+          ))}
+
+          {/* Contenido del mensaje */}
+          <View style={styles.messageContentContainer}>
+            {letter.format_version > 0 ? (
+              <RichText
+                text={getLetterMessage(letter)}
+                highlight={highlight}
+                style={styles.messageContent}
+                highlightStyle={[styles.highlight, styles.messageHighlight]}
+              />
+            ) : (
+              <HighlightedText
+                text={getLetterMessage(letter)}
+                query={highlight}
+                style={styles.messageContent}
+                highlightStyle={[styles.highlight, styles.messageHighlight]}
+              />
+            )}
+
+            {voiceNote && (
+              <View style={styles.voiceNote}>
+                <VoiceNotePlayer
+                  uri={voiceNoteUrl.data ?? null}
+                  trimStartMs={voiceNote.trimStartMs}
+                  durationMs={voiceNote.durationMs}
+                  waveform={voiceNote.waveform}
+                  variant="dark"
+                />
+              </View>
+            )}
+          </View>
+
+          <LetterThread letter={letter} open={isThreadOpen} onOpenChange={setIsThreadOpen} />
+        </>
+      )}
+
+      {/* Reacciones al final; una carta sellada todavía no se puede reaccionar */}
+      {!isSealed && <ReactionBar letter={letter} />}
+
+      {isAuthor && (
+        <>
+          <EditLetterModal letter={letter} visible={isEditing} onClose={() => setIsEditing(false)} />
+
+          <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>¿Borrar esta carta?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Dejará de aparecer en el feed. Podrás deshacerlo justo después de borrarla.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                <AlertDialogAction onPress={handleDelete} style={styles.deleteAction}>
+                  Borrar
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+
+      {letter.edited_at && (
+        <LetterHistoryModal
+          letter={letter}
+          visible={isShowingHistory}
+          onClose={() => setIsShowingHistory(false)}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  messageCard: {
+    backgroundColor: "white", // Fondo lavanda claro
+    borderRadius: 24,
+    overflow: "hidden",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 5,
+    marginBottom: 20,
+  },
+  cardHeader: {
+    padding: 16,
+  },
+  authorRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  authorContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 4,
+  },
+  actionButton: {
+    padding: 6,
+  },
+  replyCount: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  replyCountText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#7e1785",
+  },
+  messageAuthor: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#7e1785",
+    marginLeft: 8,
+  },
+  dateContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  messageDate: {
+    fontSize: 14,
+    color: "#7e1785",
+    marginLeft: 6,
+  },
+  editedMarker: {
+    fontSize: 13,
+    color: "#936bc7",
+    fontStyle: "italic",
+    marginLeft: 6,
+    textDecorationLine: "underline",
+  },
+  seenContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 4,
+  },
+  seenText: {
+    fontSize: 12,
+    color: "#7C3AED",
+  },
+  deleteAction: {
+    backgroundColor: "#9F1239",
+  },
+  messageContentContainer: {
+    backgroundColor: "#7e1785", // Fondo morado oscuro para el mensaje
+    padding: 20,
+    borderRadius: 16,
+    margin: 16,
+    marginTop: 0,
+  },
+  messageContent: {
+    fontSize: 16,
+    color: "white"
+  },
+  voiceNote: {
+    marginTop: 16,
+  },
+  highlight: {
+    backgroundColor: "#FDE68A",
+    borderRadius: 4,
+  },
+  messageHighlight: {
+    color: "#7e1785",
+  },
+});
+
+export default React.memo(LetterCard);
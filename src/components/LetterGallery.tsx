@@ -0,0 +1,111 @@
+import * as React from "react";
+import { View, Text, StyleSheet, LayoutChangeEvent } from "react-native";
+import LetterImage from "./LetterImage";
+import PhotoViewer from "./PhotoViewer";
+import { Carousel, CarouselApi, CarouselContent, CarouselItem } from "./ui/carousel";
+import type { LetterPhoto } from "../lib/letters";
+
+interface LetterGalleryProps {
+  photos: LetterPhoto[];
+  onDownload: (uri: string, index: number) => void;
+}
+
+// Fotos de una carta: se deslizan dentro de la tarjeta y al tocarlas se abren a pantalla completa
+const LetterGallery = ({ photos, onDownload }: LetterGalleryProps) => {
+  const [width, setWidth] = React.useState(0);
+  const [api, setApi] = React.useState<CarouselApi | null>(null);
+  const [viewerIndex, setViewerIndex] = React.useState<number | null>(null);
+
+  const onLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+  const selectedIndex = api?.selectedIndex ?? 0;
+
+  return (
+    <View style={styles.container} onLayout={onLayout}>
+      {width > 0 && (
+        <Carousel setApi={setApi}>
+          <CarouselContent>
+            {photos.map((photo, index) => (
+              <CarouselItem key={photo.key} style={{ width, paddingHorizontal: 0 }}>
+                <LetterImage
+                  imagePath={photo.path}
+                  thumbnailPath={photo.thumbnailPath}
+                  onDownload={(uri) => onDownload(uri, index)}
+                  onPress={() => setViewerIndex(index)}
+                />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+        </Carousel>
+      )}
+
+      {photos.length > 1 && (
+        <>
+          <View style={styles.counter}>
+            <Text style={styles.counterText}>
+              {selectedIndex + 1}/{photos.length}
+            </Text>
+          </View>
+          <View style={styles.dots}>
+            {photos.map((photo, index) => (
+              <View
+                key={photo.key}
+                style={[styles.dot, index === selectedIndex && styles.dotActive]}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      {viewerIndex !== null && (
+        <PhotoViewer
+          photos={photos}
+          initialIndex={viewerIndex}
+          visible
+          onClose={() => setViewerIndex(null)}
+          onDownload={onDownload}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: 16,
+    marginTop: 8,
+    marginBottom: 16,
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  counter: {
+    position: "absolute",
+    top: 10,
+    right: 10,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  counterText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  dots: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 6,
+    paddingTop: 8,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#E5E7EB",
+  },
+  dotActive: {
+    backgroundColor: "#7e1785",
+  },
+});
+
+export default LetterGallery;
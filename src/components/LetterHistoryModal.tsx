@@ -0,0 +1,133 @@
+import * as React from "react";
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { X } from "lucide-react-native";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import RichText from "./RichText";
+import { useLetterRevisions } from "../hooks/use-letters";
+import { getLetterMessage, LoveLetter } from "../lib/letters";
+
+interface LetterHistoryModalProps {
+  letter: LoveLetter;
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatRevisionDate = (dateString: string) =>
+  format(new Date(dateString), "d MMM yyyy HH:mm", { locale: es });
+
+// Cada versión se muestra con el formato con el que se escribió; la 0 es texto plano
+const RevisionMessage = ({ message, formatVersion }: { message: string; formatVersion: number }) =>
+  formatVersion > 0 ? (
+    <RichText text={message} style={styles.revisionMessage} />
+  ) : (
+    <Text style={styles.revisionMessage}>{message}</Text>
+  );
+
+// Versiones anteriores del mensaje, de la más reciente a la más antigua
+const LetterHistoryModal = ({ letter, visible, onClose }: LetterHistoryModalProps) => {
+  const { data: revisions, isLoading, isError } = useLetterRevisions(letter.id, visible);
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={visible} onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Historial de cambios</Text>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <X width={24} height={24} color="#7e1785" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.list}>
+            <View style={styles.revision}>
+              <Text style={styles.revisionLabel}>
+                Versión actual{letter.edited_at ? ` · ${formatRevisionDate(letter.edited_at)}` : ""}
+              </Text>
+              <RevisionMessage message={getLetterMessage(letter)} formatVersion={letter.format_version} />
+            </View>
+
+            {isLoading ? (
+              <ActivityIndicator size="small" color="#7e1785" />
+            ) : isError ? (
+              <Text style={styles.emptyText}>No se pudo cargar el historial</Text>
+            ) : (
+              revisions?.map((revision, index) => (
+                <View key={revision.id} style={[styles.revision, styles.previousRevision]}>
+                  <Text style={styles.revisionLabel}>
+                    {index === revisions.length - 1
+                      ? `Original · ${formatRevisionDate(letter.created_at)}`
+                      : `Reemplazada el ${formatRevisionDate(revision.created_at)}`}
+                  </Text>
+                  <RevisionMessage message={revision.message} formatVersion={revision.format_version} />
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  modalContent: {
+    width: "85%",
+    maxHeight: "80%",
+    backgroundColor: "#F5F3FF",
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#7e1785",
+  },
+  closeButton: {
+    padding: 4,
+  },
+  list: {
+    gap: 12,
+  },
+  revision: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 12,
+  },
+  previousRevision: {
+    opacity: 0.8,
+  },
+  revisionLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#936bc7",
+    marginBottom: 6,
+  },
+  revisionMessage: {
+    fontSize: 15,
+    color: "#1F2937",
+  },
+  emptyText: {
+    textAlign: "center",
+    color: "#6B7280",
+  },
+});
+
+export default LetterHistoryModal;
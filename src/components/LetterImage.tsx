@@ -0,0 +1,101 @@
+import * as React from "react";
+import { View, Image, StyleSheet, TouchableOpacity, ActivityIndicator, Pressable } from "react-native";
+import { Download } from "lucide-react-native";
+import { useSignedUrl } from "../hooks/use-signed-url";
+
+interface LetterImageProps {
+  imagePath: string | null;
+  thumbnailPath: string | null;
+  onDownload: (uri: string) => void;
+  // Al tocar la foto (por ejemplo, para abrirla en pantalla completa)
+  onPress?: () => void;
+}
+
+const LetterImage = ({ imagePath, thumbnailPath, onDownload, onPress }: LetterImageProps) => {
+  const [thumbnailLoaded, setThumbnailLoaded] = React.useState(false);
+  const [fullLoaded, setFullLoaded] = React.useState(false);
+
+  const thumbnail = useSignedUrl(thumbnailPath);
+  // La versión completa se pide solo cuando la miniatura ya se mostró
+  const full = useSignedUrl(imagePath, !thumbnailPath || thumbnailLoaded);
+
+  const fullUri = full.data;
+
+  return (
+    <Pressable style={styles.imageContainer} onPress={onPress} disabled={!onPress}>
+      {thumbnail.data && !fullLoaded && (
+        <Image
+          source={{ uri: thumbnail.data }}
+          style={styles.messageImage}
+          resizeMode="contain"
+          blurRadius={1}
+          onLoad={() => setThumbnailLoaded(true)}
+        />
+      )}
+      {fullUri && (
+        <Image
+          source={{ uri: fullUri }}
+          style={[styles.messageImage, !fullLoaded && styles.hiddenImage]}
+          resizeMode="contain"
+          onLoad={() => setFullLoaded(true)}
+        />
+      )}
+      {!thumbnail.data && !fullLoaded && (
+        <ActivityIndicator style={styles.loader} size="small" color="#7e1785" />
+      )}
+      {fullUri && (
+        <TouchableOpacity
+          style={styles.downloadButton}
+          onPress={() => onDownload(fullUri)}
+        >
+          <Download width={24} height={24} color="white" />
+        </TouchableOpacity>
+      )}
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  imageContainer: {
+    borderRadius: 16,
+    overflow: "hidden",
+    position: "relative",
+    backgroundColor: "#f0f0f0",
+    minHeight: 240,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  messageImage: {
+    width: "100%",
+    height: "auto",
+    minHeight: 240,
+    maxHeight: 400,
+    backgroundColor: "white",
+  },
+  hiddenImage: {
+    // Se monta fuera de la vista para que cargue mientras se ve la miniatura
+    position: "absolute",
+    opacity: 0,
+  },
+  loader: {
+    position: "absolute",
+  },
+  downloadButton: {
+    position: "absolute",
+    bottom: 10,
+    right: 10,
+    backgroundColor: "#7e1785",
+    borderRadius: 30,
+    width: 50,
+    height: 50,
+    justifyContent: "center",
+    alignItems: "center",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 3,
+    elevation: 5,
+  },
+});
+
+export default LetterImage;
@@ -0,0 +1,183 @@
+import * as React from "react";
+import { View, Text, Image, StyleSheet, TouchableOpacity } from "react-native";
+import DraggableFlatList, { RenderItemParams, ScaleDecorator } from "react-native-draggable-flatlist";
+import { Camera, ImageIcon, Plus } from "lucide-react-native";
+
+export const MAX_LETTER_PHOTOS = 10;
+
+interface LetterPhotosPickerProps {
+  photos: string[];
+  onChange: (photos: string[]) => void;
+  onPickFromLibrary: () => void;
+  onTakePhoto: () => void;
+  // Al tocar una miniatura se vuelve a abrir el editor con esa foto
+  onEdit: (uri: string) => void;
+}
+
+/**
+ * Miniaturas de las fotos elegidas; se reordenan manteniendo presionada una y arrastrándola.
+ * Las fotos se agregan desde la galería o tomándolas con la cámara.
+ */
+const LetterPhotosPicker = ({
+  photos,
+  onChange,
+  onPickFromLibrary,
+  onTakePhoto,
+  onEdit,
+}: LetterPhotosPickerProps) => {
+  if (photos.length === 0) {
+    return (
+      <View style={styles.placeholderRow}>
+        <TouchableOpacity style={styles.placeholder} onPress={onPickFromLibrary}>
+          <ImageIcon width={28} height={28} color="#7e1785" />
+          <Text style={styles.placeholderText}>Elegir de la galería (mandame una plis)</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.placeholder} onPress={onTakePhoto}>
+          <Camera width={28} height={28} color="#7e1785" />
+          <Text style={styles.placeholderText}>Tomar una foto</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const renderItem = ({ item, drag, isActive, getIndex }: RenderItemParams<string>) => (
+    <ScaleDecorator>
+      <TouchableOpacity
+        onPress={() => onEdit(item)}
+        onLongPress={drag}
+        disabled={isActive}
+        delayLongPress={200}
+        style={styles.thumbnailContainer}
+      >
+        <Image source={{ uri: item }} style={styles.thumbnail} />
+        {getIndex() === 0 && (
+          <View style={styles.coverBadge}>
+            <Text style={styles.coverText}>Portada</Text>
+          </View>
+        )}
+        <TouchableOpacity
+          style={styles.removeButton}
+          onPress={() => onChange(photos.filter((uri) => uri !== item))}
+        >
+          <Text style={styles.removeText}>×</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </ScaleDecorator>
+  );
+
+  return (
+    <View>
+      <DraggableFlatList
+        horizontal
+        data={photos}
+        keyExtractor={(uri) => uri}
+        renderItem={renderItem}
+        onDragEnd={({ data }) => onChange(data)}
+        showsHorizontalScrollIndicator={false}
+        containerStyle={styles.list}
+        ListFooterComponent={
+          photos.length < MAX_LETTER_PHOTOS ? (
+            <View style={styles.addTiles}>
+              <TouchableOpacity style={styles.addTile} onPress={onPickFromLibrary}>
+                <Plus width={22} height={22} color="#7e1785" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.addTile} onPress={onTakePhoto}>
+                <Camera width={22} height={22} color="#7e1785" />
+              </TouchableOpacity>
+            </View>
+          ) : null
+        }
+      />
+      <Text style={styles.hint}>
+        {photos.length}/{MAX_LETTER_PHOTOS} · Toca una foto para editarla o mantenla presionada para
+        cambiarla de lugar
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  placeholderRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  placeholder: {
+    flex: 1,
+    height: 120,
+    paddingHorizontal: 8,
+    borderWidth: 2,
+    borderColor: "#7e1785",
+    borderStyle: "dashed",
+    borderRadius: 12,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  placeholderText: {
+    marginTop: 8,
+    color: "#7e1785",
+    fontSize: 14,
+    textAlign: "center",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  thumbnailContainer: {
+    marginRight: 8,
+  },
+  thumbnail: {
+    width: 96,
+    height: 96,
+    borderRadius: 12,
+  },
+  coverBadge: {
+    position: "absolute",
+    left: 6,
+    bottom: 6,
+    backgroundColor: "rgba(126,23,133,0.85)",
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  coverText: {
+    color: "white",
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  removeButton: {
+    position: "absolute",
+    top: 4,
+    right: 4,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  removeText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "bold",
+    lineHeight: 20,
+  },
+  addTiles: {
+    gap: 8,
+  },
+  addTile: {
+    width: 56,
+    height: 44,
+    borderWidth: 2,
+    borderColor: "#7e1785",
+    borderStyle: "dashed",
+    borderRadius: 12,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  hint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 6,
+  },
+});
+
+export default LetterPhotosPicker;
@@ -0,0 +1,273 @@
+import * as React from "react";
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from "react-native";
+import { Search, SlidersHorizontal, X, ImageIcon, CalendarDays } from "lucide-react-native";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Calendar } from "./ui/calendar";
+import { useCoupleMembers } from "../hooks/use-auth";
+import { emptyLetterFilters, LetterFilters } from "../lib/letter-search";
+
+interface LetterSearchBarProps {
+  filters: LetterFilters;
+  onChange: (filters: LetterFilters) => void;
+}
+
+// El calendario marca los días a medianoche UTC, así que los días se convierten en ese formato
+const toCalendarDay = (day: string) => new Date(`${day}T00:00:00Z`);
+const fromCalendarDay = (date: Date) => date.toISOString().split("T")[0];
+
+const formatDay = (day: string) => format(new Date(`${day}T00:00:00`), "d MMM yyyy", { locale: es });
+
+const LetterSearchBar = ({ filters, onChange }: LetterSearchBarProps) => {
+  const { data: members = [] } = useCoupleMembers();
+  const [showFilters, setShowFilters] = React.useState(false);
+  const [showCalendar, setShowCalendar] = React.useState(false);
+
+  const update = (changes: Partial<LetterFilters>) => onChange({ ...filters, ...changes });
+
+  const activeFilterCount =
+    (filters.authorId ? 1 : 0) + (filters.from ? 1 : 0) + (filters.hasPhoto ? 1 : 0);
+
+  // Con un solo día elegido el calendario espera el segundo toque para cerrar el rango
+  const selectedRange = filters.from
+    ? [
+        toCalendarDay(filters.from),
+        ...(filters.to && filters.to !== filters.from ? [toCalendarDay(filters.to)] : []),
+      ]
+    : [];
+
+  const handleSelectRange = (selected: Date | Date[] | undefined) => {
+    if (!Array.isArray(selected) || selected.length === 0) return;
+    const [start, end] = [...selected].sort((a, b) => a.getTime() - b.getTime());
+    update({
+      from: fromCalendarDay(start),
+      // Mientras solo hay un día elegido, el rango es ese día
+      to: fromCalendarDay(end ?? start),
+    });
+    if (end) setShowCalendar(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <View style={styles.inputContainer}>
+          <Search width={18} height={18} color="#936bc7" />
+          <TextInput
+            style={styles.input}
+            value={filters.query}
+            onChangeText={(query) => update({ query })}
+            placeholder="Buscar en nuestras cartas..."
+            placeholderTextColor="#A1A1AA"
+            returnKeyType="search"
+          />
+          {!!filters.query && (
+            <TouchableOpacity onPress={() => update({ query: "" })}>
+              <X width={18} height={18} color="#936bc7" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.filterButton, (showFilters || activeFilterCount > 0) && styles.filterButtonActive]}
+          onPress={() => setShowFilters((value) => !value)}
+        >
+          <SlidersHorizontal
+            width={18}
+            height={18}
+            color={showFilters || activeFilterCount > 0 ? "white" : "#7e1785"}
+          />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterCount}>
+              <Text style={styles.filterCountText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {showFilters && (
+        <View style={styles.panel}>
+          <Text style={styles.panelLabel}>Autor</Text>
+          <View style={styles.chips}>
+            <TouchableOpacity
+              style={[styles.chip, !filters.authorId && styles.chipSelected]}
+              onPress={() => update({ authorId: null })}
+            >
+              <Text style={[styles.chipText, !filters.authorId && styles.chipTextSelected]}>Todos</Text>
+            </TouchableOpacity>
+            {members.map((member) => {
+              const selected = filters.authorId === member.id;
+              return (
+                <TouchableOpacity
+                  key={member.id}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => update({ authorId: selected ? null : member.id })}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                    {member.display_name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.panelLabel}>Fechas</Text>
+          <View style={styles.chips}>
+            <TouchableOpacity
+              style={[styles.chip, !!filters.from && styles.chipSelected]}
+              onPress={() => setShowCalendar((value) => !value)}
+            >
+              <CalendarDays width={14} height={14} color={filters.from ? "white" : "#7e1785"} />
+              <Text style={[styles.chipText, !!filters.from && styles.chipTextSelected]}>
+                {filters.from && filters.to
+                  ? filters.from === filters.to
+                    ? formatDay(filters.from)
+                    : `${formatDay(filters.from)} – ${formatDay(filters.to)}`
+                  : "Cualquier fecha"}
+              </Text>
+            </TouchableOpacity>
+            {!!filters.from && (
+              <TouchableOpacity style={styles.chip} onPress={() => update({ from: null, to: null })}>
+                <X width={14} height={14} color="#7e1785" />
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={[styles.chip, filters.hasPhoto && styles.chipSelected]}
+              onPress={() => update({ hasPhoto: !filters.hasPhoto })}
+            >
+              <ImageIcon width={14} height={14} color={filters.hasPhoto ? "white" : "#7e1785"} />
+              <Text style={[styles.chipText, filters.hasPhoto && styles.chipTextSelected]}>Con foto</Text>
+            </TouchableOpacity>
+          </View>
+
+          {showCalendar && (
+            <Calendar
+              mode="range"
+              selected={selectedRange}
+              onSelect={handleSelectRange}
+              maxDate={new Date()}
+              theme={{ primary: "#7e1785", accent: "#F5F3FF", accentForeground: "#7e1785" }}
+            />
+          )}
+
+          {activeFilterCount > 0 && (
+            <TouchableOpacity
+              style={styles.clearButton}
+              onPress={() => onChange({ ...emptyLetterFilters, query: filters.query })}
+            >
+              <Text style={styles.clearButtonText}>Quitar filtros</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  inputContainer: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "white",
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: "#1F2937",
+  },
+  filterButton: {
+    width: 46,
+    height: 46,
+    borderRadius: 16,
+    backgroundColor: "white",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+  },
+  filterButtonActive: {
+    backgroundColor: "#7e1785",
+    borderColor: "#7e1785",
+  },
+  filterCount: {
+    position: "absolute",
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: "#9F1239",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 4,
+  },
+  filterCountText: {
+    color: "white",
+    fontSize: 11,
+    fontWeight: "700",
+  },
+  panel: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+  },
+  panelLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#7e1785",
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderColor: "#7e1785",
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipSelected: {
+    backgroundColor: "#7e1785",
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#7e1785",
+  },
+  chipTextSelected: {
+    color: "white",
+  },
+  clearButton: {
+    alignSelf: "center",
+    marginTop: 4,
+  },
+  clearButtonText: {
+    color: "#9F1239",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
+
+export default LetterSearchBar;
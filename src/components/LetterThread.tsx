@@ -0,0 +1,236 @@
+import * as React from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { ChevronDown, ChevronUp, MessageCircle, Send, Trash2 } from "lucide-react-native";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import RichText from "./RichText";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { useAuth } from "../hooks/use-auth";
+import { useDeleteReply, useLetterReplies, useSendReply } from "../hooks/use-letters";
+import type { LoveLetter } from "../lib/letters";
+import { CURRENT_LETTER_FORMAT } from "../lib/rich-text";
+
+interface LetterThreadProps {
+  letter: LoveLetter;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatReplyDate = (dateString: string) =>
+  format(new Date(dateString), "d MMM, HH:mm", { locale: es });
+
+const Reply = ({ reply, parentId }: { reply: LoveLetter; parentId: string }) => {
+  const { session } = useAuth();
+  const deleteReply = useDeleteReply();
+  const isAuthor = reply.author_id === session?.user.id;
+
+  const confirmDelete = () =>
+    Alert.alert("¿Borrar esta respuesta?", undefined, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Borrar",
+        style: "destructive",
+        onPress: () =>
+          deleteReply.mutate(
+            { id: reply.id, parentId },
+            { onError: () => Alert.alert("Error", "No se pudo borrar la respuesta.") }
+          ),
+      },
+    ]);
+
+  return (
+    <View style={[styles.reply, isAuthor && styles.ownReply]}>
+      <View style={styles.replyHeader}>
+        <Text style={styles.replyAuthor}>{reply.author}</Text>
+        <Text style={styles.replyDate}>{formatReplyDate(reply.created_at)}</Text>
+        {isAuthor && (
+          <TouchableOpacity style={styles.replyDelete} onPress={confirmDelete}>
+            <Trash2 width={14} height={14} color="#9F1239" />
+          </TouchableOpacity>
+        )}
+      </View>
+      <RichText text={reply.message} style={styles.replyMessage} />
+    </View>
+  );
+};
+
+/**
+ * Conversación debajo de una carta: las respuestas se cargan al abrir el hilo
+ * y se contestan desde el mismo lugar, sin ir a "Escribir".
+ */
+const LetterThread = ({ letter, open, onOpenChange }: LetterThreadProps) => {
+  const { profile } = useAuth();
+  const replies = useLetterReplies(letter.id, open);
+  const sendReply = useSendReply();
+  const [message, setMessage] = React.useState("");
+
+  const handleSend = () => {
+    const text = message.trim();
+    if (!text || !profile?.couple_id) return;
+
+    sendReply.mutate(
+      { parentId: letter.id, coupleId: profile.couple_id, author: profile.display_name, message: text },
+      {
+        onSuccess: (sent) => {
+          setMessage("");
+          if (!sent) {
+            Alert.alert(
+              "Respuesta guardada",
+              "No se pudo enviar en este momento. Se enviará automáticamente cuando haya conexión."
+            );
+          }
+        },
+        onError: () => Alert.alert("Error", "No se pudo enviar la respuesta. Inténtalo de nuevo."),
+      }
+    );
+  };
+
+  const count = letter.reply_count;
+
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange} style={styles.container}>
+      <CollapsibleTrigger style={styles.trigger}>
+        <MessageCircle width={16} height={16} color="#7e1785" />
+        <Text style={styles.triggerText}>
+          {count === 0 ? "Responder" : count === 1 ? "1 respuesta" : `${count} respuestas`}
+        </Text>
+        {open ? (
+          <ChevronUp width={16} height={16} color="#7e1785" />
+        ) : (
+          <ChevronDown width={16} height={16} color="#7e1785" />
+        )}
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <View style={styles.content}>
+          {replies.isLoading ? (
+            <ActivityIndicator size="small" color="#7e1785" style={styles.loader} />
+          ) : (
+            replies.data?.map((reply) => (
+              <Reply key={reply.id} reply={reply} parentId={letter.id} />
+            ))
+          )}
+
+          <View style={styles.composer}>
+            <TextInput
+              style={styles.input}
+              value={message}
+              onChangeText={setMessage}
+              placeholder="Escribe una respuesta..."
+              placeholderTextColor="#A1A1AA"
+              multiline
+              maxLength={CURRENT_LETTER_FORMAT.maxLength}
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, (!message.trim() || sendReply.isPending) && styles.sendButtonDisabled]}
+              onPress={handleSend}
+              disabled={!message.trim() || sendReply.isPending}
+            >
+              {sendReply.isPending ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Send width={18} height={18} color="white" />
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  trigger: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+  },
+  triggerText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#7e1785",
+  },
+  content: {
+    gap: 8,
+    paddingBottom: 8,
+  },
+  loader: {
+    marginVertical: 8,
+  },
+  reply: {
+    backgroundColor: "#F5F3FF",
+    borderRadius: 12,
+    padding: 12,
+    marginRight: 32,
+  },
+  ownReply: {
+    backgroundColor: "#EDE4F7",
+    marginRight: 0,
+    marginLeft: 32,
+  },
+  replyHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  replyAuthor: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#7e1785",
+  },
+  replyDate: {
+    flex: 1,
+    fontSize: 12,
+    color: "#936bc7",
+    marginLeft: 8,
+  },
+  replyDelete: {
+    padding: 4,
+  },
+  replyMessage: {
+    fontSize: 15,
+    color: "#1F2937",
+  },
+  composer: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    color: "#1F2937",
+    maxHeight: 120,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#7e1785",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  sendButtonDisabled: {
+    backgroundColor: "#936bc7",
+  },
+});
+
+export default LetterThread;
@@ -0,0 +1,194 @@
+import * as React from "react";
+import { View, Text, Image, StyleSheet, TouchableOpacity, ActivityIndicator } from "react-native";
+import { useEvent } from "expo";
+import { useVideoPlayer, VideoView } from "expo-video";
+import { Download, Maximize, Play, Volume2, VolumeX } from "lucide-react-native";
+import { useSignedUrl } from "../hooks/use-signed-url";
+import { getLetterImageUrl } from "../lib/letter-images";
+import type { LetterVideo as LetterVideoItem } from "../lib/letters";
+import { formatDuration } from "../lib/voice-notes";
+
+interface LetterVideoProps {
+  video: LetterVideoItem;
+  onDownload: (uri: string) => void;
+}
+
+/**
+ * Video de una carta. Se muestra la portada hasta que se toca: recién ahí se pide
+ * la URL firmada y se carga el video, para no gastar datos en cada tarjeta del feed.
+ */
+const LetterVideo = ({ video, onDownload }: LetterVideoProps) => {
+  const viewRef = React.useRef<VideoView>(null);
+  const [started, setStarted] = React.useState(false);
+
+  const poster = useSignedUrl(video.posterPath);
+  const source = useSignedUrl(video.path, started);
+
+  const player = useVideoPlayer(null, (player) => {
+    player.loop = false;
+  });
+  const { isPlaying } = useEvent(player, "playingChange", { isPlaying: player.playing });
+  const { muted } = useEvent(player, "mutedChange", { muted: player.muted });
+
+  React.useEffect(() => {
+    if (!source.data) return;
+    player.replace({ uri: source.data });
+    player.play();
+  }, [source.data, player]);
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      player.pause();
+    } else {
+      // Al terminar, volver a tocar lo reproduce desde el principio
+      if (player.duration > 0 && player.currentTime >= player.duration) {
+        player.currentTime = 0;
+      }
+      player.play();
+    }
+  };
+
+  const toggleMuted = () => {
+    player.muted = !muted;
+  };
+
+  const handleDownload = async () => {
+    try {
+      onDownload(source.data ?? (await getLetterImageUrl(video.path)));
+    } catch (error) {
+      console.error("Error getting video url:", error);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {started && source.data ? (
+        <TouchableOpacity activeOpacity={1} onPress={togglePlayback}>
+          <VideoView
+            ref={viewRef}
+            player={player}
+            style={styles.video}
+            contentFit="contain"
+            nativeControls={false}
+            allowsFullscreen
+          />
+          {!isPlaying && (
+            <View style={styles.centerOverlay}>
+              <View style={styles.playButton}>
+                <Play width={28} height={28} color="white" fill="white" />
+              </View>
+            </View>
+          )}
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity activeOpacity={0.9} onPress={() => setStarted(true)}>
+          {poster.data ? (
+            <Image source={{ uri: poster.data }} style={styles.video} resizeMode="cover" />
+          ) : (
+            <View style={styles.video} />
+          )}
+          <View style={styles.centerOverlay}>
+            {started ? (
+              <ActivityIndicator size="large" color="white" />
+            ) : (
+              <View style={styles.playButton}>
+                <Play width={28} height={28} color="white" fill="white" />
+              </View>
+            )}
+          </View>
+          {video.durationMs !== null && (
+            <View style={styles.durationBadge}>
+              <Text style={styles.durationText}>{formatDuration(video.durationMs)}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.controls}>
+        {started && source.data && (
+          <>
+            <TouchableOpacity style={styles.controlButton} onPress={toggleMuted}>
+              {muted ? (
+                <VolumeX width={20} height={20} color="white" />
+              ) : (
+                <Volume2 width={20} height={20} color="white" />
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => viewRef.current?.enterFullscreen()}
+            >
+              <Maximize width={20} height={20} color="white" />
+            </TouchableOpacity>
+          </>
+        )}
+        <TouchableOpacity style={[styles.controlButton, styles.downloadButton]} onPress={handleDownload}>
+          <Download width={20} height={20} color="white" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    borderRadius: 16,
+    overflow: "hidden",
+    backgroundColor: "#1F1029",
+  },
+  video: {
+    width: "100%",
+    aspectRatio: 16 / 9,
+    backgroundColor: "#1F1029",
+  },
+  centerOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  playButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: "rgba(126,23,133,0.85)",
+    justifyContent: "center",
+    alignItems: "center",
+    paddingLeft: 4,
+  },
+  durationBadge: {
+    position: "absolute",
+    left: 10,
+    bottom: 10,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  durationText: {
+    color: "white",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  controls: {
+    position: "absolute",
+    right: 10,
+    bottom: 10,
+    flexDirection: "row",
+    gap: 8,
+  },
+  controlButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "rgba(0,0,0,0.55)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  downloadButton: {
+    backgroundColor: "#7e1785",
+  },
+});
+
+export default LetterVideo;
@@ -0,0 +1,45 @@
+import * as React from "react";
+import { View, StyleSheet, StyleProp, ViewStyle } from "react-native";
+import { Apple, AudioLines, Cloud, Youtube } from "lucide-react-native";
+import type { MusicProvider } from "../lib/music-providers";
+
+interface MusicProviderIconProps {
+  provider: MusicProvider;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+const PROVIDER_ICONS: Record<MusicProvider, { Icon: typeof AudioLines; color: string }> = {
+  spotify: { Icon: AudioLines, color: "#1DB954" },
+  youtube: { Icon: Youtube, color: "#FF0000" },
+  apple_music: { Icon: Apple, color: "#FA243C" },
+  soundcloud: { Icon: Cloud, color: "#FF5500" },
+};
+
+// Círculo con el color del servicio de donde viene la playlist
+const MusicProviderIcon = ({ provider, size = 20, style }: MusicProviderIconProps) => {
+  const { Icon, color } = PROVIDER_ICONS[provider];
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { width: size, height: size, borderRadius: size / 2, backgroundColor: color },
+        style,
+      ]}
+    >
+      <Icon width={size * 0.6} height={size * 0.6} color="white" />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 2,
+    borderColor: "white",
+  },
+});
+
+export default MusicProviderIcon;
@@ -1,16 +1,30 @@
 import * as React from "react";
-import { View, Text, StyleSheet, ScrollView, ActivityIndicator, TouchableOpacity, Linking, RefreshControl, Dimensions, Modal, TextInput, Alert, Image } from "react-native";
-import { Music, X, Plus } from "lucide-react-native";
-import WebView from "react-native-webview";
-import { supabase } from "../integrations/supabase/client";
-
-interface MusicPlaylist {
-  id: string;
-  name: string;
-  description: string | null;
-  spotify_url: string;
-  created_at: string;
-}
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, RefreshControl, Dimensions, Modal, TextInput, Alert, Image, ViewabilityConfig, ViewToken } from "react-native";
+import DraggableFlatList, { RenderItemParams, ScaleDecorator } from "react-native-draggable-flatlist";
+import { X, Plus } from "lucide-react-native";
+import {
+  useAddPlaylist,
+  useDeletePlaylist,
+  usePlaylists,
+  useBackfillPlaylistMetadata,
+  useReorderPlaylists,
+  useUpdatePlaylist,
+} from "../hooks/use-playlists";
+import { MusicPlaylist, PENDING_PLAYLIST_PREFIX } from "../lib/playlists";
+import { MusicParseResult, resolveMusicUrl } from "../lib/music-providers";
+import { fetchMusicMetadata, hasMusicMetadata, metadataColumns, MusicMetadata } from "../lib/music-metadata";
+import PlaylistCard from "./PlaylistCard";
+import StaleIndicator from "./StaleIndicator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
 
 // Define styles before using them
 const styles = StyleSheet.create({
@@ -18,7 +32,10 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   content: {
-    padding: 16,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  listContent: {
     paddingBottom: 80, // Space for bottom navigation
   },
   headerIcons: {
@@ -107,6 +124,36 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#E5E7EB",
   },
+  inputWithError: {
+    marginBottom: 8,
+    borderColor: "#9F1239",
+  },
+  inputError: {
+    fontSize: 14,
+    color: "#9F1239",
+    marginBottom: 24,
+  },
+  linkPreview: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  linkPreviewCover: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    marginRight: 10,
+  },
+  linkPreviewText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#4B5563",
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
   buttonRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -161,169 +208,241 @@ const styles = StyleSheet.create({
     color: "#9F1239",
     fontStyle: "italic",
   },
-  playlistsContainer: {
-    gap: 16,
-  },
-  playlistCard: {
-    backgroundColor: "white",
-    borderRadius: 12,
-    padding: 16,
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 2,
-    marginBottom: 16,
+  playlistItem: {
+    paddingHorizontal: 16,
   },
-  playlistHeader: {
-    flexDirection: "row",
-    alignItems: "center",
+  reorderHint: {
+    fontSize: 13,
+    color: "#936bc7",
+    textAlign: "center",
     marginBottom: 12,
   },
-  playlistIconContainer: {
-    width: 50,
-    height: 50,
-    borderRadius: 25,
-    backgroundColor: "#e4d1f2",
-    alignItems: "center",
-    justifyContent: "center",
-    marginRight: 16,
-  },
-  playlistInfo: {
-    flex: 1,
-  },
-  playlistName: {
-    fontSize: 18,
-    fontWeight: "600",
-    color: "#1F2937",
-    marginBottom: 4,
-  },
-  playlistDescription: {
-    fontSize: 14,
-    color: "#4B5563",
-    marginBottom: 8,
-  },
-  spotifyLink: {
-    marginTop: 6,
-    fontSize: 14,
-    color: "#7e1785",
-    fontWeight: "500",
-  },
-  webViewContainer: {
-    width: "100%",
-    height: 380,
-    marginTop: 12,
-    borderRadius: 8,
-    overflow: "hidden",
+  deleteAction: {
+    backgroundColor: "#9F1239",
   },
 });
 
+const emptyForm = { name: "", description: "", url: "" };
+
+// Espera después de la última tecla en el enlace antes de buscar sus datos
+const LINK_PREVIEW_DELAY_MS = 600;
+
+// El reproductor se carga cuando la tarjeta se ve casi completa por un momento (no al pasar de largo)
+// y se quita cuando deja de verse
+const PLAYER_VIEWABILITY: ViewabilityConfig = {
+  itemVisiblePercentThreshold: 50,
+  minimumViewTime: 500,
+};
+
 const MusicSection = () => {
-  const [playlists, setPlaylists] = React.useState<MusicPlaylist[]>([]);
-  const [loading, setLoading] = React.useState(true);
+  const {
+    data: playlists = [],
+    isPending,
+    isFetching,
+    isError,
+    dataUpdatedAt,
+    error,
+    refetch,
+  } = usePlaylists();
+  const addPlaylist = useAddPlaylist();
+  const updatePlaylist = useUpdatePlaylist();
+  const deletePlaylist = useDeletePlaylist();
+  const reorderPlaylists = useReorderPlaylists();
   const [refreshing, setRefreshing] = React.useState(false);
   const [modalVisible, setModalVisible] = React.useState(false);
-  const [newPlaylist, setNewPlaylist] = React.useState({
-    name: "",
-    description: "",
-    spotify_url: "",
-  });
+  // Playlist que se está editando en el modal; null al agregar una nueva
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [newPlaylist, setNewPlaylist] = React.useState(emptyForm);
+  // Motivo por el que no se aceptó el enlace; se muestra debajo del campo
+  const [urlError, setUrlError] = React.useState<string | null>(null);
+  const [checkingUrl, setCheckingUrl] = React.useState(false);
+  // Datos del enlace pegado en el modal (url canónica), para completar el nombre y guardarlos
+  const [linkPreview, setLinkPreview] = React.useState<{ url: string; metadata: MusicMetadata } | null>(null);
+  // Último nombre completado desde el enlace; si se escribió otro, no se reemplaza
+  const prefilledName = React.useRef<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = React.useState<MusicPlaylist | null>(null);
+  // Tarjetas con el reproductor cargado; el resto muestra la vista previa
+  const [mountedPlayers, setMountedPlayers] = React.useState<ReadonlySet<string>>(new Set());
 
-  const fetchPlaylists = React.useCallback(async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from("music_playlists")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) {
-        console.error("Error fetching playlists:", error);
-        return;
+  useBackfillPlaylistMetadata(playlists);
+
+  const linkInput = newPlaylist.url.trim();
+  React.useEffect(() => {
+    if (!modalVisible || !linkInput) {
+      setLinkPreview(null);
+      return;
+    }
+
+    let active = true;
+    const showPreview = async () => {
+      const parsed = await resolveMusicUrl(linkInput);
+      if (!active || !parsed.ok) return;
+
+      const metadata = await fetchMusicMetadata(parsed.link);
+      if (!active) return;
+      setLinkPreview({ url: parsed.link.url, metadata });
+
+      const title = metadata.title;
+      if (title) {
+        setNewPlaylist((current) =>
+          current.name.trim() && current.name !== prefilledName.current ? current : { ...current, name: title }
+        );
+        prefilledName.current = title;
       }
+    };
 
-      setPlaylists(data as MusicPlaylist[]);
-    } catch (error) {
-      console.error("Unexpected error:", error);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+    // La vista previa es opcional: si falla solo se quita, el enlace se revisa de nuevo al guardar
+    const timer = setTimeout(() => {
+      showPreview().catch((error) => {
+        console.error("Error loading link preview:", error);
+        if (active) setLinkPreview(null);
+      });
+    }, LINK_PREVIEW_DELAY_MS);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [modalVisible, linkInput]);
+
+  React.useEffect(() => {
+    if (error) {
+      console.error("Error fetching playlists:", error);
     }
-  }, []);
+  }, [error]);
   
-  const onRefresh = React.useCallback(() => {
+  const onRefresh = React.useCallback(async () => {
     setRefreshing(true);
-    fetchPlaylists();
-  }, [fetchPlaylists]);
+    await refetch();
+    setRefreshing(false);
+  }, [refetch]);
 
-  React.useEffect(() => {
-    fetchPlaylists();
-  }, [fetchPlaylists]);
-
-  const formatSpotifyEmbedUrl = (url: string): string => {
-    // Ejemplo: https://open.spotify.com/playlist/37i9dQZF1DX76t638V6CA8 -> https://open.spotify.com/embed/playlist/37i9dQZF1DX76t638V6CA8
-    try {
-      // Extraer el tipo (playlist/track/album) y el ID
-      const urlParts = url.split('/');
-      const spotifyType = urlParts[urlParts.length - 2]; // playlist, album o track
-      const spotifyId = urlParts[urlParts.length - 1].split('?')[0]; // ID sin parámetros adicionales
-      
-      return `https://open.spotify.com/embed/${spotifyType}/${spotifyId}`;
-    } catch (error) {
-      console.error('Error formateando URL de Spotify:', error);
-      return url; // Devolver la URL original en caso de error
-    }
+  const openAddModal = () => {
+    setEditingId(null);
+    setNewPlaylist(emptyForm);
+    setModalVisible(true);
   };
 
-  const openSpotifyLink = (url: string) => {
-    Linking.canOpenURL(url).then(supported => {
-      if (supported) {
-        Linking.openURL(url);
-      } else {
-        console.log("Don't know how to open this URL: " + url);
-      }
+  const openEditModal = (playlist: MusicPlaylist) => {
+    setEditingId(playlist.id);
+    setNewPlaylist({
+      name: playlist.name,
+      description: playlist.description ?? "",
+      url: playlist.url,
     });
+    setModalVisible(true);
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingId(null);
+    setNewPlaylist(emptyForm);
+    setUrlError(null);
+    setLinkPreview(null);
+    prefilledName.current = null;
   };
 
-  const handleAddPlaylist = async () => {
+  const handleSavePlaylist = async () => {
     // Validación básica
-    if (!newPlaylist.name || !newPlaylist.spotify_url) {
-      Alert.alert("Error", "El nombre y la URL de Spotify son obligatorios");
+    if (!newPlaylist.name.trim() || !newPlaylist.url.trim()) {
+      Alert.alert("Error", "El nombre y el enlace son obligatorios");
       return;
     }
 
-    // Validar que la URL es de Spotify
-    if (!newPlaylist.spotify_url.includes("open.spotify.com")) {
-      Alert.alert("Error", "Por favor ingresa una URL válida de Spotify");
+    // Cualquier forma de enlace se guarda en la forma canónica de su servicio
+    setCheckingUrl(true);
+    let parsed: MusicParseResult;
+    let metadata: MusicMetadata | null = null;
+    try {
+      parsed = await resolveMusicUrl(newPlaylist.url);
+      // Portada, título y canciones se guardan con la playlist
+      if (parsed.ok) {
+        metadata =
+          linkPreview?.url === parsed.link.url ? linkPreview.metadata : await fetchMusicMetadata(parsed.link);
+      }
+    } catch (error) {
+      console.error("Error checking playlist link:", error);
+      Alert.alert("Error", "No se pudo revisar el enlace. Inténtalo de nuevo.");
       return;
+    } finally {
+      setCheckingUrl(false);
     }
 
-    try {
-      setLoading(true);
-      
-      const { data, error } = await supabase
-        .from("music_playlists")
-        .insert([{ 
-          name: newPlaylist.name, 
-          description: newPlaylist.description || null, 
-          spotify_url: newPlaylist.spotify_url 
-        }]);
-
-      if (error) throw error;
-
-      // Reset form and close modal
-      setNewPlaylist({ name: "", description: "", spotify_url: "" });
-      setModalVisible(false);
-      
-      // Refresh the playlist list
-      fetchPlaylists();
+    if (!parsed.ok) {
+      setUrlError(parsed.error);
+      return;
+    }
 
-    } catch (error) {
-      console.error("Error adding playlist:", error);
-      Alert.alert("Error", "No se pudo agregar la playlist. Inténtalo de nuevo.");
-    } finally {
-      setLoading(false);
+    // Los datos anteriores solo sirven si el enlace no cambió; si cambió, no se mezclan con el nuevo
+    const editing = editingId ? playlists.find((playlist) => playlist.id === editingId) : undefined;
+    const linkChanged =
+      !!editing && (editing.url !== parsed.link.url || editing.external_id !== parsed.link.externalId);
+    const playlist = {
+      name: newPlaylist.name.trim(),
+      description: newPlaylist.description.trim() || null,
+      url: parsed.link.url,
+      provider: parsed.link.provider,
+      external_id: parsed.link.externalId,
+      ...(metadata && (linkChanged || hasMusicMetadata(metadata)) ? metadataColumns(metadata) : {}),
+    };
+
+    // La lista se actualiza enseguida; si falla, vuelve a como estaba y se avisa
+    if (editingId) {
+      updatePlaylist.mutate(
+        { id: editingId, changes: playlist },
+        {
+          onError: () => Alert.alert("Error", "No se pudo guardar la playlist. Inténtalo de nuevo."),
+        }
+      );
+    } else {
+      addPlaylist.mutate(playlist, {
+        onError: () => Alert.alert("Error", "No se pudo agregar la playlist. Inténtalo de nuevo."),
+      });
     }
+    closeModal();
+  };
+
+  const handleDeletePlaylist = () => {
+    if (!confirmingDelete) return;
+    deletePlaylist.mutate(confirmingDelete.id, {
+      onError: () => Alert.alert("Error", "No se pudo borrar la playlist. Inténtalo de nuevo."),
+    });
+  };
+
+  const handleReorder = (data: MusicPlaylist[]) => {
+    if (data.every((playlist, index) => playlist.id === playlists[index]?.id)) return;
+    reorderPlaylists.mutate(data, {
+      onError: () => Alert.alert("Error", "No se pudo guardar el nuevo orden. Inténtalo de nuevo."),
+    });
+  };
+
+  const onViewableItemsChanged = React.useCallback(
+    ({ viewableItems }: { viewableItems: ViewToken<MusicPlaylist>[] }) =>
+      setMountedPlayers(new Set(viewableItems.filter((token) => token.isViewable).map((token) => token.item.id))),
+    []
+  );
+
+  const mountPlayer = (id: string) =>
+    setMountedPlayers((current) => new Set(current).add(id));
+
+  const renderPlaylist = ({ item, drag, isActive }: RenderItemParams<MusicPlaylist>) => {
+    // Hasta que el servidor la confirme, una playlist nueva no se puede editar ni mover
+    const isPendingPlaylist = item.id.startsWith(PENDING_PLAYLIST_PREFIX);
+    return (
+      <ScaleDecorator>
+        <View style={styles.playlistItem}>
+          <PlaylistCard
+            playlist={item}
+            onEdit={isPendingPlaylist ? undefined : () => openEditModal(item)}
+            onDelete={isPendingPlaylist ? undefined : () => setConfirmingDelete(item)}
+            onDrag={isPendingPlaylist || playlists.length < 2 ? undefined : drag}
+            isDragging={isActive}
+            isPlayerMounted={mountedPlayers.has(item.id)}
+            onPressPreview={() => mountPlayer(item.id)}
+          />
+        </View>
+      </ScaleDecorator>
+    );
   };
 
   return (
@@ -332,20 +451,46 @@ const MusicSection = () => {
         animationType="slide"
         transparent={true}
         visible={modalVisible}
-        onRequestClose={() => setModalVisible(false)}
+        onRequestClose={closeModal}
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Agregar Playlist</Text>
+              <Text style={styles.modalTitle}>{editingId ? "Editar Playlist" : "Agregar Playlist"}</Text>
               <TouchableOpacity 
                 style={styles.closeButton}
-                onPress={() => setModalVisible(false)}
+                onPress={closeModal}
               >
                 <X width={24} height={24} color="#7C3AED" />
               </TouchableOpacity>
             </View>
             
+            {/* El enlace va primero: al pegarlo se completa el nombre */}
+            <Text style={styles.inputLabel}>Enlace</Text>
+            <TextInput
+              style={[styles.input, urlError !== null && styles.inputWithError]}
+              placeholder="Spotify, YouTube, Apple Music o SoundCloud"
+              value={newPlaylist.url}
+              onChangeText={(text) => {
+                setNewPlaylist({...newPlaylist, url: text});
+                setUrlError(null);
+                setLinkPreview(null);
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {urlError && <Text style={styles.inputError}>{urlError}</Text>}
+            {!urlError && linkPreview?.metadata.title && (
+              <View style={styles.linkPreview}>
+                {linkPreview.metadata.coverUrl && (
+                  <Image source={{ uri: linkPreview.metadata.coverUrl }} style={styles.linkPreviewCover} />
+                )}
+                <Text style={styles.linkPreviewText} numberOfLines={2}>
+                  {[linkPreview.metadata.title, linkPreview.metadata.authorName].filter(Boolean).join(" · ")}
+                </Text>
+              </View>
+            )}
+
             <Text style={styles.inputLabel}>Nombre de la playlist</Text>
             <TextInput
               style={styles.input}
@@ -353,25 +498,33 @@ const MusicSection = () => {
               value={newPlaylist.name}
               onChangeText={(text) => setNewPlaylist({...newPlaylist, name: text})}
             />
-            
-            <Text style={styles.inputLabel}>URL de Spotify</Text>
+
+            <Text style={styles.inputLabel}>Descripción (opcional)</Text>
             <TextInput
-              style={styles.input}
-              placeholder="https://open.spotify.com/playlist/..."
-              value={newPlaylist.spotify_url}
-              onChangeText={(text) => setNewPlaylist({...newPlaylist, spotify_url: text})}
+              style={[styles.input, styles.multilineInput]}
+              placeholder="¿Por qué es especial?"
+              value={newPlaylist.description}
+              onChangeText={(text) => setNewPlaylist({...newPlaylist, description: text})}
+              multiline
             />
             
             <View style={styles.buttonRow}>
               <TouchableOpacity 
                 style={styles.submitButton} 
-                onPress={handleAddPlaylist}
+                onPress={handleSavePlaylist}
+                disabled={checkingUrl}
               >
-                <Text style={[styles.buttonText, styles.submitButtonText]}>Agregar</Text>
+                {checkingUrl ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={[styles.buttonText, styles.submitButtonText]}>
+                    {editingId ? "Guardar" : "Agregar"}
+                  </Text>
+                )}
               </TouchableOpacity>
               <TouchableOpacity 
                 style={styles.cancelButton}
-                onPress={() => setModalVisible(false)}
+                onPress={closeModal}
               >
                 <Text style={[styles.buttonText, styles.cancelButtonText]}>Cancelar</Text>
               </TouchableOpacity>
@@ -380,8 +533,39 @@ const MusicSection = () => {
         </View>
       </Modal>
 
-      <ScrollView 
-        style={styles.container}
+      <AlertDialog
+        open={confirmingDelete !== null}
+        onOpenChange={(open) => !open && setConfirmingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Borrar esta playlist?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{confirmingDelete?.name}" dejará de aparecer en Nuestra Música para los dos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onPress={handleDeletePlaylist} style={styles.deleteAction}>
+              Borrar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <DraggableFlatList
+        data={playlists}
+        keyExtractor={(playlist) => playlist.id}
+        renderItem={renderPlaylist}
+        onDragEnd={({ data }) => handleReorder(data)}
+        extraData={mountedPlayers}
+        viewabilityConfig={PLAYER_VIEWABILITY}
+        onViewableItemsChanged={onViewableItemsChanged}
+        initialNumToRender={3}
+        maxToRenderPerBatch={3}
+        windowSize={5}
+        containerStyle={styles.container}
+        contentContainerStyle={styles.listContent}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -390,85 +574,55 @@ const MusicSection = () => {
             colors={["#9F1239"]}
           />
         }
-      >
-        <View style={styles.content}>
-          {/* GIF de música en la parte superior */}
-          <View style={styles.headerIcons}>
-            <Image 
-              source={require('../assets/animations/music.gif')} 
-              style={styles.musicAnimation} 
+        ListHeaderComponent={
+          <View style={styles.content}>
+            {/* GIF de música en la parte superior */}
+            <View style={styles.headerIcons}>
+              <Image 
+                source={require('../assets/animations/music.gif')} 
+                style={styles.musicAnimation} 
+              />
+            </View>
+            
+            <Text style={styles.title}>Nuestra Música</Text>
+            <Text style={styles.subtitle}>
+              Las canciones que nos gustan y nos hemos dedicado
+            </Text>
+            
+            {/* Botón para agregar playlist */}
+            <TouchableOpacity 
+              style={styles.addButton}
+              onPress={openAddModal}
+            >
+              <Plus width={24} height={24} color="white" />
+              <Text style={styles.addButtonText}>Agregar Playlist</Text>
+            </TouchableOpacity>
+
+            <StaleIndicator
+              dataUpdatedAt={dataUpdatedAt}
+              isFetching={isFetching && !isPending && !refreshing}
+              isError={isError}
             />
+
+            {playlists.length > 1 && (
+              <Text style={styles.reorderHint}>Arrastra una playlist desde el asa para cambiarla de lugar</Text>
+            )}
           </View>
-          
-          <Text style={styles.title}>Nuestra Música</Text>
-          <Text style={styles.subtitle}>
-            Las canciones que nos gustan y nos hemos dedicado
-          </Text>
-          
-          {/* Botón para agregar playlist */}
-          <TouchableOpacity 
-            style={styles.addButton}
-            onPress={() => setModalVisible(true)}
-          >
-            <Plus width={24} height={24} color="white" />
-            <Text style={styles.addButtonText}>Agregar Playlist</Text>
-          </TouchableOpacity>
-        
-        {loading && !refreshing ? (
-          <View style={styles.loadingContainer}>
-            <ActivityIndicator size="large" color="#7e1785" />
-          </View>
-        ) : playlists.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>No hay playlists aún.</Text>
-          </View>
-        ) : (
-          <View style={styles.playlistsContainer}>
-            {playlists.map((playlist) => (
-              <View 
-                key={playlist.id} 
-                style={styles.playlistCard}
-              >
-                <View style={styles.playlistHeader}>
-                  <View style={styles.playlistIconContainer}>
-                    <Music width={28} height={28} color="#7e1785" />
-                  </View>
-                  <View style={styles.playlistInfo}>
-                    <Text style={styles.playlistName}>{playlist.name}</Text>
-                    {playlist.description && (
-                      <Text style={styles.playlistDescription}>
-                        {playlist.description}
-                      </Text>
-                    )}
-                  </View>
-                </View>
-                
-                {/* Spotify Embed */}
-                <View style={styles.webViewContainer}>
-                  <WebView
-                    source={{ 
-                      uri: formatSpotifyEmbedUrl(playlist.spotify_url)
-                    }}
-                    javaScriptEnabled={true}
-                    domStorageEnabled={true}
-                    startInLoadingState={true}
-                    scalesPageToFit={true}
-                    style={{ flex: 1, backgroundColor: 'transparent' }}
-                  />
-                </View>
-                
-                {/* Link para abrir en Spotify */}
-                <TouchableOpacity 
-                  onPress={() => openSpotifyLink(playlist.spotify_url)}
-                >
-                  <Text style={styles.spotifyLink}>Abrir en Spotify</Text>
-                </TouchableOpacity>
+        }
+        ListEmptyComponent={
+          <View style={styles.playlistItem}>
+            {isPending ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="#7e1785" />
+              </View>
+            ) : (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>No hay playlists aún.</Text>
               </View>
-            ))}
+            )}
           </View>
-        )}
-      </View>
-    </ScrollView>
+        }
+      />
     </>
   );
 };
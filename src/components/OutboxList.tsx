@@ -0,0 +1,133 @@
+import * as React from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Image } from "react-native";
+import { Clock, AlertCircle, RotateCw, Trash2 } from "lucide-react-native";
+import { useOutbox } from "../hooks/use-outbox";
+import { discardOutboxEntry, OutboxEntry, retryOutboxEntry } from "../lib/outbox";
+import { stripRichText } from "../lib/rich-text";
+
+const statusLabel = (entry: OutboxEntry) => {
+  switch (entry.status) {
+    case "sending":
+      return "Enviando...";
+    case "failed":
+      return "No se pudo enviar";
+    default:
+      return entry.attempts > 0 ? "Pendiente, se reintentará pronto" : "Pendiente de enviar";
+  }
+};
+
+// La primera foto o, si no hay, la portada del primer video
+const entryThumbnail = (entry: OutboxEntry) =>
+  entry.photos[0]?.uri ?? entry.videos[0]?.posterUri ?? null;
+
+// Lista de cartas que todavía están en el outbox del dispositivo
+const OutboxList = () => {
+  const entries = useOutbox();
+
+  if (entries.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Cartas por enviar</Text>
+      {entries.map((entry) => {
+        const thumbnail = entryThumbnail(entry);
+        return (
+          <View key={entry.id} style={styles.entry}>
+            {thumbnail && <Image source={{ uri: thumbnail }} style={styles.thumbnail} />}
+
+            <View style={styles.entryInfo}>
+              <Text style={styles.entryMessage} numberOfLines={2}>
+                {stripRichText(entry.message)}
+              </Text>
+              <View style={styles.statusRow}>
+                {entry.status === "sending" ? (
+                  <ActivityIndicator size="small" color="#7e1785" />
+                ) : entry.status === "failed" ? (
+                  <AlertCircle width={14} height={14} color="#9F1239" />
+                ) : (
+                  <Clock width={14} height={14} color="#936bc7" />
+                )}
+                <Text style={[styles.statusText, entry.status === "failed" && styles.failedText]}>
+                  {statusLabel(entry)}
+                </Text>
+              </View>
+            </View>
+
+            {entry.status !== "sending" && (
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => retryOutboxEntry(entry.id)}>
+                  <RotateCw width={18} height={18} color="#7e1785" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => discardOutboxEntry(entry.id)}>
+                  <Trash2 width={18} height={18} color="#9F1239" />
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 20,
+    padding: 16,
+    marginTop: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#7e1785",
+    marginBottom: 8,
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#F3F4F6",
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryMessage: {
+    fontSize: 14,
+    color: "#1F2937",
+    marginBottom: 4,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    color: "#936bc7",
+  },
+  failedText: {
+    color: "#9F1239",
+  },
+  actions: {
+    flexDirection: "row",
+    marginLeft: 8,
+  },
+  actionButton: {
+    padding: 8,
+  },
+});
+
+export default OutboxList;
@@ -0,0 +1,432 @@
+import * as React from "react";
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  useWindowDimensions,
+} from "react-native";
+import { Gesture, GestureDetector, GestureHandlerRootView } from "react-native-gesture-handler";
+import Animated, { runOnJS, useAnimatedStyle, useSharedValue } from "react-native-reanimated";
+import { captureRef } from "react-native-view-shot";
+import { RotateCw, X } from "lucide-react-native";
+import { getImageSize } from "../lib/letter-images";
+import {
+  applyPhotoTransform,
+  CROP_RATIOS,
+  PHOTO_FILTERS,
+  PHOTO_STICKERS,
+  PhotoSize,
+} from "../lib/photo-editing";
+
+const STICKER_SIZE = 48;
+
+type Tool = "crop" | "filters" | "stickers";
+
+const TOOLS: { key: Tool; label: string }[] = [
+  { key: "crop", label: "Recortar" },
+  { key: "filters", label: "Filtros" },
+  { key: "stickers", label: "Stickers" },
+];
+
+type Sticker = { id: number; emoji: string };
+
+type EditedPhoto = PhotoSize & { uri: string };
+
+interface PhotoEditorProps {
+  // Foto a editar; el editor está abierto mientras haya una
+  uri: string | null;
+  onCancel: () => void;
+  onDone: (uri: string) => void;
+}
+
+// Sticker que se arrastra con un dedo, se agranda pellizcando y se quita con doble toque
+const DraggableSticker = ({
+  emoji,
+  canvas,
+  onRemove,
+}: {
+  emoji: string;
+  canvas: PhotoSize;
+  onRemove: () => void;
+}) => {
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedX = useSharedValue(0);
+  const savedY = useSharedValue(0);
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+
+  const pan = Gesture.Pan()
+    .onUpdate((event) => {
+      translateX.value = savedX.value + event.translationX;
+      translateY.value = savedY.value + event.translationY;
+    })
+    .onEnd(() => {
+      savedX.value = translateX.value;
+      savedY.value = translateY.value;
+    });
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(4, Math.max(0.5, savedScale.value * event.scale));
+    })
+    .onEnd(() => {
+      savedScale.value = scale.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => runOnJS(onRemove)());
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Race(doubleTap, Gesture.Simultaneous(pan, pinch))}>
+      <Animated.View
+        style={[
+          styles.sticker,
+          {
+            left: (canvas.width - STICKER_SIZE) / 2,
+            top: (canvas.height - STICKER_SIZE) / 2,
+          },
+          animatedStyle,
+        ]}
+      >
+        <Text style={styles.stickerText}>{emoji}</Text>
+      </Animated.View>
+    </GestureDetector>
+  );
+};
+
+/**
+ * Editor que se abre antes de adjuntar una foto: recorte con distintas proporciones,
+ * giro, filtros de color y stickers. El giro y el recorte se aplican sobre la foto;
+ * los filtros y stickers se "pegan" capturando la vista al terminar.
+ */
+const PhotoEditor = ({ uri, onCancel, onDone }: PhotoEditorProps) => {
+  const window = useWindowDimensions();
+  const canvasRef = React.useRef<View>(null);
+  const nextStickerId = React.useRef(0);
+
+  const [source, setSource] = React.useState<EditedPhoto | null>(null);
+  const [preview, setPreview] = React.useState<EditedPhoto | null>(null);
+  const [rotation, setRotation] = React.useState(0);
+  const [ratioKey, setRatioKey] = React.useState(CROP_RATIOS[0].key);
+  const [filterKey, setFilterKey] = React.useState(PHOTO_FILTERS[0].key);
+  const [stickers, setStickers] = React.useState<Sticker[]>([]);
+  const [tool, setTool] = React.useState<Tool>("crop");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const ratio = CROP_RATIOS.find((item) => item.key === ratioKey) ?? CROP_RATIOS[0];
+  const filter = PHOTO_FILTERS.find((item) => item.key === filterKey) ?? PHOTO_FILTERS[0];
+
+  // Cada foto nueva empieza sin cambios
+  React.useEffect(() => {
+    setSource(null);
+    setPreview(null);
+    setRotation(0);
+    setRatioKey(CROP_RATIOS[0].key);
+    setFilterKey(PHOTO_FILTERS[0].key);
+    setStickers([]);
+    setTool("crop");
+    if (!uri) return;
+
+    let cancelled = false;
+    getImageSize(uri)
+      .then((size) => {
+        if (!cancelled) setSource({ uri, ...size });
+      })
+      .catch((error) => {
+        console.error("Error reading photo size:", error);
+        if (!cancelled) onDone(uri);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  // El giro y el recorte se recalculan sobre la foto original para no perder calidad
+  React.useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    applyPhotoTransform(source.uri, source, { rotation, ratio: ratio.value })
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((error) => console.error("Error editing photo:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [source, rotation, ratio.value]);
+
+  // La foto se muestra lo más grande posible dejando lugar para las herramientas
+  const canvas = React.useMemo(() => {
+    if (!preview) return null;
+    const maxWidth = window.width - 32;
+    const maxHeight = window.height * 0.55;
+    const fit = Math.min(maxWidth / preview.width, maxHeight / preview.height);
+    return { width: Math.round(preview.width * fit), height: Math.round(preview.height * fit) };
+  }, [preview, window.width, window.height]);
+
+  const addSticker = (emoji: string) =>
+    setStickers((current) => [...current, { id: nextStickerId.current++, emoji }]);
+
+  const handleDone = async () => {
+    if (!preview) return;
+    // Sin filtro ni stickers no hace falta capturar la vista y se conserva la resolución
+    if (!filter.overlay && stickers.length === 0) {
+      onDone(preview.uri);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const captured = await captureRef(canvasRef, { format: "jpg", quality: 0.9 });
+      onDone(captured);
+    } catch (error) {
+      console.error("Error capturing edited photo:", error);
+      Alert.alert("Error", "No se pudo guardar la foto editada.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!uri} animationType="slide" onRequestClose={onCancel}>
+      <GestureHandlerRootView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerButton} onPress={onCancel}>
+            <X width={24} height={24} color="white" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Editar foto</Text>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setRotation((current) => (current + 90) % 360)}
+          >
+            <RotateCw width={22} height={22} color="white" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.canvasArea}>
+          {preview && canvas ? (
+            <View ref={canvasRef} collapsable={false} style={canvas}>
+              <Image source={{ uri: preview.uri }} style={canvas} />
+              {filter.overlay && (
+                <View
+                  pointerEvents="none"
+                  style={[StyleSheet.absoluteFill, { backgroundColor: filter.overlay }]}
+                />
+              )}
+              {stickers.map((sticker) => (
+                <DraggableSticker
+                  key={sticker.id}
+                  emoji={sticker.emoji}
+                  canvas={canvas}
+                  onRemove={() =>
+                    setStickers((current) => current.filter((item) => item.id !== sticker.id))
+                  }
+                />
+              ))}
+            </View>
+          ) : (
+            <ActivityIndicator size="large" color="white" />
+          )}
+        </View>
+
+        <View style={styles.tools}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.options}
+          >
+            {tool === "crop" &&
+              CROP_RATIOS.map((item) => (
+                <TouchableOpacity
+                  key={item.key}
+                  style={[styles.option, item.key === ratioKey && styles.optionActive]}
+                  onPress={() => setRatioKey(item.key)}
+                >
+                  <Text style={styles.optionText}>{item.label}</Text>
+                </TouchableOpacity>
+              ))}
+            {tool === "filters" &&
+              PHOTO_FILTERS.map((item) => (
+                <TouchableOpacity
+                  key={item.key}
+                  style={[styles.option, item.key === filterKey && styles.optionActive]}
+                  onPress={() => setFilterKey(item.key)}
+                >
+                  <View
+                    style={[styles.filterSwatch, { backgroundColor: item.overlay ?? "white" }]}
+                  />
+                  <Text style={styles.optionText}>{item.label}</Text>
+                </TouchableOpacity>
+              ))}
+            {tool === "stickers" &&
+              PHOTO_STICKERS.map((emoji) => (
+                <TouchableOpacity
+                  key={emoji}
+                  style={styles.stickerOption}
+                  onPress={() => addSticker(emoji)}
+                >
+                  <Text style={styles.stickerOptionText}>{emoji}</Text>
+                </TouchableOpacity>
+              ))}
+          </ScrollView>
+          {tool === "stickers" && (
+            <Text style={styles.hint}>
+              Arrastra para moverlos, pellizca para cambiar su tamaño y toca dos veces para quitarlos
+            </Text>
+          )}
+
+          <View style={styles.tabs}>
+            {TOOLS.map((item) => (
+              <TouchableOpacity key={item.key} style={styles.tab} onPress={() => setTool(item.key)}>
+                <Text style={[styles.tabText, item.key === tool && styles.tabTextActive]}>
+                  {item.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.doneButton, (!preview || isSaving) && styles.doneButtonDisabled]}
+            onPress={handleDone}
+            disabled={!preview || isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.doneButtonText}>Usar foto</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#1F1029",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingTop: 48,
+    paddingBottom: 12,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "white",
+  },
+  canvasArea: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  sticker: {
+    position: "absolute",
+    width: STICKER_SIZE,
+    height: STICKER_SIZE,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stickerText: {
+    fontSize: 36,
+  },
+  tools: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  options: {
+    gap: 8,
+    paddingVertical: 12,
+  },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: "rgba(255,255,255,0.12)",
+  },
+  optionActive: {
+    backgroundColor: "#7e1785",
+  },
+  optionText: {
+    color: "white",
+    fontSize: 14,
+  },
+  filterSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    marginRight: 6,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.6)",
+  },
+  stickerOption: {
+    padding: 4,
+  },
+  stickerOptionText: {
+    fontSize: 30,
+  },
+  hint: {
+    color: "#D4D4D8",
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  tabs: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    marginBottom: 16,
+  },
+  tab: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  tabText: {
+    color: "#A1A1AA",
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  tabTextActive: {
+    color: "white",
+  },
+  doneButton: {
+    backgroundColor: "#7e1785",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+  },
+  doneButtonDisabled: {
+    backgroundColor: "#936bc7",
+  },
+  doneButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 18,
+  },
+});
+
+export default PhotoEditor;
@@ -0,0 +1,137 @@
+import * as React from "react";
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useWindowDimensions,
+} from "react-native";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
+import { Download, X } from "lucide-react-native";
+import ZoomableImage from "./ZoomableImage";
+import { Carousel, CarouselApi, CarouselContent, CarouselItem } from "./ui/carousel";
+import { useSignedUrl } from "../hooks/use-signed-url";
+import type { LetterPhoto } from "../lib/letters";
+
+interface PhotoViewerProps {
+  photos: LetterPhoto[];
+  // Foto con la que se abre el visor
+  initialIndex: number;
+  visible: boolean;
+  onClose: () => void;
+  onDownload: (uri: string, index: number) => void;
+}
+
+const ViewerPhoto = ({
+  photo,
+  width,
+  height,
+  onZoomChange,
+}: {
+  photo: LetterPhoto;
+  width: number;
+  height: number;
+  onZoomChange: (zoomed: boolean) => void;
+}) => {
+  const { data: uri } = useSignedUrl(photo.path);
+
+  if (!uri) {
+    return (
+      <View style={[styles.loading, { width, height }]}>
+        <ActivityIndicator size="large" color="white" />
+      </View>
+    );
+  }
+  return <ZoomableImage uri={uri} style={{ width, height }} onZoomChange={onZoomChange} />;
+};
+
+// Visor a pantalla completa: deslizar entre fotos, pellizcar para acercar y descargar la actual
+const PhotoViewer = ({ photos, initialIndex, visible, onClose, onDownload }: PhotoViewerProps) => {
+  const { width, height } = useWindowDimensions();
+  const [api, setApi] = React.useState<CarouselApi | null>(null);
+  const [zoomed, setZoomed] = React.useState(false);
+
+  const currentIndex = api?.selectedIndex ?? initialIndex;
+  const current = photos[currentIndex];
+  // La URL ya está en caché porque la foto se está mostrando
+  const { data: downloadUri } = useSignedUrl(current?.path ?? null, visible);
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={onClose}>
+      <GestureHandlerRootView style={styles.container}>
+        <Carousel opts={{ startIndex: initialIndex }} setApi={setApi} style={styles.container}>
+          <CarouselContent scrollEnabled={!zoomed}>
+            {photos.map((photo) => (
+              <CarouselItem key={photo.key} style={{ width, paddingHorizontal: 0 }}>
+                <ViewerPhoto photo={photo} width={width} height={height} onZoomChange={setZoomed} />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+        </Carousel>
+
+        <View style={styles.header}>
+          <Text style={styles.counter}>
+            {currentIndex + 1} / {photos.length}
+          </Text>
+          <TouchableOpacity style={styles.iconButton} onPress={onClose}>
+            <X width={24} height={24} color="white" />
+          </TouchableOpacity>
+        </View>
+
+        {downloadUri && (
+          <TouchableOpacity
+            style={styles.downloadButton}
+            onPress={() => onDownload(downloadUri, currentIndex)}
+          >
+            <Download width={24} height={24} color="white" />
+          </TouchableOpacity>
+        )}
+      </GestureHandlerRootView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "black",
+  },
+  loading: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    position: "absolute",
+    top: 48,
+    left: 16,
+    right: 16,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  counter: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  iconButton: {
+    backgroundColor: "rgba(0,0,0,0.5)",
+    borderRadius: 20,
+    padding: 8,
+  },
+  downloadButton: {
+    position: "absolute",
+    bottom: 40,
+    right: 24,
+    backgroundColor: "#7e1785",
+    borderRadius: 30,
+    width: 50,
+    height: 50,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
+
+export default PhotoViewer;
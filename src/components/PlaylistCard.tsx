@@ -0,0 +1,257 @@
+import * as React from "react";
+import { View, Text, StyleSheet, TouchableOpacity, Linking, Image } from "react-native";
+import { GripVertical, Music, Pencil, Play, Trash2 } from "lucide-react-native";
+import WebView from "react-native-webview";
+import type { MusicPlaylist } from "../lib/playlists";
+import {
+  getMusicAppUrl,
+  getMusicEmbedUrl,
+  getProvider,
+  MUSIC_EMBED_HEIGHTS,
+  MUSIC_PROVIDER_NAMES,
+} from "../lib/music-providers";
+import MusicProviderIcon from "./MusicProviderIcon";
+import { usePlaylistCover } from "../hooks/use-playlists";
+
+interface PlaylistCardProps {
+  playlist: MusicPlaylist;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  // Se llama al presionar el asa para empezar a arrastrar la tarjeta
+  onDrag?: () => void;
+  isDragging?: boolean;
+  // Sin reproductor se muestra una vista previa liviana del mismo alto; tocarla lo carga
+  isPlayerMounted?: boolean;
+  onPressPreview?: () => void;
+}
+
+const trackCountLabel = (count: number) => `${count} ${count === 1 ? "canción" : "canciones"}`;
+
+// Abre la app del servicio si está instalada; si no, el enlace web
+const openMusicLink = (playlist: MusicPlaylist) => {
+  const appUrl = getMusicAppUrl(playlist);
+  Linking.openURL(appUrl ?? playlist.url).catch(() => {
+    if (appUrl) {
+      Linking.openURL(playlist.url).catch((error) => console.error("Error opening music link:", error));
+    } else {
+      console.log("Don't know how to open this URL: " + playlist.url);
+    }
+  });
+};
+
+/**
+ * Tarjeta de una playlist con el reproductor de su servicio; se usa en la lista y en playlist/:id.
+ * Las acciones para editar, borrar y arrastrar solo aparecen si se pasan.
+ */
+const PlaylistCard = ({
+  playlist,
+  onEdit,
+  onDelete,
+  onDrag,
+  isDragging,
+  isPlayerMounted = true,
+  onPressPreview,
+}: PlaylistCardProps) => {
+  const provider = getProvider(playlist);
+  const { data: coverUri } = usePlaylistCover(playlist.cover_url);
+  // Autor y cantidad de canciones según el servicio, debajo del nombre
+  const details = [
+    playlist.author_name,
+    playlist.track_count !== null && trackCountLabel(playlist.track_count),
+  ].filter(Boolean);
+
+  return (
+    <View style={[styles.playlistCard, isDragging && styles.playlistCardDragging]}>
+      <View style={styles.playlistHeader}>
+        <View style={styles.playlistIconContainer}>
+          {coverUri ? (
+            <Image source={{ uri: coverUri }} style={styles.playlistCover} />
+          ) : (
+            <Music width={28} height={28} color="#7e1785" />
+          )}
+          <MusicProviderIcon provider={provider} style={styles.providerBadge} />
+        </View>
+        <View style={styles.playlistInfo}>
+          <Text style={styles.playlistName}>{playlist.name}</Text>
+          {details.length > 0 && (
+            <Text style={styles.playlistDetails} numberOfLines={1}>
+              {details.join(" · ")}
+            </Text>
+          )}
+          {playlist.description && (
+            <Text style={styles.playlistDescription}>
+              {playlist.description}
+            </Text>
+          )}
+        </View>
+        {onEdit && (
+          <TouchableOpacity style={styles.actionButton} onPress={onEdit}>
+            <Pencil width={18} height={18} color="#7e1785" />
+          </TouchableOpacity>
+        )}
+        {onDelete && (
+          <TouchableOpacity style={styles.actionButton} onPress={onDelete}>
+            <Trash2 width={18} height={18} color="#9F1239" />
+          </TouchableOpacity>
+        )}
+        {onDrag && (
+          <TouchableOpacity style={styles.actionButton} onPressIn={onDrag} disabled={isDragging}>
+            <GripVertical width={20} height={20} color="#936bc7" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Reproductor del servicio */}
+      <View style={[styles.webViewContainer, { height: MUSIC_EMBED_HEIGHTS[provider] }]}>
+        {isPlayerMounted ? (
+          <WebView
+            source={{ 
+              uri: getMusicEmbedUrl(playlist)
+            }}
+            javaScriptEnabled={true}
+            domStorageEnabled={true}
+            startInLoadingState={true}
+            scalesPageToFit={true}
+            allowsInlineMediaPlayback={true}
+            style={{ flex: 1, backgroundColor: 'transparent' }}
+          />
+        ) : (
+          <TouchableOpacity style={styles.preview} onPress={onPressPreview} activeOpacity={0.8}>
+            {coverUri ? (
+              <Image source={{ uri: coverUri }} style={styles.previewCover} resizeMode="cover" />
+            ) : (
+              <MusicProviderIcon provider={provider} size={64} />
+            )}
+            <View style={styles.previewOverlay}>
+              <View style={styles.playButton}>
+                <Play width={28} height={28} color="white" fill="white" />
+              </View>
+              {playlist.title && (
+                <Text style={styles.previewCaption} numberOfLines={2}>
+                  {playlist.title}
+                </Text>
+              )}
+            </View>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Link para abrir en la app del servicio */}
+      <TouchableOpacity 
+        onPress={() => openMusicLink(playlist)}
+      >
+        <Text style={styles.providerLink}>Abrir en {MUSIC_PROVIDER_NAMES[provider]}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  playlistCard: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+    marginBottom: 16,
+  },
+  playlistCardDragging: {
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  playlistHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  playlistIconContainer: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: "#e4d1f2",
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 16,
+  },
+  playlistCover: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+  },
+  providerBadge: {
+    position: "absolute",
+    right: -4,
+    bottom: -4,
+  },
+  playlistInfo: {
+    flex: 1,
+  },
+  actionButton: {
+    padding: 6,
+  },
+  playlistName: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginBottom: 4,
+  },
+  playlistDetails: {
+    fontSize: 13,
+    color: "#936bc7",
+    marginBottom: 4,
+  },
+  playlistDescription: {
+    fontSize: 14,
+    color: "#4B5563",
+    marginBottom: 8,
+  },
+  providerLink: {
+    marginTop: 6,
+    fontSize: 14,
+    color: "#7e1785",
+    fontWeight: "500",
+  },
+  preview: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#e4d1f2",
+  },
+  previewCover: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  previewOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.25)",
+  },
+  playButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: "#7e1785",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  previewCaption: {
+    marginTop: 12,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "white",
+    textAlign: "center",
+  },
+  webViewContainer: {
+    width: "100%",
+    marginTop: 12,
+    borderRadius: 8,
+    overflow: "hidden",
+  },
+});
+
+export default PlaylistCard;
@@ -0,0 +1,121 @@
+import * as React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Heart } from "lucide-react-native";
+import EmojiPickerModal from "./EmojiPickerModal";
+import { useAuth } from "../hooks/use-auth";
+import { useToggleReaction } from "../hooks/use-letters";
+import { summarizeReactions } from "../lib/letter-reactions";
+import type { LoveLetter } from "../lib/letters";
+
+interface ReactionBarProps {
+  letter: LoveLetter;
+}
+
+/**
+ * Reacciones de una carta. El corazón reacciona con ❤️ de un toque; manteniéndolo
+ * presionado se abre el selector con el resto de los emojis.
+ */
+const ReactionBar = ({ letter }: ReactionBarProps) => {
+  const { session } = useAuth();
+  const toggleReaction = useToggleReaction();
+  const [isPickerOpen, setIsPickerOpen] = React.useState(false);
+
+  const userId = session?.user.id;
+  const reactions = React.useMemo(
+    () => summarizeReactions(letter.letter_reactions, userId),
+    [letter.letter_reactions, userId]
+  );
+  const mine = reactions.filter((reaction) => reaction.mine).map((reaction) => reaction.emoji);
+  const hasHeart = mine.includes("❤️");
+
+  const toggle = (emoji: string) => {
+    if (!userId) return;
+    toggleReaction.mutate({ letterId: letter.id, userId, emoji, remove: mine.includes(emoji) });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.reactions}>
+        {reactions.map((reaction) => (
+          <TouchableOpacity
+            key={reaction.emoji}
+            style={[styles.chip, reaction.mine && styles.ownChip]}
+            onPress={() => toggle(reaction.emoji)}
+            onLongPress={() => setIsPickerOpen(true)}
+          >
+            <Text style={styles.chipEmoji}>{reaction.emoji}</Text>
+            <Text style={[styles.chipCount, reaction.mine && styles.ownChipCount]}>{reaction.count}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity
+        style={styles.heartButton}
+        onPress={() => toggle("❤️")}
+        onLongPress={() => setIsPickerOpen(true)}
+        delayLongPress={300}
+      >
+        <Heart
+          width={24}
+          height={24}
+          color="#9F1239"
+          fill={hasHeart ? "#9F1239" : "transparent"}
+        />
+      </TouchableOpacity>
+
+      <EmojiPickerModal
+        visible={isPickerOpen}
+        selected={mine}
+        onSelect={toggle}
+        onClose={() => setIsPickerOpen(false)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    gap: 8,
+  },
+  reactions: {
+    flex: 1,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#EDE4F7",
+    backgroundColor: "white",
+  },
+  ownChip: {
+    borderColor: "#A78BFA",
+    backgroundColor: "#F5F3FF",
+  },
+  chipEmoji: {
+    fontSize: 16,
+  },
+  chipCount: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#936bc7",
+  },
+  ownChipCount: {
+    color: "#7C3AED",
+  },
+  heartButton: {
+    padding: 4,
+  },
+});
+
+export default ReactionBar;
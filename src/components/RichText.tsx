@@ -0,0 +1,107 @@
+import * as React from "react";
+import { View, Text, StyleSheet, StyleProp, TextStyle } from "react-native";
+import { InlineNode, parseRichText } from "../lib/rich-text";
+import { getHighlightTerms, splitHighlights } from "../lib/letter-search";
+
+interface RichTextProps {
+  text: string;
+  // Estilo base del texto (color y tamaño del mensaje)
+  style?: StyleProp<TextStyle>;
+  // Búsqueda activa para resaltar las coincidencias
+  highlight?: string;
+  highlightStyle?: StyleProp<TextStyle>;
+}
+
+/**
+ * Muestra un mensaje escrito con el formato de src/lib/rich-text.ts.
+ * Solo genera Text y View, así que el contenido nunca se interpreta como código o enlaces.
+ */
+const RichText = ({ text, style, highlight, highlightStyle }: RichTextProps) => {
+  const blocks = React.useMemo(() => parseRichText(text), [text]);
+  const terms = React.useMemo(() => (highlight ? getHighlightTerms(highlight) : []), [highlight]);
+
+  const renderInline = (nodes: InlineNode[]) =>
+    nodes.map((node, index) => (
+      <Text
+        key={index}
+        style={[node.bold && styles.bold, node.italic && styles.italic]}
+      >
+        {splitHighlights(node.text, terms).map((part, partIndex) =>
+          part.match ? (
+            <Text key={partIndex} style={highlightStyle}>
+              {part.text}
+            </Text>
+          ) : (
+            part.text
+          )
+        )}
+      </Text>
+    ));
+
+  return (
+    <View>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "blank":
+            return <Text key={index} style={style}>{" "}</Text>;
+          case "heading":
+            return (
+              <Text
+                key={index}
+                style={[style, block.level === 1 ? styles.heading1 : styles.heading2]}
+              >
+                {renderInline(block.content)}
+              </Text>
+            );
+          case "bullet":
+          case "numbered":
+            return (
+              <View key={index} style={styles.listItem}>
+                <Text style={[style, styles.listMarker]}>
+                  {block.type === "bullet" ? "•" : `${block.number}.`}
+                </Text>
+                <Text style={[style, styles.listText]}>{renderInline(block.content)}</Text>
+              </View>
+            );
+          default:
+            return (
+              <Text key={index} style={style}>
+                {renderInline(block.content)}
+              </Text>
+            );
+        }
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bold: {
+    fontWeight: "700",
+  },
+  italic: {
+    fontStyle: "italic",
+  },
+  heading1: {
+    fontSize: 22,
+    fontWeight: "700",
+    marginBottom: 4,
+  },
+  heading2: {
+    fontSize: 18,
+    fontWeight: "700",
+    marginBottom: 2,
+  },
+  listItem: {
+    flexDirection: "row",
+    paddingLeft: 4,
+  },
+  listMarker: {
+    minWidth: 20,
+  },
+  listText: {
+    flex: 1,
+  },
+});
+
+export default React.memo(RichText);
@@ -0,0 +1,194 @@
+import * as React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  NativeSyntheticEvent,
+  TextInputSelectionChangeEventData,
+  StyleProp,
+  TextStyle,
+} from "react-native";
+import { Bold, Italic, Heading, List, ListOrdered, Smile, Eye, EyeOff } from "lucide-react-native";
+import RichText from "./RichText";
+import {
+  EditResult,
+  insertText,
+  TextSelection,
+  toggleLinePrefix,
+  wrapSelection,
+} from "../lib/rich-text";
+
+const EMOJIS = ["❤️", "😍", "🥰", "😘", "💕", "💖", "💜", "🌹", "✨", "🥺", "😂", "🌙", "☀️", "🎶", "🤗", "💍"];
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  maxLength: number;
+  inputStyle?: StyleProp<TextStyle>;
+}
+
+// Campo de texto con barra de formato, selector de emojis y vista previa
+const RichTextEditor = ({ value, onChange, maxLength, inputStyle }: RichTextEditorProps) => {
+  const selection = React.useRef<TextSelection>({ start: value.length, end: value.length });
+  // Solo se fuerza la selección justo después de usar la barra; el resto del tiempo la maneja el teclado
+  const [forcedSelection, setForcedSelection] = React.useState<TextSelection | undefined>();
+  const [showEmojis, setShowEmojis] = React.useState(false);
+  const [showPreview, setShowPreview] = React.useState(false);
+
+  const onSelectionChange = (event: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => {
+    selection.current = event.nativeEvent.selection;
+    setForcedSelection(undefined);
+  };
+
+  const apply = (edit: (text: string, current: TextSelection) => EditResult) => {
+    const result = edit(value, selection.current);
+    if (result.text.length > maxLength) return;
+    selection.current = result.selection;
+    setForcedSelection(result.selection);
+    onChange(result.text);
+  };
+
+  const tools = [
+    { key: "bold", Icon: Bold, onPress: () => apply((text, sel) => wrapSelection(text, sel, "**")) },
+    { key: "italic", Icon: Italic, onPress: () => apply((text, sel) => wrapSelection(text, sel, "_")) },
+    { key: "heading", Icon: Heading, onPress: () => apply((text, sel) => toggleLinePrefix(text, sel, "# ")) },
+    { key: "list", Icon: List, onPress: () => apply((text, sel) => toggleLinePrefix(text, sel, "- ")) },
+    {
+      key: "numbered",
+      Icon: ListOrdered,
+      onPress: () => apply((text, sel) => toggleLinePrefix(text, sel, "1. ")),
+    },
+  ];
+
+  return (
+    <View>
+      <View style={styles.toolbar}>
+        {tools.map(({ key, Icon, onPress }) => (
+          <TouchableOpacity key={key} style={styles.toolButton} onPress={onPress}>
+            <Icon width={18} height={18} color="#7e1785" />
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.toolButton, showEmojis && styles.toolButtonActive]}
+          onPress={() => setShowEmojis((visible) => !visible)}
+        >
+          <Smile width={18} height={18} color={showEmojis ? "white" : "#7e1785"} />
+        </TouchableOpacity>
+        <View style={styles.toolbarSpacer} />
+        <TouchableOpacity
+          style={[styles.toolButton, showPreview && styles.toolButtonActive]}
+          onPress={() => setShowPreview((visible) => !visible)}
+        >
+          {showPreview ? (
+            <EyeOff width={18} height={18} color="white" />
+          ) : (
+            <Eye width={18} height={18} color="#7e1785" />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {showEmojis && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          keyboardShouldPersistTaps="always"
+          contentContainerStyle={styles.emojiRow}
+        >
+          {EMOJIS.map((emoji) => (
+            <TouchableOpacity
+              key={emoji}
+              style={styles.emojiButton}
+              onPress={() => apply((text, sel) => insertText(text, sel, emoji))}
+            >
+              <Text style={styles.emoji}>{emoji}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <TextInput
+        style={inputStyle}
+        value={value}
+        onChangeText={onChange}
+        onSelectionChange={onSelectionChange}
+        selection={forcedSelection}
+        multiline
+        numberOfLines={6}
+        placeholderTextColor="#A1A1AA"
+        maxLength={maxLength}
+      />
+      <Text style={styles.counter}>
+        {value.length}/{maxLength}
+      </Text>
+
+      {showPreview && (
+        <View style={styles.preview}>
+          {value.trim() ? (
+            <RichText text={value} style={styles.previewText} />
+          ) : (
+            <Text style={[styles.previewText, styles.previewEmpty]}>Tu carta se verá así</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 8,
+  },
+  toolbarSpacer: {
+    flex: 1,
+  },
+  toolButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: "#F5F3FF",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  toolButtonActive: {
+    backgroundColor: "#7e1785",
+  },
+  emojiRow: {
+    gap: 4,
+    paddingBottom: 8,
+  },
+  emojiButton: {
+    padding: 4,
+  },
+  emoji: {
+    fontSize: 24,
+  },
+  counter: {
+    alignSelf: "flex-end",
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  preview: {
+    backgroundColor: "#7e1785",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+  },
+  previewText: {
+    fontSize: 16,
+    color: "white",
+  },
+  previewEmpty: {
+    fontStyle: "italic",
+    opacity: 0.7,
+  },
+});
+
+export default RichTextEditor;
@@ -0,0 +1,109 @@
+import * as React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Mail, Heart } from "lucide-react-native";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { useCountdown } from "../hooks/use-countdown";
+
+interface SealedEnvelopeProps {
+  unlockAt: string;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const splitRemaining = (remaining: number) => [
+  { label: "días", value: Math.floor(remaining / DAY) },
+  { label: "horas", value: Math.floor((remaining % DAY) / HOUR) },
+  { label: "min", value: Math.floor((remaining % HOUR) / MINUTE) },
+  { label: "seg", value: Math.floor((remaining % MINUTE) / SECOND) },
+];
+
+// Sobre cerrado que ocupa el lugar del mensaje hasta que llega la fecha de apertura
+const SealedEnvelope = ({ unlockAt }: SealedEnvelopeProps) => {
+  const remaining = useCountdown(unlockAt);
+
+  return (
+    <View style={styles.envelope}>
+      <View style={styles.seal}>
+        <Heart width={22} height={22} color="white" fill="white" />
+      </View>
+      <Mail width={40} height={40} color="#7e1785" />
+      <Text style={styles.title}>Carta sellada</Text>
+      <Text style={styles.subtitle}>
+        Se abrirá el {format(new Date(unlockAt), "d 'de' MMMM 'de' yyyy 'a las' HH:mm", { locale: es })}
+      </Text>
+
+      <View style={styles.countdown}>
+        {splitRemaining(remaining).map(({ label, value }) => (
+          <View key={label} style={styles.countdownUnit}>
+            <Text style={styles.countdownValue}>{String(value).padStart(2, "0")}</Text>
+            <Text style={styles.countdownLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  envelope: {
+    alignItems: "center",
+    backgroundColor: "#F5F3FF",
+    borderWidth: 2,
+    borderColor: "#A78BFA",
+    borderStyle: "dashed",
+    borderRadius: 16,
+    padding: 20,
+    margin: 16,
+    marginTop: 0,
+  },
+  seal: {
+    position: "absolute",
+    top: -14,
+    right: 16,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#9F1239",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#7e1785",
+    marginTop: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#936bc7",
+    textAlign: "center",
+    marginTop: 4,
+  },
+  countdown: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 16,
+  },
+  countdownUnit: {
+    alignItems: "center",
+    backgroundColor: "#7e1785",
+    borderRadius: 10,
+    paddingVertical: 8,
+    minWidth: 56,
+  },
+  countdownValue: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "white",
+  },
+  countdownLabel: {
+    fontSize: 11,
+    color: "#E9D5FF",
+  },
+});
+
+export default SealedEnvelope;
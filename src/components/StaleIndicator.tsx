@@ -0,0 +1,80 @@
+import * as React from "react";
+import { View, Text, StyleSheet, ActivityIndicator } from "react-native";
+import { WifiOff, CloudOff } from "lucide-react-native";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { useOnlineStatus } from "../hooks/use-online-status";
+
+interface StaleIndicatorProps {
+  // Momento en que se obtuvieron los datos que se están mostrando (0 si no hay datos)
+  dataUpdatedAt: number;
+  isFetching: boolean;
+  isError: boolean;
+}
+
+/**
+ * Aviso pequeño que indica que la lista viene de la caché del dispositivo:
+ * sin conexión, actualizando en segundo plano o con la última actualización fallida.
+ */
+const StaleIndicator = ({ dataUpdatedAt, isFetching, isError }: StaleIndicatorProps) => {
+  const isOnline = useOnlineStatus();
+
+  if (!dataUpdatedAt) return null;
+
+  const updatedAgo = formatDistanceToNow(dataUpdatedAt, { addSuffix: true, locale: es });
+
+  if (!isOnline) {
+    return (
+      <View style={styles.container}>
+        <WifiOff width={14} height={14} color="#936bc7" />
+        <Text style={styles.text}>Sin conexión · actualizado {updatedAgo}</Text>
+      </View>
+    );
+  }
+
+  if (isFetching) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="small" color="#936bc7" />
+        <Text style={styles.text}>Actualizando...</Text>
+      </View>
+    );
+  }
+
+  if (isError) {
+    return (
+      <View style={styles.container}>
+        <CloudOff width={14} height={14} color="#9F1239" />
+        <Text style={[styles.text, styles.errorText]}>
+          No se pudo actualizar · actualizado {updatedAgo}
+        </Text>
+      </View>
+    );
+  }
+
+  return null;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    alignSelf: "center",
+    gap: 6,
+    backgroundColor: "rgba(255, 255, 255, 0.8)",
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginBottom: 16,
+  },
+  text: {
+    fontSize: 12,
+    color: "#936bc7",
+  },
+  errorText: {
+    color: "#9F1239",
+  },
+});
+
+export default StaleIndicator;
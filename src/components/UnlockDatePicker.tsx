@@ -0,0 +1,192 @@
+import * as React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { Lock, Minus, Plus, X } from "lucide-react-native";
+import { addDays, format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Calendar } from "./ui/calendar";
+
+interface UnlockDatePickerProps {
+  value: Date | null;
+  onChange: (date: Date | null) => void;
+}
+
+const MINUTE_STEP = 5;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// El calendario trabaja con días a medianoche UTC; se pasan así para que marque el día local correcto
+const toCalendarDay = (date: Date) =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+const defaultUnlockDate = () => {
+  const tomorrow = addDays(new Date(), 1);
+  tomorrow.setHours(9, 0, 0, 0);
+  return tomorrow;
+};
+
+// Fecha y hora a partir de la cual se podrá abrir una carta programada
+const UnlockDatePicker = ({ value, onChange }: UnlockDatePickerProps) => {
+  if (!value) {
+    return (
+      <TouchableOpacity style={styles.enableButton} onPress={() => onChange(defaultUnlockDate())}>
+        <Lock width={18} height={18} color="#7e1785" />
+        <Text style={styles.enableButtonText}>Sellar hasta una fecha</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  const handleSelectDay = (selected: Date | Date[] | undefined) => {
+    if (!selected || Array.isArray(selected)) return;
+    onChange(
+      new Date(
+        selected.getUTCFullYear(),
+        selected.getUTCMonth(),
+        selected.getUTCDate(),
+        value.getHours(),
+        value.getMinutes()
+      )
+    );
+  };
+
+  const shiftTime = (minutes: number) => {
+    const next = new Date(value);
+    next.setMinutes(next.getMinutes() + minutes);
+    // Solo se mueve la hora: si el cambio pasa a otro día se mantiene el día elegido
+    if (next.toDateString() === value.toDateString()) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <Lock width={18} height={18} color="#7e1785" />
+          <Text style={styles.title}>Se podrá abrir a partir del</Text>
+        </View>
+        <TouchableOpacity style={styles.clearButton} onPress={() => onChange(null)}>
+          <X width={18} height={18} color="#6B7280" />
+        </TouchableOpacity>
+      </View>
+
+      <Calendar
+        mode="single"
+        selected={toCalendarDay(value)}
+        onSelect={handleSelectDay}
+        minDate={toCalendarDay(new Date())}
+        showOutsideDays={false}
+        theme={{ primary: "#7e1785", accent: "#F5F3FF", accentForeground: "#7e1785" }}
+      />
+
+      <View style={styles.timeRow}>
+        <View style={styles.timeUnit}>
+          <TouchableOpacity style={styles.stepButton} onPress={() => shiftTime(-60)}>
+            <Minus width={16} height={16} color="#7e1785" />
+          </TouchableOpacity>
+          <Text style={styles.timeText}>{pad(value.getHours())}</Text>
+          <TouchableOpacity style={styles.stepButton} onPress={() => shiftTime(60)}>
+            <Plus width={16} height={16} color="#7e1785" />
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.timeSeparator}>:</Text>
+        <View style={styles.timeUnit}>
+          <TouchableOpacity style={styles.stepButton} onPress={() => shiftTime(-MINUTE_STEP)}>
+            <Minus width={16} height={16} color="#7e1785" />
+          </TouchableOpacity>
+          <Text style={styles.timeText}>{pad(value.getMinutes())}</Text>
+          <TouchableOpacity style={styles.stepButton} onPress={() => shiftTime(MINUTE_STEP)}>
+            <Plus width={16} height={16} color="#7e1785" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <Text style={styles.summary}>
+        {format(value, "EEEE d 'de' MMMM 'de' yyyy, HH:mm", { locale: es })}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  enableButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderColor: "#7e1785",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 24,
+  },
+  enableButtonText: {
+    color: "#7e1785",
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  container: {
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 24,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  headerTitle: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#7e1785",
+  },
+  clearButton: {
+    padding: 4,
+  },
+  timeRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    marginTop: 8,
+  },
+  timeUnit: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: "#F5F3FF",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  timeText: {
+    fontSize: 22,
+    fontWeight: "600",
+    color: "#1F2937",
+    minWidth: 32,
+    textAlign: "center",
+  },
+  timeSeparator: {
+    fontSize: 22,
+    fontWeight: "600",
+    color: "#1F2937",
+    marginHorizontal: 8,
+  },
+  summary: {
+    marginTop: 12,
+    textAlign: "center",
+    fontSize: 14,
+    color: "#936bc7",
+  },
+});
+
+export default UnlockDatePicker;
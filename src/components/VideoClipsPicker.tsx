@@ -0,0 +1,208 @@
+import * as React from "react";
+import { View, Text, Image, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from "react-native";
+import * as ImagePicker from "expo-image-picker";
+import { Film, Video as VideoIcon } from "lucide-react-native";
+import {
+  MAX_LETTER_VIDEOS,
+  MAX_VIDEO_DURATION_SECONDS,
+  prepareLetterVideo,
+  PreparedVideo,
+} from "../lib/letter-videos";
+import { formatDuration } from "../lib/voice-notes";
+
+interface VideoClipsPickerProps {
+  videos: PreparedVideo[];
+  onChange: (videos: PreparedVideo[]) => void;
+}
+
+type VideoSource = "library" | "camera";
+
+/**
+ * Videos de la carta: se eligen de la galería o se graban, y se comprimen en el
+ * dispositivo antes de adjuntarlos para no pasar del tamaño máximo.
+ */
+const VideoClipsPicker = ({ videos, onChange }: VideoClipsPickerProps) => {
+  // Avance de la compresión (0-1) del video que se está preparando
+  const [progress, setProgress] = React.useState<number | null>(null);
+
+  const pickVideo = async (source: VideoSource) => {
+    const { status } =
+      source === "camera"
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+    if (status !== "granted") {
+      Alert.alert(
+        "Permiso requerido",
+        source === "camera"
+          ? "Se necesita acceso a la cámara para grabar un video."
+          : "Se necesita acceso a la galería para elegir un video."
+      );
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: "videos",
+      videoMaxDuration: MAX_VIDEO_DURATION_SECONDS,
+      // En iOS permite recortar el video antes de adjuntarlo
+      allowsEditing: true,
+    };
+    const result =
+      source === "camera"
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled) return;
+
+    const asset = result.assets[0];
+    const durationMs = asset.duration ?? 0;
+    if (durationMs > MAX_VIDEO_DURATION_SECONDS * 1000) {
+      Alert.alert(
+        "Video muy largo",
+        `Los videos pueden durar como máximo ${MAX_VIDEO_DURATION_SECONDS} segundos.`
+      );
+      return;
+    }
+
+    setProgress(0);
+    try {
+      const prepared = await prepareLetterVideo(asset.uri, durationMs, setProgress);
+      onChange([...videos, prepared]);
+    } catch (error) {
+      console.error("Error preparing video:", error);
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "No se pudo preparar el video."
+      );
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const canAddMore = videos.length < MAX_LETTER_VIDEOS && progress === null;
+
+  return (
+    <View>
+      {videos.length > 0 && (
+        <View style={styles.clips}>
+          {videos.map((video) => (
+            <View key={video.uri} style={styles.clip}>
+              <Image source={{ uri: video.posterUri }} style={styles.poster} />
+              <View style={styles.durationBadge}>
+                <Text style={styles.durationText}>{formatDuration(video.durationMs)}</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => onChange(videos.filter((item) => item.uri !== video.uri))}
+              >
+                <Text style={styles.removeText}>×</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {progress !== null && (
+        <View style={styles.progress}>
+          <ActivityIndicator size="small" color="#7e1785" />
+          <Text style={styles.progressText}>
+            Comprimiendo video… {Math.round(progress * 100)}%
+          </Text>
+        </View>
+      )}
+
+      {canAddMore && (
+        <View style={styles.buttons}>
+          <TouchableOpacity style={styles.button} onPress={() => pickVideo("library")}>
+            <Film width={22} height={22} color="#7e1785" />
+            <Text style={styles.buttonText}>Elegir video</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => pickVideo("camera")}>
+            <VideoIcon width={22} height={22} color="#7e1785" />
+            <Text style={styles.buttonText}>Grabar video</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  clips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  clip: {
+    position: "relative",
+  },
+  poster: {
+    width: 96,
+    height: 96,
+    borderRadius: 12,
+    backgroundColor: "#1F1029",
+  },
+  durationBadge: {
+    position: "absolute",
+    left: 6,
+    bottom: 6,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  durationText: {
+    color: "white",
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  removeButton: {
+    position: "absolute",
+    top: 4,
+    right: 4,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  removeText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "bold",
+    lineHeight: 20,
+  },
+  progress: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  progressText: {
+    color: "#7e1785",
+    fontSize: 14,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    height: 56,
+    borderWidth: 2,
+    borderColor: "#7e1785",
+    borderStyle: "dashed",
+    borderRadius: 12,
+  },
+  buttonText: {
+    color: "#7e1785",
+    fontSize: 14,
+  },
+});
+
+export default VideoClipsPicker;
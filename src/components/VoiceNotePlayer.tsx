@@ -0,0 +1,175 @@
+import * as React from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from "react-native";
+import { setAudioModeAsync, useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import { Pause, Play } from "lucide-react-native";
+import Waveform from "./Waveform";
+import { formatDuration, PLAYBACK_RATES, resampleWaveform } from "../lib/voice-notes";
+
+interface VoiceNotePlayerProps {
+  // URL firmada o archivo local; null mientras se obtiene
+  uri: string | null;
+  // Parte del archivo que se reproduce
+  trimStartMs: number;
+  durationMs: number;
+  waveform: number[];
+  // Colores para mostrarlo sobre fondo claro u oscuro
+  variant?: "light" | "dark";
+}
+
+/**
+ * Reproductor de notas de voz: play/pausa, onda que se puede tocar o arrastrar
+ * para adelantar y velocidad de reproducción.
+ */
+const VoiceNotePlayer = ({
+  uri,
+  trimStartMs,
+  durationMs,
+  waveform,
+  variant = "light",
+}: VoiceNotePlayerProps) => {
+  const player = useAudioPlayer(uri ? { uri } : null, 100);
+  const status = useAudioPlayerStatus(player);
+  const [rateIndex, setRateIndex] = React.useState(0);
+  // Posición mientras se arrastra sobre la onda, para no esperar a que el audio salte
+  const [scrubFraction, setScrubFraction] = React.useState<number | null>(null);
+
+  const positionMs = Math.min(
+    durationMs,
+    Math.max(0, status.currentTime * 1000 - trimStartMs)
+  );
+  const progress = scrubFraction ?? (durationMs > 0 ? positionMs / durationMs : 0);
+  const levels = React.useMemo(() => resampleWaveform(waveform), [waveform]);
+
+  const seekToFraction = React.useCallback(
+    (fraction: number) => player.seekTo((trimStartMs + fraction * durationMs) / 1000),
+    [player, trimStartMs, durationMs]
+  );
+
+  // La nota recortada termina antes que el archivo: se detiene a mano y vuelve al inicio
+  const reachedEnd = status.didJustFinish || (status.playing && positionMs >= durationMs);
+  React.useEffect(() => {
+    if (!reachedEnd) return;
+    player.pause();
+    seekToFraction(0);
+  }, [reachedEnd, player, seekToFraction]);
+
+  const togglePlayback = async () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    await setAudioModeAsync({ playsInSilentMode: true, allowsRecording: false });
+    if (positionMs <= 0 || positionMs >= durationMs) {
+      await seekToFraction(0);
+    }
+    player.play();
+  };
+
+  const cycleRate = () => {
+    const next = (rateIndex + 1) % PLAYBACK_RATES.length;
+    setRateIndex(next);
+    player.setPlaybackRate(PLAYBACK_RATES[next]);
+  };
+
+  const onScrub = (fraction: number, finished: boolean) => {
+    if (finished) {
+      setScrubFraction(null);
+      seekToFraction(fraction);
+    } else {
+      setScrubFraction(fraction);
+    }
+  };
+
+  const dark = variant === "dark";
+  const iconColor = dark ? "#7e1785" : "white";
+
+  return (
+    <View style={[styles.container, dark && styles.containerDark]}>
+      <TouchableOpacity
+        style={[styles.playButton, dark && styles.playButtonDark]}
+        onPress={togglePlayback}
+        disabled={!status.isLoaded}
+      >
+        {!status.isLoaded ? (
+          <ActivityIndicator size="small" color={iconColor} />
+        ) : status.playing ? (
+          <Pause width={20} height={20} color={iconColor} fill={iconColor} />
+        ) : (
+          <Play width={20} height={20} color={iconColor} fill={iconColor} />
+        )}
+      </TouchableOpacity>
+
+      <Waveform
+        levels={levels}
+        progress={progress}
+        activeColor={dark ? "white" : "#7e1785"}
+        inactiveColor={dark ? "rgba(255,255,255,0.35)" : "#D8B4FE"}
+        onScrub={status.isLoaded ? onScrub : undefined}
+      />
+
+      <Text style={[styles.time, dark && styles.textDark]}>
+        {formatDuration(
+          status.playing || positionMs > 0 || scrubFraction !== null
+            ? progress * durationMs
+            : durationMs
+        )}
+      </Text>
+
+      <TouchableOpacity style={[styles.rateButton, dark && styles.rateButtonDark]} onPress={cycleRate}>
+        <Text style={[styles.rateText, dark && styles.textDark]}>{PLAYBACK_RATES[rateIndex]}x</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F5F3FF",
+    borderRadius: 16,
+    padding: 10,
+  },
+  containerDark: {
+    backgroundColor: "rgba(255,255,255,0.15)",
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#7e1785",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  playButtonDark: {
+    backgroundColor: "white",
+  },
+  time: {
+    fontSize: 13,
+    color: "#7e1785",
+    fontVariant: ["tabular-nums"],
+    minWidth: 36,
+    textAlign: "right",
+  },
+  textDark: {
+    color: "white",
+  },
+  rateButton: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#7e1785",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  rateButtonDark: {
+    borderColor: "white",
+  },
+  rateText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#7e1785",
+  },
+});
+
+export default VoiceNotePlayer;
@@ -0,0 +1,332 @@
+import * as React from "react";
+import { View, Text, StyleSheet, TouchableOpacity, Alert, LayoutChangeEvent } from "react-native";
+import {
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioRecorder,
+  useAudioRecorderState,
+} from "expo-audio";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import { Mic, RotateCcw, Square, Trash2 } from "lucide-react-native";
+import Waveform from "./Waveform";
+import VoiceNotePlayer from "./VoiceNotePlayer";
+import {
+  formatDuration,
+  MAX_VOICE_NOTE_MS,
+  meteringToLevel,
+  MIN_VOICE_NOTE_MS,
+  resampleWaveform,
+  trimWaveform,
+  VoiceNote,
+  WAVEFORM_BARS,
+} from "../lib/voice-notes";
+
+const RECORDING_OPTIONS = { ...RecordingPresets.HIGH_QUALITY, isMeteringEnabled: true };
+// Cada cuánto se lee el volumen mientras se graba
+const METERING_INTERVAL_MS = 100;
+// Barras de la onda en vivo y del editor de recorte (más detalle que la guardada)
+const LIVE_BARS = 40;
+const TRIM_BARS = 72;
+
+// Grabación completa, antes de recortarla
+type Take = {
+  uri: string;
+  totalMs: number;
+  // Un nivel cada METERING_INTERVAL_MS
+  levels: number[];
+};
+
+interface VoiceNoteRecorderProps {
+  value: VoiceNote | null;
+  onChange: (value: VoiceNote | null) => void;
+}
+
+const toVoiceNote = (take: Take, startMs: number, endMs: number): VoiceNote => ({
+  uri: take.uri,
+  trimStartMs: Math.round(startMs),
+  durationMs: Math.round(endMs - startMs),
+  waveform: resampleWaveform(trimWaveform(take.levels, take.totalMs, startMs, endMs), WAVEFORM_BARS),
+});
+
+// Onda de la grabación completa con dos manijas para elegir el inicio y el fin
+const TrimEditor = ({
+  take,
+  value,
+  onChange,
+}: {
+  take: Take;
+  value: VoiceNote;
+  onChange: (value: VoiceNote) => void;
+}) => {
+  const [width, setWidth] = React.useState(0);
+  const activeHandle = React.useRef<"start" | "end">("start");
+  const levels = React.useMemo(() => resampleWaveform(take.levels, TRIM_BARS), [take.levels]);
+
+  const start = value.trimStartMs / take.totalMs;
+  const end = (value.trimStartMs + value.durationMs) / take.totalMs;
+  const minGap = Math.min(1, MIN_VOICE_NOTE_MS / take.totalMs);
+
+  const moveHandle = (x: number) => {
+    if (width === 0) return;
+    const fraction = Math.min(1, Math.max(0, x / width));
+    const nextStart = activeHandle.current === "start" ? Math.min(fraction, end - minGap) : start;
+    const nextEnd = activeHandle.current === "end" ? Math.max(fraction, start + minGap) : end;
+    onChange(toVoiceNote(take, Math.max(0, nextStart) * take.totalMs, Math.min(1, nextEnd) * take.totalMs));
+  };
+
+  const gesture = Gesture.Pan()
+    .runOnJS(true)
+    .minDistance(0)
+    .onBegin((event) => {
+      // Se mueve la manija más cercana al dedo
+      const fraction = width > 0 ? event.x / width : 0;
+      activeHandle.current = Math.abs(fraction - start) <= Math.abs(fraction - end) ? "start" : "end";
+    })
+    .onUpdate((event) => moveHandle(event.x));
+
+  return (
+    <View>
+      <GestureDetector gesture={gesture}>
+        <View
+          style={styles.trimArea}
+          onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+        >
+          <Waveform levels={levels} progress={1} height={48} />
+          <View style={[styles.trimShade, { left: 0, width: `${start * 100}%` }]} />
+          <View style={[styles.trimShade, { right: 0, width: `${(1 - end) * 100}%` }]} />
+          <View style={[styles.trimHandle, { left: `${start * 100}%` }]} />
+          <View style={[styles.trimHandle, styles.trimHandleEnd, { left: `${end * 100}%` }]} />
+        </View>
+      </GestureDetector>
+      <View style={styles.trimLabels}>
+        <Text style={styles.trimLabel}>{formatDuration(value.trimStartMs)}</Text>
+        <Text style={styles.trimHint}>Arrastra los bordes para recortar</Text>
+        <Text style={styles.trimLabel}>{formatDuration(value.trimStartMs + value.durationMs)}</Text>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Grabación de la nota de voz de una carta: se graba viendo la onda en vivo,
+ * después se puede escuchar, recortar o volver a grabar antes de enviarla.
+ */
+const VoiceNoteRecorder = ({ value, onChange }: VoiceNoteRecorderProps) => {
+  const recorder = useAudioRecorder(RECORDING_OPTIONS);
+  const recorderState = useAudioRecorderState(recorder, METERING_INTERVAL_MS);
+  const levels = React.useRef<number[]>([]);
+  const [liveLevels, setLiveLevels] = React.useState<number[]>([]);
+  const [take, setTake] = React.useState<Take | null>(null);
+
+  // Al enviar la carta el formulario limpia la nota, y con ella la grabación
+  React.useEffect(() => {
+    if (!value) setTake(null);
+  }, [value]);
+
+  const stopRecording = React.useCallback(async () => {
+    await recorder.stop();
+    // Sin esto iOS sigue reproduciendo todo por el auricular
+    await setAudioModeAsync({ allowsRecording: false, playsInSilentMode: true });
+
+    const totalMs = recorder.getStatus().durationMillis;
+    if (!recorder.uri || totalMs < MIN_VOICE_NOTE_MS) {
+      Alert.alert("Nota muy corta", "Mantén la grabación al menos un segundo.");
+      return;
+    }
+
+    const next = { uri: recorder.uri, totalMs, levels: levels.current };
+    setTake(next);
+    onChange(toVoiceNote(next, 0, totalMs));
+  }, [recorder, onChange]);
+
+  React.useEffect(() => {
+    if (!recorderState.isRecording) return;
+    levels.current.push(meteringToLevel(recorderState.metering));
+    setLiveLevels(levels.current.slice(-LIVE_BARS));
+
+    if (recorderState.durationMillis >= MAX_VOICE_NOTE_MS) {
+      stopRecording();
+    }
+  }, [recorderState.durationMillis, recorderState.isRecording]);
+
+  const startRecording = async () => {
+    const { granted } = await requestRecordingPermissionsAsync();
+    if (!granted) {
+      Alert.alert("Permiso requerido", "Se necesita acceso al micrófono para grabar una nota de voz.");
+      return;
+    }
+
+    try {
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      levels.current = [];
+      setLiveLevels([]);
+      setTake(null);
+      onChange(null);
+      recorder.record();
+    } catch (error) {
+      console.error("Error starting recording:", error);
+      Alert.alert("Error", "No se pudo empezar a grabar.");
+    }
+  };
+
+  if (recorderState.isRecording) {
+    return (
+      <View style={styles.recording}>
+        <View style={styles.recordingDot} />
+        <View style={styles.liveWave}>
+          <Waveform levels={resampleWaveform(liveLevels, LIVE_BARS)} progress={1} height={32} />
+        </View>
+        <Text style={styles.timer}>
+          {formatDuration(recorderState.durationMillis)} / {formatDuration(MAX_VOICE_NOTE_MS)}
+        </Text>
+        <TouchableOpacity style={styles.stopButton} onPress={stopRecording}>
+          <Square width={16} height={16} color="white" fill="white" />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (take && value) {
+    return (
+      <View style={styles.editor}>
+        <TrimEditor take={take} value={value} onChange={onChange} />
+        <VoiceNotePlayer
+          uri={value.uri}
+          trimStartMs={value.trimStartMs}
+          durationMs={value.durationMs}
+          waveform={value.waveform}
+        />
+        <View style={styles.editorActions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={startRecording}>
+            <RotateCcw width={16} height={16} color="#7e1785" />
+            <Text style={styles.secondaryButtonText}>Volver a grabar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => onChange(null)}>
+            <Trash2 width={16} height={16} color="#9F1239" />
+            <Text style={[styles.secondaryButtonText, styles.removeText]}>Quitar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity style={styles.recordButton} onPress={startRecording}>
+      <Mic width={22} height={22} color="#7e1785" />
+      <Text style={styles.recordButtonText}>Grabar una nota de voz</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  recordButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    height: 56,
+    borderWidth: 2,
+    borderColor: "#7e1785",
+    borderStyle: "dashed",
+    borderRadius: 12,
+  },
+  recordButtonText: {
+    color: "#7e1785",
+    fontSize: 14,
+  },
+  recording: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: "#F5F3FF",
+    borderRadius: 12,
+    padding: 12,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: "#9F1239",
+  },
+  liveWave: {
+    flex: 1,
+    flexDirection: "row",
+  },
+  timer: {
+    fontSize: 13,
+    color: "#7e1785",
+    fontVariant: ["tabular-nums"],
+  },
+  stopButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#9F1239",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  editor: {
+    gap: 12,
+  },
+  trimArea: {
+    flexDirection: "row",
+    height: 56,
+    alignItems: "center",
+    backgroundColor: "#F5F3FF",
+    borderRadius: 12,
+  },
+  trimShade: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    backgroundColor: "rgba(255,255,255,0.75)",
+  },
+  trimHandle: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    width: 6,
+    marginLeft: -3,
+    borderRadius: 3,
+    backgroundColor: "#7e1785",
+  },
+  trimHandleEnd: {
+    backgroundColor: "#9F1239",
+  },
+  trimLabels: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  trimLabel: {
+    fontSize: 12,
+    color: "#7e1785",
+    fontVariant: ["tabular-nums"],
+  },
+  trimHint: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  editorActions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    padding: 6,
+  },
+  secondaryButtonText: {
+    color: "#7e1785",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  removeText: {
+    color: "#9F1239",
+  },
+});
+
+export default VoiceNoteRecorder;
@@ -0,0 +1,79 @@
+import * as React from "react";
+import { View, StyleSheet, LayoutChangeEvent } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+
+interface WaveformProps {
+  // Niveles 0-100, una barra por nivel
+  levels: number[];
+  // Parte ya reproducida (0-1); esas barras se pintan con activeColor
+  progress?: number;
+  height?: number;
+  activeColor?: string;
+  inactiveColor?: string;
+  // Tocar o arrastrar sobre la onda; finished es true al soltar
+  onScrub?: (fraction: number, finished: boolean) => void;
+}
+
+const Waveform = ({
+  levels,
+  progress = 0,
+  height = 40,
+  activeColor = "#7e1785",
+  inactiveColor = "#D8B4FE",
+  onScrub,
+}: WaveformProps) => {
+  const [width, setWidth] = React.useState(0);
+
+  const toFraction = (x: number) => (width > 0 ? Math.min(1, Math.max(0, x / width)) : 0);
+
+  // Los callbacks corren en el hilo de JS: solo actualizan estado de React
+  const gesture = Gesture.Exclusive(
+    Gesture.Pan()
+      .runOnJS(true)
+      .enabled(!!onScrub)
+      .activeOffsetX([-5, 5])
+      .onUpdate((event) => onScrub?.(toFraction(event.x), false))
+      .onEnd((event) => onScrub?.(toFraction(event.x), true)),
+    Gesture.Tap()
+      .runOnJS(true)
+      .enabled(!!onScrub)
+      .onEnd((event) => onScrub?.(toFraction(event.x), true))
+  );
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View
+        style={[styles.container, { height }]}
+        onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+      >
+        {levels.map((level, index) => (
+          <View
+            key={index}
+            style={[
+              styles.bar,
+              {
+                height: `${Math.max(8, level)}%`,
+                backgroundColor: (index + 0.5) / levels.length <= progress ? activeColor : inactiveColor,
+              },
+            ]}
+          />
+        ))}
+      </View>
+    </GestureDetector>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  bar: {
+    flex: 1,
+    borderRadius: 2,
+  },
+});
+
+export default Waveform;
@@ -0,0 +1,125 @@
+import * as React from "react";
+import { StyleSheet, StyleProp, ViewStyle } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+
+interface ZoomableImageProps {
+  uri: string;
+  style?: StyleProp<ViewStyle>;
+  // Avisa cuando la foto se acerca o vuelve a su tamaño, para bloquear el deslizamiento de la galería
+  onZoomChange?: (zoomed: boolean) => void;
+}
+
+/**
+ * Foto que se puede acercar pellizcando o con doble toque. Con zoom se puede
+ * arrastrar para recorrerla; al soltar por debajo de 1x vuelve a su tamaño.
+ */
+const ZoomableImage = ({ uri, style, onZoomChange }: ZoomableImageProps) => {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+  const [zoomed, setZoomed] = React.useState(false);
+
+  const notifyZoom = React.useCallback(
+    (value: boolean) => {
+      setZoomed(value);
+      onZoomChange?.(value);
+    },
+    [onZoomChange]
+  );
+
+  const reset = () => {
+    "worklet";
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    runOnJS(notifyZoom)(false);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(MAX_SCALE, Math.max(0.5, savedScale.value * event.scale));
+    })
+    .onEnd(() => {
+      if (scale.value <= 1) {
+        reset();
+      } else {
+        savedScale.value = scale.value;
+        runOnJS(notifyZoom)(true);
+      }
+    });
+
+  // Solo se arrastra con zoom; sin zoom el deslizamiento lo maneja la galería
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .onUpdate((event) => {
+      translateX.value = savedTranslateX.value + event.translationX;
+      translateY.value = savedTranslateY.value + event.translationY;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        reset();
+      } else {
+        scale.value = withTiming(DOUBLE_TAP_SCALE);
+        savedScale.value = DOUBLE_TAP_SCALE;
+        runOnJS(notifyZoom)(true);
+      }
+    });
+
+  const gesture = Gesture.Race(doubleTap, Gesture.Simultaneous(pinch, pan));
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <Animated.View style={[styles.container, style]}>
+        <Animated.Image
+          source={{ uri }}
+          style={[styles.image, animatedStyle]}
+          resizeMode="contain"
+        />
+      </Animated.View>
+    </GestureDetector>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: "hidden",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  image: {
+    width: "100%",
+    height: "100%",
+  },
+});
+
+export default ZoomableImage;
@@ -6,14 +6,17 @@ import {
   FileText,
   Home,
 } from "lucide-react-native";
+import { Badge } from "./badge";
 
 export interface BottomNavigationProps {
   activeSection: string;
   onSectionChange: (section: string) => void;
+  // Cartas sin leer, se muestran sobre el ícono de "Cartas"
+  unreadCount?: number;
 }
 
 const BottomNavigation = React.forwardRef<View, BottomNavigationProps>(
-  ({ activeSection, onSectionChange }, ref) => {
+  ({ activeSection, onSectionChange, unreadCount = 0 }, ref) => {
     return (
       <View ref={ref} style={styles.container}>
         <View style={styles.navigationContent}>
@@ -78,12 +81,19 @@ const BottomNavigation = React.forwardRef<View, BottomNavigationProps>(
             style={styles.navButton}
             onPress={() => onSectionChange("feed")}
           >
-            <Heart
-              width={24}
-              height={24}
-              color={activeSection === "feed" ? "#7e1785" : "#936bc7"}
-              fill={activeSection === "feed" ? "#7e1785" : "#936bc7"}
-            />
+            <View>
+              <Heart
+                width={24}
+                height={24}
+                color={activeSection === "feed" ? "#7e1785" : "#936bc7"}
+                fill={activeSection === "feed" ? "#7e1785" : "#936bc7"}
+              />
+              {unreadCount > 0 && (
+                <Badge variant="destructive" style={styles.badge} textStyle={styles.badgeText}>
+                  {unreadCount > 99 ? "99+" : String(unreadCount)}
+                </Badge>
+              )}
+            </View>
             <Text
               style={[
                 styles.navText,
@@ -129,6 +139,19 @@ const styles = StyleSheet.create({
   activeNavText: {
     color: "#7e1785",
   },
+  badge: {
+    position: "absolute",
+    top: -6,
+    right: -12,
+    minWidth: 20,
+    paddingHorizontal: 5,
+    paddingVertical: 0,
+    backgroundColor: "#9F1239",
+    borderColor: "white",
+  },
+  badgeText: {
+    fontSize: 11,
+  },
 });
 
 export { BottomNavigation };
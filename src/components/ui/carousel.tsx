@@ -28,6 +28,7 @@ type CarouselOptions = {
   dragFree?: boolean;
   skipSnaps?: boolean;
   containScroll?: "trimSnaps" | "keepSnaps";
+  startIndex?: number;
 };
 
 type CarouselPlugin = {
@@ -62,6 +63,9 @@ type CarouselContextProps = {
   scrollNext: () => void;
   canScrollPrev: boolean;
   canScrollNext: boolean;
+  itemDimension: number;
+  setItemsCount: (count: number) => void;
+  handleScroll: (event: NativeSyntheticEvent<NativeScrollEvent>) => void;
 };
 
 const CarouselContext = React.createContext<CarouselContextProps | null>(null);
@@ -98,22 +102,10 @@ const Carousel = React.forwardRef<React.ElementRef<typeof View>, CarouselProps>(
     ...props 
   }, ref) => {
     const scrollViewRef = React.useRef<ScrollView>(null);
-    const [currentIndex, setCurrentIndex] = React.useState(0);
+    const [currentIndex, setCurrentIndex] = React.useState(opts?.startIndex ?? 0);
+    // CarouselContent reports how many items it renders
     const [itemsCount, setItemsCount] = React.useState(0);
     const [itemDimension, setItemDimension] = React.useState(orientation === "horizontal" ? SCREEN_WIDTH : SCREEN_HEIGHT);
-    const [contentDimension, setContentDimension] = React.useState(0);
-    
-    // Count children for navigation boundaries
-    React.useEffect(() => {
-      // Count the number of CarouselItem children
-      let count = 0;
-      React.Children.forEach(children, (child) => {
-        if (React.isValidElement(child) && child.type === CarouselItem) {
-          count++;
-        }
-      });
-      setItemsCount(count);
-    }, [children]);
 
     const canScrollPrev = currentIndex > 0;
     const canScrollNext = currentIndex < itemsCount - 1;
@@ -194,6 +186,9 @@ const Carousel = React.forwardRef<React.ElementRef<typeof View>, CarouselProps>(
           scrollNext,
           canScrollPrev,
           canScrollNext,
+          itemDimension,
+          setItemsCount,
+          handleScroll,
         }}
       >
         <View 
@@ -212,12 +207,19 @@ const Carousel = React.forwardRef<React.ElementRef<typeof View>, CarouselProps>(
 Carousel.displayName = "Carousel";
 
 const CarouselContent = React.forwardRef<React.ElementRef<typeof ScrollView>, React.ComponentPropsWithoutRef<typeof ScrollView>>(
-  ({ style, onScroll, ...props }, ref) => {
-    const { carouselRef, orientation } = useCarousel();
+  ({ style, onScroll, children, ...props }, ref) => {
+    const { carouselRef, orientation, opts, itemDimension, setItemsCount, handleScroll } = useCarousel();
     
     // Pass through the ref or use the context ref
     const scrollViewRef = (ref as any) || carouselRef;
 
+    const itemsCount = React.Children.count(children);
+    React.useEffect(() => {
+      setItemsCount(itemsCount);
+    }, [itemsCount, setItemsCount]);
+
+    const startOffset = (opts?.startIndex ?? 0) * itemDimension;
+
     return (
       <View style={styles.overflowHidden}>
         <ScrollView
@@ -235,10 +237,18 @@ const CarouselContent = React.forwardRef<React.ElementRef<typeof ScrollView>, Re
           contentContainerStyle={[
             orientation === "horizontal" ? styles.horizontalContent : styles.verticalContent
           ]}
-          onScroll={onScroll}
+          contentOffset={
+            orientation === "horizontal" ? { x: startOffset, y: 0 } : { x: 0, y: startOffset }
+          }
+          onScroll={(event) => {
+            handleScroll(event);
+            onScroll?.(event);
+          }}
           scrollEventThrottle={16}
           {...props}
-        />
+        >
+          {children}
+        </ScrollView>
       </View>
     );
   }
@@ -248,10 +258,7 @@ CarouselContent.displayName = "CarouselContent";
 
 const CarouselItem = React.forwardRef<React.ElementRef<typeof View>, React.ComponentPropsWithoutRef<typeof View>>
   (({ style, ...props }, ref) => {
-    const { orientation } = useCarousel();
-    
-    // Get screen dimensions
-    const screenDimension = orientation === "horizontal" ? SCREEN_WIDTH : SCREEN_HEIGHT;
+    const { orientation, itemDimension } = useCarousel();
 
     return (
       <View
@@ -259,7 +266,7 @@ const CarouselItem = React.forwardRef<React.ElementRef<typeof View>, React.Compo
         style={mergeStyles(
           styles.item,
           getItemPadding(orientation),
-          orientation === "horizontal" ? { width: screenDimension } : { height: screenDimension },
+          orientation === "horizontal" ? { width: itemDimension } : { height: itemDimension },
           style
         )}
         {...props}
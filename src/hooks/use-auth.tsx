@@ -0,0 +1,108 @@
+import * as React from "react";
+import type { Session } from "@supabase/supabase-js";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "../integrations/supabase/client";
+import {
+  Couple,
+  coupleMembersQueryKey,
+  coupleQueryKey,
+  fetchCouple,
+  fetchCoupleMembers,
+  fetchProfile,
+  Profile,
+  profileQueryKey,
+} from "../lib/auth";
+import { clearDrafts } from "../lib/drafts";
+import { clearOutbox } from "../lib/outbox";
+import { unregisterPushToken } from "../lib/push-notifications";
+import { clearPersistedQueryCache } from "../lib/query-persistence";
+
+type AuthContextValue = {
+  session: Session | null;
+  profile: Profile | null;
+  couple: Couple | null;
+  // true mientras se lee la sesión guardada o se carga el perfil por primera vez
+  loading: boolean;
+  signOut: () => Promise<void>;
+};
+
+const AuthContext = React.createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const [session, setSession] = React.useState<Session | null>(null);
+  const [sessionLoaded, setSessionLoaded] = React.useState(false);
+
+  React.useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setSessionLoaded(true);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+
+  const profileQuery = useQuery({
+    queryKey: profileQueryKey(userId),
+    queryFn: () => fetchProfile(userId as string),
+    enabled: !!userId,
+  });
+  const profile = profileQuery.data ?? null;
+
+  const coupleQuery = useQuery({
+    queryKey: coupleQueryKey(profile?.couple_id),
+    queryFn: () => fetchCouple(profile?.couple_id as string),
+    enabled: !!profile?.couple_id,
+  });
+
+  const signOut = React.useCallback(async () => {
+    // Sin sesión ya no se podría borrar el token y los avisos seguirían llegando a este dispositivo
+    await unregisterPushToken().catch((error) =>
+      console.error("Error unregistering push token:", error)
+    );
+    await supabase.auth.signOut();
+    // No dejar en el dispositivo datos de la pareja anterior
+    await clearOutbox().catch((error) => console.error("Error clearing outbox:", error));
+    await clearDrafts().catch((error) => console.error("Error clearing drafts:", error));
+    queryClient.clear();
+    await clearPersistedQueryCache();
+  }, [queryClient]);
+
+  const value = React.useMemo<AuthContextValue>(
+    () => ({
+      session,
+      profile,
+      couple: coupleQuery.data ?? null,
+      loading: !sessionLoaded || (!!userId && profileQuery.isPending),
+      signOut,
+    }),
+    [session, profile, coupleQuery.data, sessionLoaded, userId, profileQuery.isPending, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export const useAuth = () => {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
+
+// Las dos personas de la pareja (por ejemplo, para filtrar cartas por autor)
+export const useCoupleMembers = () => {
+  const { profile } = useAuth();
+
+  return useQuery({
+    queryKey: coupleMembersQueryKey(profile?.couple_id),
+    queryFn: () => fetchCoupleMembers(profile?.couple_id as string),
+    enabled: !!profile?.couple_id,
+    staleTime: 60 * 60 * 1000,
+  });
+};
@@ -0,0 +1,54 @@
+import * as React from "react";
+
+// setTimeout no acepta esperas mayores a ~24.8 días; las más largas se hacen por tramos
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const remainingUntil = (target: string | null) =>
+  target ? Math.max(Date.parse(target) - Date.now(), 0) : 0;
+
+/**
+ * Milisegundos que faltan para `target`, actualizados cada segundo.
+ * Llega a 0 (y deja de actualizarse) cuando la fecha ya pasó.
+ */
+export const useCountdown = (target: string | null) => {
+  const [remaining, setRemaining] = React.useState(() => remainingUntil(target));
+
+  React.useEffect(() => {
+    setRemaining(remainingUntil(target));
+    if (remainingUntil(target) === 0) return;
+
+    const interval = setInterval(() => {
+      const next = remainingUntil(target);
+      setRemaining(next);
+      if (next === 0) clearInterval(interval);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [target]);
+
+  return remaining;
+};
+
+/**
+ * Indica si la fecha todavía no llega. A diferencia de useCountdown no vuelve a
+ * renderizar cada segundo: solo cambia una vez, en el momento en que pasa la fecha.
+ */
+export const useIsBefore = (target: string | null) => {
+  const [isBefore, setIsBefore] = React.useState(() => remainingUntil(target) > 0);
+
+  React.useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const check = () => {
+      const remaining = remainingUntil(target);
+      setIsBefore(remaining > 0);
+      if (remaining > 0) {
+        timer = setTimeout(check, Math.min(remaining, MAX_TIMEOUT_MS));
+      }
+    };
+
+    check();
+    return () => clearTimeout(timer);
+  }, [target]);
+
+  return isBefore;
+};
@@ -0,0 +1,100 @@
+import * as React from "react";
+import { AppState } from "react-native";
+import {
+  DraftContent,
+  deleteDraft,
+  getDrafts,
+  isDraftEmpty,
+  loadDrafts,
+  relocateDraftFiles,
+  saveDraft,
+  subscribeToDrafts,
+} from "../lib/drafts";
+
+// Espera después del último cambio antes de guardar el borrador
+const AUTOSAVE_DELAY_MS = 1000;
+
+// Borradores de cartas guardados en este dispositivo
+export const useDrafts = () => {
+  React.useEffect(() => {
+    loadDrafts();
+  }, []);
+
+  return React.useSyncExternalStore(subscribeToDrafts, getDrafts);
+};
+
+/**
+ * Guarda el borrador un momento después de cada cambio, al pasar la app a segundo plano
+ * y al salir de la pantalla. Si se vacía el formulario, el borrador se borra.
+ * onRelocate recibe la nueva ubicación de los archivos copiados a la carpeta del borrador.
+ * Devuelve una función para guardar en el momento (por ejemplo, antes de cambiar de borrador).
+ */
+export const useDraftAutosave = (
+  draftId: string,
+  content: DraftContent,
+  onRelocate: (moved: Record<string, string>) => void,
+  enabled: boolean
+) => {
+  const latest = React.useRef({ draftId, content, enabled, onRelocate });
+  latest.current = { draftId, content, enabled, onRelocate };
+
+  // Archivos ya copiados del borrador actual, por si el formulario todavía no los adoptó
+  const moved = React.useRef<{ draftId: string; files: Record<string, string> }>({ draftId, files: {} });
+  const lastSaved = React.useRef<string | null>(null);
+  const saving = React.useRef<Promise<void> | null>(null);
+  const dirty = React.useRef(false);
+
+  const flush = React.useCallback((): Promise<void> => {
+    if (!latest.current.enabled) return Promise.resolve();
+    if (saving.current) {
+      // Se vuelve a guardar con lo último en cuanto termine el guardado en curso
+      dirty.current = true;
+      return saving.current;
+    }
+
+    saving.current = (async () => {
+      do {
+        dirty.current = false;
+        const { draftId: id } = latest.current;
+        if (moved.current.draftId !== id) moved.current = { draftId: id, files: {} };
+
+        const content = relocateDraftFiles(latest.current.content, moved.current.files);
+        const key = `${id}:${JSON.stringify(content)}`;
+        if (key === lastSaved.current) continue;
+
+        if (isDraftEmpty(content)) {
+          await deleteDraft(id);
+          lastSaved.current = key;
+        } else {
+          const files = await saveDraft(id, content);
+          Object.assign(moved.current.files, files);
+          lastSaved.current = `${id}:${JSON.stringify(relocateDraftFiles(content, files))}`;
+          if (Object.keys(files).length > 0) latest.current.onRelocate(moved.current.files);
+        }
+      } while (dirty.current);
+    })()
+      .catch((error) => console.error("Error saving draft:", error))
+      .finally(() => {
+        saving.current = null;
+      });
+    return saving.current;
+  }, []);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const timer = setTimeout(flush, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [enabled, draftId, content, flush]);
+
+  React.useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state !== "active") flush();
+    });
+    return () => {
+      subscription.remove();
+      flush();
+    };
+  }, [flush]);
+
+  return flush;
+};
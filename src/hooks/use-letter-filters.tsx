@@ -0,0 +1,25 @@
+import * as React from "react";
+import { emptyLetterFilters, LetterFilters } from "../lib/letter-search";
+
+type LetterFiltersContextValue = {
+  filters: LetterFilters;
+  setFilters: (filters: LetterFilters) => void;
+};
+
+const LetterFiltersContext = React.createContext<LetterFiltersContextValue | undefined>(undefined);
+
+// Búsqueda del feed: vive fuera de la pantalla para que siga ahí al ir a otra sección y volver
+export function LetterFiltersProvider({ children }: { children: React.ReactNode }) {
+  const [filters, setFilters] = React.useState<LetterFilters>(emptyLetterFilters);
+  const value = React.useMemo(() => ({ filters, setFilters }), [filters]);
+
+  return <LetterFiltersContext.Provider value={value}>{children}</LetterFiltersContext.Provider>;
+}
+
+export const useLetterFilters = () => {
+  const context = React.useContext(LetterFiltersContext);
+  if (!context) {
+    throw new Error("useLetterFilters must be used within a LetterFiltersProvider");
+  }
+  return context;
+};
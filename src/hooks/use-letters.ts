@@ -0,0 +1,649 @@
+import * as React from "react";
+import { Alert } from "react-native";
+import {
+  InfiniteData,
+  infiniteQueryOptions,
+  keepPreviousData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { supabase } from "../integrations/supabase/client";
+import type { Tables } from "../integrations/supabase/types";
+import {
+  fetchLetter,
+  fetchLetterPage,
+  getLetterMessage,
+  fetchLetterRevisions,
+  fetchNewerLetters,
+  fetchReplies,
+  findLetterInPages,
+  LetterCursor,
+  LetterMedia,
+  letterQueryKey,
+  LetterReaction,
+  LetterRead,
+  letterRevisionsQueryKey,
+  lettersQueryKey,
+  LETTERS_PAGE_SIZE,
+  LoveLetter,
+  removeLetterFromPages,
+  repliesQueryKey,
+  restoreLetter,
+  softDeleteLetter,
+  toCursor,
+  updateLetter,
+  upsertLetterInPages,
+} from "../lib/letters";
+import {
+  hasActiveFilters,
+  LetterFilters,
+  letterSearchQueryKey,
+  letterSearchRootKey,
+  searchLetters,
+} from "../lib/letter-search";
+import {
+  addReaction,
+  removeReaction,
+  removeReactionById,
+  removeReactionFromLetter,
+  upsertReactionInLetter,
+} from "../lib/letter-reactions";
+import {
+  fetchUnreadLetterCount,
+  markLettersRead,
+  unreadLettersQueryKey,
+  upsertReadInLetter,
+} from "../lib/letter-reads";
+import { enqueueLetter } from "../lib/outbox";
+import { useToast } from "./use-toast-native";
+import { CURRENT_LETTER_FORMAT } from "../lib/rich-text";
+
+export type LettersData = InfiniteData<LoveLetter[], LetterCursor | null>;
+
+const letterFeedQuery = infiniteQueryOptions({
+  queryKey: lettersQueryKey,
+  queryFn: ({ pageParam }) => fetchLetterPage(pageParam),
+  initialPageParam: null as LetterCursor | null,
+  getNextPageParam: (lastPage) =>
+    lastPage.length < LETTERS_PAGE_SIZE ? undefined : toCursor(lastPage[lastPage.length - 1]),
+  // Las cartas nuevas llegan por Realtime o con refreshNewer; las páginas completas solo
+  // se revalidan al volver a la sección después de un rato (o al restaurar la caché guardada)
+  staleTime: 5 * 60 * 1000,
+});
+
+export const useLetterFeed = () => {
+  const queryClient = useQueryClient();
+  const [refreshing, setRefreshing] = React.useState(false);
+
+  const query = useInfiniteQuery(letterFeedQuery);
+
+  const letters = React.useMemo(() => query.data?.pages.flat() ?? [], [query.data]);
+
+  // Pull-to-refresh: solo pide las cartas más nuevas que la primera y las agrega arriba
+  const refreshNewer = React.useCallback(async () => {
+    const newest = letters[0];
+    if (!newest) {
+      await query.refetch();
+      return;
+    }
+
+    setRefreshing(true);
+    try {
+      const newer = await fetchNewerLetters(toCursor(newest));
+      if (newer.length > 0) {
+        queryClient.setQueryData<LettersData>(lettersQueryKey, (data) =>
+          data && {
+            ...data,
+            pages: [[...newer, ...data.pages[0]], ...data.pages.slice(1)],
+          }
+        );
+      }
+    } catch (error) {
+      console.error("Error fetching newer letters:", error);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [letters, query, queryClient]);
+
+  // Trae una carta puntual (por ejemplo, la de un aviso) y la ubica en el feed si le corresponde
+  // un lugar entre las páginas cargadas. Devuelve si quedó en el feed
+  const loadLetter = React.useCallback(
+    async (id: string) => {
+      const letter = await fetchLetter(id);
+      setLetterPages(queryClient, (pages) => upsertLetterInPages(pages, letter));
+      const data = queryClient.getQueryData<LettersData>(lettersQueryKey);
+      return !!data && !!findLetterInPages(data.pages, id);
+    },
+    [queryClient]
+  );
+
+  return { ...query, letters, refreshing, refreshNewer, loadLetter };
+};
+
+/**
+ * Una carta sola (por ejemplo, para letter/:id). Si el feed ya la tiene en caché se usa esa
+ * copia, así refleja al instante las ediciones y reacciones; si no, se pide solo esa fila.
+ * Nunca carga el feed: el observador del feed está desactivado y solo lee lo que ya hay.
+ */
+export const useLetter = (id: string) => {
+  const { data: loaded } = useInfiniteQuery({
+    ...letterFeedQuery,
+    enabled: false,
+    select: (data) => findLetterInPages(data.pages, id),
+  });
+
+  const query = useQuery({
+    queryKey: letterQueryKey(id),
+    queryFn: () => fetchLetter(id),
+    enabled: !loaded,
+  });
+
+  const letter = loaded ?? query.data ?? null;
+  return {
+    // Una carta borrada se trata como si no existiera
+    letter: letter?.deleted_at ? null : letter,
+    isPending: !loaded && query.isPending,
+    isError: !loaded && query.isError,
+  };
+};
+
+// El reloj del dispositivo puede ir adelantado respecto del servidor
+const REVEAL_RETRY_MS = 5 * 1000;
+const REVEAL_ATTEMPTS = 4;
+
+/**
+ * Vuelve a pedir la carta cuando pasa su fecha de apertura: mientras está sellada el servidor
+ * no manda el mensaje ni los archivos. Si todavía llega sin mensaje se reintenta un par de veces.
+ */
+export const useRevealLetter = (id: string, isSealed: boolean) => {
+  const queryClient = useQueryClient();
+  const wasSealed = React.useRef(isSealed);
+
+  React.useEffect(() => {
+    const opened = wasSealed.current && !isSealed;
+    wasSealed.current = isSealed;
+    if (!opened) return;
+
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const reveal = () =>
+      fetchLetter(id)
+        .then((letter) => {
+          setLetterPages(queryClient, (pages) => upsertLetterInPages(pages, letter));
+          queryClient.setQueryData(letterQueryKey(id), letter);
+          if (!getLetterMessage(letter) && ++attempts < REVEAL_ATTEMPTS) {
+            timer = setTimeout(reveal, REVEAL_RETRY_MS);
+          }
+        })
+        .catch((error) => console.error(`Error fetching letter ${id}:`, error));
+
+    reveal();
+    return () => clearTimeout(timer);
+  }, [id, isSealed, queryClient]);
+};
+
+/**
+ * Resultados de búsqueda paginados igual que el feed. Mientras llega una búsqueda nueva
+ * se siguen mostrando los resultados anteriores para que la lista no parpadee.
+ */
+export const useLetterSearch = (filters: LetterFilters) => {
+  const query = useInfiniteQuery({
+    queryKey: letterSearchQueryKey(filters),
+    queryFn: ({ pageParam }) => searchLetters(filters, pageParam),
+    initialPageParam: null as LetterCursor | null,
+    getNextPageParam: (lastPage) =>
+      lastPage.length < LETTERS_PAGE_SIZE ? undefined : toCursor(lastPage[lastPage.length - 1]),
+    enabled: hasActiveFilters(filters),
+    placeholderData: keepPreviousData,
+  });
+
+  const letters = React.useMemo(() => query.data?.pages.flat() ?? [], [query.data]);
+
+  return { ...query, letters };
+};
+
+/**
+ * Escucha los cambios de love_letters y sus tablas asociadas y los aplica sobre el feed cargado.
+ * onInsert se llama con cada carta nueva que llega (por ejemplo, para mostrar un aviso).
+ * El canal se cierra cuando el componente que usa el hook se desmonta.
+ */
+export const useLetterRealtime = (onInsert?: (letter: LoveLetter) => void) => {
+  const queryClient = useQueryClient();
+  const onInsertRef = React.useRef(onInsert);
+  onInsertRef.current = onInsert;
+
+  React.useEffect(() => {
+    const updatePages = (update: (pages: LoveLetter[][]) => LoveLetter[][]) =>
+      setLetterPages(queryClient, update);
+
+    // Las respuestas no van al feed: se recarga el hilo de la carta que contestan
+    const refreshReplies = (parentId: string) =>
+      queryClient.invalidateQueries({ queryKey: repliesQueryKey(parentId) });
+
+    // Realtime manda solo la fila, sin las fotos: se vuelve a pedir la carta completa
+    const refreshLetter = async (id: string) => {
+      try {
+        const letter = await fetchLetter(id);
+        updatePages((pages) => upsertLetterInPages(pages, letter));
+        return letter;
+      } catch (error) {
+        console.error(`Error fetching letter ${id}:`, error);
+        return null;
+      }
+    };
+
+    const channel = supabase
+      .channel("love_letters_feed")
+      .on<Tables<"love_letters">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "love_letters" },
+        (payload) => {
+          switch (payload.eventType) {
+            case "INSERT":
+              if (payload.new.parent_id) {
+                refreshReplies(payload.new.parent_id);
+                break;
+              }
+              refreshLetter(payload.new.id).then((letter) => {
+                if (letter) onInsertRef.current?.(letter);
+              });
+              break;
+            case "UPDATE": {
+              const row = payload.new;
+              if (row.parent_id) {
+                refreshReplies(row.parent_id);
+                break;
+              }
+              const data = queryClient.getQueryData<LettersData>(lettersQueryKey);
+              const current = data && findLetterInPages(data.pages, row.id);
+              if (current) {
+                // Los cambios de la fila no tocan las fotos, así que se conservan las cargadas
+                updatePages((pages) => upsertLetterInPages(pages, { ...current, ...row }));
+              } else if (!row.deleted_at) {
+                refreshLetter(row.id);
+              }
+              break;
+            }
+            case "DELETE":
+              if (payload.old.id) {
+                const id = payload.old.id;
+                updatePages((pages) => removeLetterFromPages(pages, id));
+              }
+              break;
+          }
+        }
+      )
+      .on<LetterMedia>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "letter_media" },
+        (payload) => {
+          const data = queryClient.getQueryData<LettersData>(lettersQueryKey);
+          if (!data) return;
+          // Con RLS el borrado trae solo el id: se busca la carta que tiene ese archivo
+          const letter =
+            payload.eventType === "DELETE"
+              ? data.pages
+                  .flat()
+                  .find((item) => item.letter_media.some((media) => media.id === payload.old.id))
+              : findLetterInPages(data.pages, payload.new.letter_id);
+          if (letter) refreshLetter(letter.id);
+        }
+      )
+      // Las reacciones traen todo lo necesario en la fila, no hace falta volver a pedir la carta
+      .on<LetterReaction>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "letter_reactions" },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            // Con RLS el borrado trae solo el id: se busca la reacción en todas las cartas
+            const { id } = payload.old;
+            if (id) {
+              updatePages((pages) =>
+                pages.map((page) => page.map((letter) => removeReactionById(letter, id)))
+              );
+            }
+          } else {
+            const reaction = payload.new;
+            updatePages((pages) =>
+              mapLetterInPages(pages, reaction.letter_id, (letter) =>
+                upsertReactionInLetter(letter, reaction)
+              )
+            );
+          }
+        }
+      )
+      // Así quien escribió la carta ve "Vista" en cuanto la otra persona la lee
+      .on<LetterRead>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "letter_reads" },
+        (payload) => {
+          const read = payload.new;
+          updatePages((pages) =>
+            mapLetterInPages(pages, read.letter_id, (letter) => upsertReadInLetter(letter, read))
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+};
+
+/**
+ * Cantidad de cartas sin leer para el badge de "Cartas". Se mantiene al día con Realtime
+ * aunque el feed no esté abierto; el intervalo cubre las cartas selladas que se abren solas.
+ */
+export const useUnreadLetterCount = () => {
+  const queryClient = useQueryClient();
+
+  React.useEffect(() => {
+    const refresh = () => queryClient.invalidateQueries({ queryKey: unreadLettersQueryKey });
+
+    const channel = supabase
+      .channel("love_letters_unread")
+      .on("postgres_changes", { event: "*", schema: "public", table: "love_letters" }, refresh)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "letter_reads" }, refresh)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: unreadLettersQueryKey,
+    queryFn: fetchUnreadLetterCount,
+    refetchInterval: 60 * 1000,
+  });
+};
+
+const setLetterPages = (
+  queryClient: QueryClient,
+  update: (pages: LoveLetter[][]) => LoveLetter[][]
+) =>
+  queryClient.setQueryData<LettersData>(lettersQueryKey, (data) =>
+    data && { ...data, pages: update(data.pages) }
+  );
+
+const mapLetterInPages = (
+  pages: LoveLetter[][],
+  id: string,
+  update: (letter: LoveLetter) => LoveLetter
+) => pages.map((page) => page.map((letter) => (letter.id === id ? update(letter) : letter)));
+
+// Aplica el cambio al feed antes de que responda el servidor y devuelve el estado anterior
+const optimisticUpdate = async (
+  queryClient: QueryClient,
+  update: (pages: LoveLetter[][]) => LoveLetter[][]
+) => {
+  await queryClient.cancelQueries({ queryKey: lettersQueryKey });
+  const previous = queryClient.getQueryData<LettersData>(lettersQueryKey);
+  setLetterPages(queryClient, update);
+  return { previous };
+};
+
+const rollback = (queryClient: QueryClient, context?: { previous?: LettersData }) => {
+  if (context?.previous) {
+    queryClient.setQueryData(lettersQueryKey, context.previous);
+  }
+};
+
+export const useEditLetter = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // formatVersion viene de editedLetterFormatVersion: las de texto plano siguen así si no se les da formato
+    mutationFn: ({ id, message, formatVersion }: { id: string; message: string; formatVersion: number }) =>
+      updateLetter(id, { message, format_version: formatVersion }),
+    onMutate: ({ id, message, formatVersion }) =>
+      optimisticUpdate(queryClient, (pages) =>
+        pages.map((page) =>
+          page.map((letter) =>
+            letter.id === id
+              ? {
+                  ...letter,
+                  message,
+                  format_version: formatVersion,
+                  edited_at: new Date().toISOString(),
+                }
+              : letter
+          )
+        )
+      ),
+    onError: (error, _variables, context) => {
+      console.error("Error editing letter:", error);
+      rollback(queryClient, context);
+    },
+    onSuccess: (letter) => {
+      setLetterPages(queryClient, (pages) => upsertLetterInPages(pages, letter));
+      queryClient.invalidateQueries({ queryKey: letterRevisionsQueryKey(letter.id) });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: letterSearchRootKey }),
+  });
+};
+
+/**
+ * Borra la carta y ofrece deshacerlo con un aviso. El aviso y el error se muestran desde aquí
+ * y no desde quien llama: al sacar la carta del caché su tarjeta se desmonta y los callbacks
+ * que se pasan a mutate ya no se llamarían.
+ */
+export const useDeleteLetter = () => {
+  const queryClient = useQueryClient();
+  const { toast, dismiss } = useToast();
+
+  const undo = (id: string) => {
+    dismiss();
+    restoreLetter(id)
+      .then((letter) => {
+        setLetterPages(queryClient, (pages) => upsertLetterInPages(pages, letter));
+        queryClient.invalidateQueries({ queryKey: letterSearchRootKey });
+      })
+      .catch((error) => {
+        console.error("Error restoring letter:", error);
+        Alert.alert("Error", "No se pudo recuperar la carta.");
+      });
+  };
+
+  return useMutation({
+    mutationFn: (id: string) => softDeleteLetter(id),
+    onMutate: (id) =>
+      optimisticUpdate(queryClient, (pages) => removeLetterFromPages(pages, id)),
+    onSuccess: (_data, id) =>
+      toast({
+        title: "Carta borrada",
+        description: "Toca aquí para deshacer",
+        visibilityTime: 6000,
+        onPress: () => undo(id),
+      }),
+    onError: (error, _id, context) => {
+      console.error("Error deleting letter:", error);
+      rollback(queryClient, context);
+      Alert.alert("Error", "No se pudo borrar la carta. Inténtalo de nuevo.");
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: letterSearchRootKey }),
+  });
+};
+
+export const useRestoreLetter = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => restoreLetter(id),
+    onSuccess: (letter) => {
+      setLetterPages(queryClient, (pages) => upsertLetterInPages(pages, letter));
+      queryClient.invalidateQueries({ queryKey: letterSearchRootKey });
+    },
+    onError: (error) => console.error("Error restoring letter:", error),
+  });
+};
+
+export const useLetterRevisions = (letterId: string, enabled: boolean) =>
+  useQuery({
+    queryKey: letterRevisionsQueryKey(letterId),
+    queryFn: () => fetchLetterRevisions(letterId),
+    enabled,
+  });
+
+export const useLetterReplies = (letterId: string, enabled: boolean) =>
+  useQuery({
+    queryKey: repliesQueryKey(letterId),
+    queryFn: () => fetchReplies(letterId),
+    enabled,
+  });
+
+type NewReply = {
+  parentId: string;
+  coupleId: string;
+  author: string;
+  message: string;
+};
+
+/**
+ * Las respuestas pasan por el outbox igual que las cartas, así que no se pierden sin conexión.
+ * La mutación devuelve true si la respuesta ya llegó a Supabase.
+ */
+export const useSendReply = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ parentId, coupleId, author, message }: NewReply) =>
+      enqueueLetter({
+        coupleId,
+        message,
+        formatVersion: CURRENT_LETTER_FORMAT.version,
+        author,
+        imageUris: [],
+        videos: [],
+        voiceNote: null,
+        unlockAt: null,
+        parentId,
+      }),
+    onSettled: (_sent, _error, { parentId }) =>
+      queryClient.invalidateQueries({ queryKey: repliesQueryKey(parentId) }),
+  });
+};
+
+export const useDeleteReply = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: string; parentId: string }) => softDeleteLetter(id),
+    onMutate: async ({ id, parentId }) => {
+      const queryKey = repliesQueryKey(parentId);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<LoveLetter[]>(queryKey);
+      queryClient.setQueryData<LoveLetter[]>(queryKey, (replies) =>
+        replies?.filter((reply) => reply.id !== id)
+      );
+      return { previous };
+    },
+    onError: (error, { parentId }, context) => {
+      console.error("Error deleting reply:", error);
+      if (context?.previous) {
+        queryClient.setQueryData(repliesQueryKey(parentId), context.previous);
+      }
+    },
+    onSettled: (_letter, _error, { parentId }) =>
+      queryClient.invalidateQueries({ queryKey: repliesQueryKey(parentId) }),
+  });
+};
+
+type ReactionToggle = {
+  letterId: string;
+  userId: string;
+  emoji: string;
+  // true si la cuenta ya había reaccionado con este emoji y ahora se quita
+  remove: boolean;
+};
+
+/**
+ * Pone o quita una reacción. El feed se actualiza al instante con una reacción provisoria
+ * que después se reemplaza por la fila real (o se descarta si falla).
+ */
+export const useToggleReaction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ letterId, userId, emoji, remove }: ReactionToggle) => {
+      if (remove) {
+        await removeReaction(letterId, userId, emoji);
+        return null;
+      }
+      return addReaction(letterId, emoji);
+    },
+    onMutate: ({ letterId, userId, emoji, remove }) =>
+      optimisticUpdate(queryClient, (pages) =>
+        mapLetterInPages(pages, letterId, (letter) =>
+          remove
+            ? removeReactionFromLetter(letter, { user_id: userId, emoji })
+            : upsertReactionInLetter(letter, {
+                id: `pending-${Date.now()}`,
+                letter_id: letterId,
+                couple_id: letter.couple_id ?? "",
+                user_id: userId,
+                emoji,
+                created_at: new Date().toISOString(),
+              })
+        )
+      ),
+    onError: (error, _variables, context) => {
+      console.error("Error toggling reaction:", error);
+      rollback(queryClient, context);
+    },
+    onSuccess: (reaction) => {
+      if (!reaction) return;
+      setLetterPages(queryClient, (pages) =>
+        mapLetterInPages(pages, reaction.letter_id, (letter) => upsertReactionInLetter(letter, reaction))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: letterSearchRootKey }),
+  });
+};
+
+/**
+ * Marca cartas como leídas. El badge y el feed se actualizan antes de que responda el servidor.
+ */
+export const useMarkLettersRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ letterIds }: { letterIds: string[]; userId: string }) => markLettersRead(letterIds),
+    onMutate: async ({ letterIds, userId }) => {
+      await queryClient.cancelQueries({ queryKey: unreadLettersQueryKey });
+      const previousCount = queryClient.getQueryData<number>(unreadLettersQueryKey);
+      queryClient.setQueryData<number>(unreadLettersQueryKey, (count) =>
+        count === undefined ? count : Math.max(0, count - letterIds.length)
+      );
+
+      const readAt = new Date().toISOString();
+      const context = await optimisticUpdate(queryClient, (pages) =>
+        letterIds.reduce(
+          (current, letterId) =>
+            mapLetterInPages(current, letterId, (letter) =>
+              upsertReadInLetter(letter, {
+                letter_id: letterId,
+                user_id: userId,
+                couple_id: letter.couple_id ?? "",
+                read_at: readAt,
+              })
+            ),
+          pages
+        )
+      );
+      return { ...context, previousCount };
+    },
+    onError: (error, _variables, context) => {
+      console.error("Error marking letters as read:", error);
+      rollback(queryClient, context);
+      if (context?.previousCount !== undefined) {
+        queryClient.setQueryData(unreadLettersQueryKey, context.previousCount);
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: unreadLettersQueryKey }),
+  });
+};
@@ -0,0 +1,9 @@
+import * as React from "react";
+import { onlineManager } from "@tanstack/react-query";
+
+// Estado de conexión según React Query (alimentado por NetInfo en setupOnlineManager)
+export const useOnlineStatus = () =>
+  React.useSyncExternalStore(
+    (listener) => onlineManager.subscribe(listener),
+    () => onlineManager.isOnline()
+  );
@@ -0,0 +1,6 @@
+import * as React from "react";
+import { getOutboxEntries, subscribeToOutbox } from "../lib/outbox";
+
+// Cartas escritas en este dispositivo que todavía no llegan a Supabase
+export const useOutbox = () =>
+  React.useSyncExternalStore(subscribeToOutbox, getOutboxEntries);
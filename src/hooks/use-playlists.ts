@@ -0,0 +1,174 @@
+import * as React from "react";
+import { QueryClient, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TablesInsert, TablesUpdate } from "../integrations/supabase/types";
+import {
+  addPlaylist,
+  deletePlaylist,
+  fetchPlaylists,
+  MusicPlaylist,
+  PENDING_PLAYLIST_PREFIX,
+  playlistsQueryKey,
+  reorderPlaylists,
+  updatePlaylist,
+} from "../lib/playlists";
+import { fetchMusicMetadata, getCachedCoverUri, metadataColumns } from "../lib/music-metadata";
+
+export const usePlaylists = () =>
+  useQuery({
+    queryKey: playlistsQueryKey,
+    queryFn: fetchPlaylists,
+    staleTime: 60 * 1000,
+  });
+
+const optimisticUpdate = async (
+  queryClient: QueryClient,
+  update: (playlists: MusicPlaylist[]) => MusicPlaylist[]
+) => {
+  await queryClient.cancelQueries({ queryKey: playlistsQueryKey });
+  const previous = queryClient.getQueryData<MusicPlaylist[]>(playlistsQueryKey);
+  queryClient.setQueryData<MusicPlaylist[]>(playlistsQueryKey, (current) => current && update(current));
+  return { previous };
+};
+
+const rollback = (queryClient: QueryClient, context?: { previous?: MusicPlaylist[] }) => {
+  if (context?.previous) {
+    queryClient.setQueryData(playlistsQueryKey, context.previous);
+  }
+};
+
+// Lo que se elige al agregarla; el resto lo completa el servidor
+type PlaylistInput = Omit<
+  TablesInsert<"music_playlists">,
+  "id" | "couple_id" | "created_by" | "created_at" | "sort_order"
+>;
+
+export const useAddPlaylist = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (playlist: PlaylistInput) => addPlaylist(playlist),
+    onMutate: async (playlist) => {
+      const pendingId = `${PENDING_PLAYLIST_PREFIX}${Date.now()}`;
+      const context = await optimisticUpdate(queryClient, (playlists) => [
+        {
+          ...playlist,
+          id: pendingId,
+          couple_id: null,
+          created_by: null,
+          created_at: new Date().toISOString(),
+          description: playlist.description ?? null,
+          cover_url: playlist.cover_url ?? null,
+          title: playlist.title ?? null,
+          author_name: playlist.author_name ?? null,
+          track_count: playlist.track_count ?? null,
+          metadata_updated_at: playlist.metadata_updated_at ?? null,
+          // El servidor la deja arriba de todas
+          sort_order: Math.min(0, ...playlists.map((item) => item.sort_order)) - 1,
+        },
+        ...playlists,
+      ]);
+      return { ...context, pendingId };
+    },
+    onError: (error, _playlist, context) => {
+      console.error("Error adding playlist:", error);
+      rollback(queryClient, context);
+    },
+    onSuccess: (playlist, _variables, context) => {
+      queryClient.setQueryData<MusicPlaylist[]>(playlistsQueryKey, (current) =>
+        current?.map((item) => (item.id === context.pendingId ? playlist : item))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: playlistsQueryKey }),
+  });
+};
+
+export const useUpdatePlaylist = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: TablesUpdate<"music_playlists"> }) =>
+      updatePlaylist(id, changes),
+    onMutate: ({ id, changes }) =>
+      optimisticUpdate(queryClient, (playlists) =>
+        playlists.map((playlist) => (playlist.id === id ? { ...playlist, ...changes } : playlist))
+      ),
+    onError: (error, _variables, context) => {
+      console.error("Error updating playlist:", error);
+      rollback(queryClient, context);
+    },
+    onSuccess: (playlist) => {
+      queryClient.setQueryData<MusicPlaylist[]>(playlistsQueryKey, (current) =>
+        current?.map((item) => (item.id === playlist.id ? playlist : item))
+      );
+    },
+  });
+};
+
+export const useDeletePlaylist = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deletePlaylist(id),
+    onMutate: (id) =>
+      optimisticUpdate(queryClient, (playlists) => playlists.filter((playlist) => playlist.id !== id)),
+    onError: (error, _id, context) => {
+      console.error("Error deleting playlist:", error);
+      rollback(queryClient, context);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: playlistsQueryKey }),
+  });
+};
+
+export const useReorderPlaylists = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Recibe la lista completa en el orden nuevo, tal como queda después de arrastrar
+    mutationFn: (playlists: MusicPlaylist[]) =>
+      reorderPlaylists(
+        playlists
+          .map((playlist) => playlist.id)
+          .filter((id) => !id.startsWith(PENDING_PLAYLIST_PREFIX))
+      ),
+    onMutate: (playlists) =>
+      optimisticUpdate(queryClient, () =>
+        playlists.map((playlist, index) => ({ ...playlist, sort_order: index }))
+      ),
+    onError: (error, _playlists, context) => {
+      console.error("Error reordering playlists:", error);
+      rollback(queryClient, context);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: playlistsQueryKey }),
+  });
+};
+
+// Portada guardada en el dispositivo (o el enlace remoto mientras no se pudo descargar)
+export const usePlaylistCover = (coverUrl: string | null) =>
+  useQuery({
+    queryKey: ["music-cover", coverUrl],
+    queryFn: () => getCachedCoverUri(coverUrl as string),
+    enabled: !!coverUrl,
+    staleTime: Infinity,
+  });
+
+/**
+ * Busca portada, título y cantidad de canciones de las playlists agregadas antes de que
+ * se guardaran esos datos. Cada una se intenta una sola vez: aunque el servicio no devuelva
+ * nada queda marcada con metadata_updated_at.
+ */
+export const useBackfillPlaylistMetadata = (playlists: MusicPlaylist[]) => {
+  const updatePlaylist = useUpdatePlaylist();
+  const requested = React.useRef(new Set<string>());
+
+  React.useEffect(() => {
+    for (const playlist of playlists) {
+      if (playlist.metadata_updated_at || playlist.id.startsWith(PENDING_PLAYLIST_PREFIX)) continue;
+      if (requested.current.has(playlist.id)) continue;
+      requested.current.add(playlist.id);
+
+      fetchMusicMetadata(playlist).then((metadata) =>
+        updatePlaylist.mutate({ id: playlist.id, changes: metadataColumns(metadata) })
+      );
+    }
+  }, [playlists, updatePlaylist.mutate]);
+};
@@ -0,0 +1,44 @@
+import * as React from "react";
+import * as Notifications from "expo-notifications";
+import { useAuth } from "./use-auth";
+import {
+  getNotificationTarget,
+  NotificationTarget,
+  registerForPushNotifications,
+} from "../lib/push-notifications";
+
+/**
+ * Registra el dispositivo para recibir avisos cuando hay una pareja y llama a onOpen
+ * cuando se toca un aviso, también si fue lo que abrió la app.
+ * ready indica que ya se puede navegar (la navegación está lista y se muestra la app completa).
+ */
+export const usePushNotifications = (ready: boolean, onOpen: (target: NotificationTarget) => void) => {
+  const { session, profile } = useAuth();
+  const userId = session?.user.id;
+  const coupleId = profile?.couple_id;
+
+  React.useEffect(() => {
+    if (!userId || !coupleId) return;
+    registerForPushNotifications().catch((error) =>
+      console.error("Error registering for push notifications:", error)
+    );
+  }, [userId, coupleId]);
+
+  const onOpenRef = React.useRef(onOpen);
+  onOpenRef.current = onOpen;
+  // El último aviso tocado sigue disponible después de usarlo; se recuerda para no abrirlo dos veces
+  const handledId = React.useRef<string | null>(null);
+  const response = Notifications.useLastNotificationResponse();
+
+  React.useEffect(() => {
+    if (!ready || !response) return;
+    if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return;
+
+    const { identifier, content } = response.notification.request;
+    if (handledId.current === identifier) return;
+    handledId.current = identifier;
+
+    const target = getNotificationTarget(content.data);
+    if (target) onOpenRef.current(target);
+  }, [ready, response]);
+};
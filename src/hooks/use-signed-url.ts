@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { getLetterImageUrl, SIGNED_URL_TTL_SECONDS } from "../lib/letter-images";
+
+// URL firmada de un archivo del bucket de cartas, compartida entre todos los que la muestran
+export const useSignedUrl = (path: string | null, enabled = true) =>
+  useQuery({
+    queryKey: ["letter-image-url", path],
+    queryFn: () => getLetterImageUrl(path as string),
+    enabled: !!path && enabled,
+    // Pedir una URL nueva un poco antes de que la firmada expire
+    staleTime: (SIGNED_URL_TTL_SECONDS - 5 * 60) * 1000,
+  });
@@ -9,60 +9,508 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      couples: {
+        Row: {
+          created_at: string
+          id: string
+          invite_code: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invite_code?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invite_code?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      letter_media: {
+        Row: {
+          couple_id: string
+          created_at: string
+          duration_ms: number | null
+          id: string
+          kind: string
+          letter_id: string
+          path: string
+          position: number
+          thumbnail_path: string | null
+          trim_start_ms: number
+          waveform: number[] | null
+        }
+        Insert: {
+          couple_id?: string
+          created_at?: string
+          duration_ms?: number | null
+          id?: string
+          kind?: string
+          letter_id: string
+          path: string
+          position?: number
+          thumbnail_path?: string | null
+          trim_start_ms?: number
+          waveform?: number[] | null
+        }
+        Update: {
+          couple_id?: string
+          created_at?: string
+          duration_ms?: number | null
+          id?: string
+          kind?: string
+          letter_id?: string
+          path?: string
+          position?: number
+          thumbnail_path?: string | null
+          trim_start_ms?: number
+          waveform?: number[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "letter_media_couple_id_fkey"
+            columns: ["couple_id"]
+            isOneToOne: false
+            referencedRelation: "couples"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "letter_media_letter_id_fkey"
+            columns: ["letter_id"]
+            isOneToOne: false
+            referencedRelation: "love_letters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      letter_reactions: {
+        Row: {
+          couple_id: string
+          created_at: string
+          emoji: string
+          id: string
+          letter_id: string
+          user_id: string
+        }
+        Insert: {
+          couple_id?: string
+          created_at?: string
+          emoji: string
+          id?: string
+          letter_id: string
+          user_id?: string
+        }
+        Update: {
+          couple_id?: string
+          created_at?: string
+          emoji?: string
+          id?: string
+          letter_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "letter_reactions_couple_id_fkey"
+            columns: ["couple_id"]
+            isOneToOne: false
+            referencedRelation: "couples"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "letter_reactions_letter_id_fkey"
+            columns: ["letter_id"]
+            isOneToOne: false
+            referencedRelation: "love_letters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      letter_reads: {
+        Row: {
+          couple_id: string
+          letter_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          couple_id?: string
+          letter_id: string
+          read_at?: string
+          user_id?: string
+        }
+        Update: {
+          couple_id?: string
+          letter_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "letter_reads_couple_id_fkey"
+            columns: ["couple_id"]
+            isOneToOne: false
+            referencedRelation: "couples"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "letter_reads_letter_id_fkey"
+            columns: ["letter_id"]
+            isOneToOne: false
+            referencedRelation: "love_letters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      letter_revisions: {
+        Row: {
+          couple_id: string
+          created_at: string
+          format_version: number
+          id: string
+          letter_id: string
+          message: string
+        }
+        Insert: {
+          couple_id: string
+          created_at?: string
+          format_version?: number
+          id?: string
+          letter_id: string
+          message: string
+        }
+        Update: {
+          couple_id?: string
+          created_at?: string
+          format_version?: number
+          id?: string
+          letter_id?: string
+          message?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "letter_revisions_couple_id_fkey"
+            columns: ["couple_id"]
+            isOneToOne: false
+            referencedRelation: "couples"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "letter_revisions_letter_id_fkey"
+            columns: ["letter_id"]
+            isOneToOne: false
+            referencedRelation: "love_letters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       love_letters: {
         Row: {
           author: string
+          author_id: string | null
+          couple_id: string | null
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          format_version: number
           id: string
+          image_path: string | null
           image_url: string | null
           message: string
+          parent_id: string | null
+          reply_count: number
+          thumbnail_path: string | null
+          unlock_at: string | null
         }
         Insert: {
           author: string
+          author_id?: string | null
+          couple_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          format_version?: number
           id?: string
+          image_path?: string | null
           image_url?: string | null
           message: string
+          parent_id?: string | null
+          reply_count?: number
+          thumbnail_path?: string | null
+          unlock_at?: string | null
         }
         Update: {
           author?: string
+          author_id?: string | null
+          couple_id?: string | null
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          format_version?: number
           id?: string
+          image_path?: string | null
           image_url?: string | null
           message?: string
+          parent_id?: string | null
+          reply_count?: number
+          thumbnail_path?: string | null
+          unlock_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "love_letters_couple_id_fkey"
+            columns: ["couple_id"]
+            isOneToOne: false
+            referencedRelation: "couples"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "love_letters_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "love_letters"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       music_playlists: {
         Row: {
+          author_name: string | null
+          couple_id: string | null
+          cover_url: string | null
           created_at: string
+          created_by: string | null
           description: string | null
+          external_id: string
           id: string
+          metadata_updated_at: string | null
           name: string
-          spotify_url: string
+          provider: string
+          sort_order: number
+          title: string | null
+          track_count: number | null
+          url: string
         }
         Insert: {
+          author_name?: string | null
+          couple_id?: string | null
+          cover_url?: string | null
           created_at?: string
+          created_by?: string | null
           description?: string | null
+          external_id: string
           id?: string
+          metadata_updated_at?: string | null
           name: string
-          spotify_url: string
+          provider: string
+          sort_order?: number
+          title?: string | null
+          track_count?: number | null
+          url: string
         }
         Update: {
+          author_name?: string | null
+          couple_id?: string | null
+          cover_url?: string | null
           created_at?: string
+          created_by?: string | null
           description?: string | null
+          external_id?: string
           id?: string
+          metadata_updated_at?: string | null
           name?: string
-          spotify_url?: string
+          provider?: string
+          sort_order?: number
+          title?: string | null
+          track_count?: number | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "music_playlists_couple_id_fkey"
+            columns: ["couple_id"]
+            isOneToOne: false
+            referencedRelation: "couples"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          couple_id: string | null
+          created_at: string
+          display_name: string
+          id: string
+        }
+        Insert: {
+          couple_id?: string | null
+          created_at?: string
+          display_name: string
+          id: string
+        }
+        Update: {
+          couple_id?: string | null
+          created_at?: string
+          display_name?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_couple_id_fkey"
+            columns: ["couple_id"]
+            isOneToOne: false
+            referencedRelation: "couples"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_settings: {
+        Row: {
+          endpoint: string
+          id: boolean
+        }
+        Insert: {
+          endpoint?: string
+          id?: boolean
+        }
+        Update: {
+          endpoint?: string
+          id?: boolean
         }
         Relationships: []
       }
+      push_tokens: {
+        Row: {
+          created_at: string
+          platform: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          platform: string
+          token: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          platform?: string
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sealed_letter_messages: {
+        Row: {
+          letter_id: string
+          message: string
+        }
+        Insert: {
+          letter_id: string
+          message: string
+        }
+        Update: {
+          letter_id?: string
+          message?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sealed_letter_messages_letter_id_fkey"
+            columns: ["letter_id"]
+            isOneToOne: true
+            referencedRelation: "love_letters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      create_couple: {
+        Args: { couple_name: string }
+        Returns: {
+          created_at: string
+          id: string
+          invite_code: string
+          name: string
+        }
+      }
+      current_couple_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      is_letter_open: {
+        Args: { target_letter: string }
+        Returns: boolean
+      }
+      join_couple: {
+        Args: { code: string }
+        Returns: {
+          created_at: string
+          id: string
+          invite_code: string
+          name: string
+        }
+      }
+      register_push_token: {
+        Args: { push_token: string; token_platform: string }
+        Returns: undefined
+      }
+      reorder_music_playlists: {
+        Args: { playlist_ids: string[] }
+        Returns: undefined
+      }
+      search_love_letters: {
+        Args: {
+          author_filter?: string
+          before_created_at?: string
+          before_id?: string
+          from_date?: string
+          has_photo?: boolean
+          page_size?: number
+          search_query?: string
+          to_date?: string
+        }
+        Returns: {
+          author: string
+          author_id: string | null
+          couple_id: string | null
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          format_version: number
+          id: string
+          image_path: string | null
+          image_url: string | null
+          message: string
+          parent_id: string | null
+          reply_count: number
+          thumbnail_path: string | null
+          unlock_at: string | null
+        }[]
+      }
+      send_couple_push: {
+        Args: {
+          message: string
+          payload: Json
+          sender: string
+          target_couple: string
+          title: string
+        }
+        Returns: undefined
+      }
+      unread_letter_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
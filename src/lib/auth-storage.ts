@@ -0,0 +1,25 @@
+import * as FileSystem from "expo-file-system";
+
+const AUTH_DIR = `${FileSystem.documentDirectory}auth/`;
+
+// Las claves de Supabase Auth llevan caracteres que no sirven como nombre de archivo
+const fileFor = (key: string) => `${AUTH_DIR}${encodeURIComponent(key)}.json`;
+
+/**
+ * Almacenamiento de la sesión de Supabase Auth en archivos de la app
+ * (React Native no tiene localStorage).
+ */
+export const fileAuthStorage = {
+  getItem: async (key: string) => {
+    const info = await FileSystem.getInfoAsync(fileFor(key));
+    if (!info.exists) return null;
+    return FileSystem.readAsStringAsync(fileFor(key));
+  },
+  setItem: async (key: string, value: string) => {
+    await FileSystem.makeDirectoryAsync(AUTH_DIR, { intermediates: true });
+    await FileSystem.writeAsStringAsync(fileFor(key), value);
+  },
+  removeItem: async (key: string) => {
+    await FileSystem.deleteAsync(fileFor(key), { idempotent: true });
+  },
+};
@@ -0,0 +1,78 @@
+import { supabase } from "../integrations/supabase/client";
+import type { Tables } from "../integrations/supabase/types";
+
+export type Profile = Tables<"profiles">;
+export type Couple = Tables<"couples">;
+
+export const profileQueryKey = (userId: string | undefined) => ["profile", userId] as const;
+export const coupleQueryKey = (coupleId: string | null | undefined) => ["couple", coupleId] as const;
+export const coupleMembersQueryKey = (coupleId: string | null | undefined) =>
+  ["couple", coupleId, "members"] as const;
+
+// Envía un código de 6 dígitos al correo (crea la cuenta si no existe)
+export const sendEmailCode = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: true },
+  });
+  if (error) throw error;
+};
+
+export const verifyEmailCode = async (email: string, token: string) => {
+  const { data, error } = await supabase.auth.verifyOtp({ email, token, type: "email" });
+  if (error) throw error;
+  return data.session;
+};
+
+export const fetchProfile = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export const saveProfile = async (userId: string, displayName: string) => {
+  const { error } = await supabase
+    .from("profiles")
+    .upsert({ id: userId, display_name: displayName }, { onConflict: "id" });
+  if (error) throw error;
+};
+
+export const fetchCouple = async (coupleId: string) => {
+  const { data, error } = await supabase
+    .from("couples")
+    .select("*")
+    .eq("id", coupleId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Perfiles de las dos personas de la pareja, en el orden en que se unieron
+export const fetchCoupleMembers = async (coupleId: string) => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("couple_id", coupleId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data;
+};
+
+export const createCouple = async (name: string) => {
+  const { data, error } = await supabase.rpc("create_couple", { couple_name: name });
+  if (error) throw error;
+  return data;
+};
+
+export const joinCouple = async (code: string) => {
+  const { data, error } = await supabase.rpc("join_couple", { code });
+  if (error) throw error;
+  return data;
+};
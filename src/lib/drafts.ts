@@ -0,0 +1,181 @@
+import * as FileSystem from "expo-file-system";
+import * as Crypto from "expo-crypto";
+import { supabase } from "../integrations/supabase/client";
+import type { PreparedVideo } from "./letter-videos";
+import type { VoiceNote } from "./voice-notes";
+
+// Lo que se está escribiendo en "Escribir"; los archivos apuntan a copias dentro de la carpeta del borrador
+export type DraftContent = {
+  message: string;
+  photos: string[];
+  videos: PreparedVideo[];
+  voiceNote: VoiceNote | null;
+  unlockAt: string | null;
+};
+
+export type LetterDraft = DraftContent & {
+  id: string;
+  updatedAt: string;
+};
+
+const DRAFTS_DIR = `${FileSystem.documentDirectory}drafts/`;
+const DRAFTS_FILE = `${DRAFTS_DIR}drafts.json`;
+
+let drafts: LetterDraft[] = [];
+let loaded: Promise<LetterDraft[]> | null = null;
+// Los guardados se encadenan para que dos escrituras no se pisen
+let queue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<() => void>();
+
+const draftDir = (id: string) => `${DRAFTS_DIR}${id}/`;
+
+const setDrafts = async (next: LetterDraft[]) => {
+  drafts = next;
+  listeners.forEach((listener) => listener());
+  await FileSystem.writeAsStringAsync(DRAFTS_FILE, JSON.stringify(drafts));
+};
+
+const enqueue = <T>(task: () => Promise<T>) => {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+export const isDraftEmpty = (content: DraftContent) =>
+  !content.message.trim() &&
+  content.photos.length === 0 &&
+  content.videos.length === 0 &&
+  !content.voiceNote &&
+  !content.unlockAt;
+
+export const newDraftId = () => Crypto.randomUUID();
+
+// Reemplaza las ubicaciones de los archivos que saveDraft ya copió a la carpeta del borrador
+export const relocateDraftFiles = (content: DraftContent, moved: Record<string, string>): DraftContent => {
+  const relocate = (uri: string) => moved[uri] ?? uri;
+  return {
+    ...content,
+    photos: content.photos.map(relocate),
+    videos: content.videos.map((video) => ({
+      ...video,
+      uri: relocate(video.uri),
+      posterUri: relocate(video.posterUri),
+    })),
+    voiceNote: content.voiceNote && { ...content.voiceNote, uri: relocate(content.voiceNote.uri) },
+  };
+};
+
+// Borradores guardados, del más reciente al más antiguo
+export const loadDrafts = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      await FileSystem.makeDirectoryAsync(DRAFTS_DIR, { intermediates: true });
+      const info = await FileSystem.getInfoAsync(DRAFTS_FILE);
+      if (info.exists) {
+        try {
+          drafts = JSON.parse(await FileSystem.readAsStringAsync(DRAFTS_FILE));
+          listeners.forEach((listener) => listener());
+        } catch (error) {
+          console.error("Error leyendo los borradores:", error);
+        }
+      }
+      return drafts;
+    })();
+  }
+  return loaded;
+};
+
+/**
+ * Guarda el borrador copiando a su carpeta los archivos que todavía están en la caché
+ * (el sistema puede borrarla en cualquier momento) y quitando los que ya no usa.
+ * Devuelve la nueva ubicación de cada archivo copiado, para que el formulario la adopte.
+ */
+export const saveDraft = (id: string, content: DraftContent) =>
+  enqueue(async (): Promise<Record<string, string>> => {
+    // Sin sesión no se guarda: el formulario que se desmonta al cerrar sesión no debe
+    // volver a crear los borradores que clearDrafts acaba de borrar
+    const { data } = await supabase.auth.getSession();
+    if (!data.session) return {};
+
+    await loadDrafts();
+    const dir = draftDir(id);
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+
+    const moved: Record<string, string> = {};
+    const keep = async (uri: string, extension: string) => {
+      if (uri.startsWith(dir)) return uri;
+      if (!moved[uri]) {
+        moved[uri] = `${dir}${Crypto.randomUUID()}.${extension}`;
+        await FileSystem.copyAsync({ from: uri, to: moved[uri] });
+      }
+      return moved[uri];
+    };
+
+    const photos: string[] = [];
+    for (const uri of content.photos) {
+      photos.push(await keep(uri, "jpg"));
+    }
+    const videos: PreparedVideo[] = [];
+    for (const video of content.videos) {
+      videos.push({
+        ...video,
+        uri: await keep(video.uri, "mp4"),
+        posterUri: await keep(video.posterUri, "jpg"),
+      });
+    }
+    const voiceNote = content.voiceNote
+      ? { ...content.voiceNote, uri: await keep(content.voiceNote.uri, "m4a") }
+      : null;
+
+    const draft: LetterDraft = {
+      ...content,
+      id,
+      photos,
+      videos,
+      voiceNote,
+      updatedAt: new Date().toISOString(),
+    };
+    await setDrafts([draft, ...drafts.filter((item) => item.id !== id)]);
+
+    // Archivos de fotos o videos que se quitaron del borrador
+    const used = new Set([
+      ...photos,
+      ...videos.flatMap((video) => [video.uri, video.posterUri]),
+      ...(voiceNote ? [voiceNote.uri] : []),
+    ]);
+    for (const name of await FileSystem.readDirectoryAsync(dir)) {
+      if (!used.has(`${dir}${name}`)) {
+        await FileSystem.deleteAsync(`${dir}${name}`, { idempotent: true });
+      }
+    }
+
+    return moved;
+  });
+
+export const deleteDraft = (id: string) =>
+  enqueue(async () => {
+    await loadDrafts();
+    if (drafts.some((draft) => draft.id === id)) {
+      await setDrafts(drafts.filter((draft) => draft.id !== id));
+    }
+    await FileSystem.deleteAsync(draftDir(id), { idempotent: true });
+  });
+
+// Se llama al cerrar sesión, para que la próxima cuenta no vea los borradores de la anterior
+export const clearDrafts = () =>
+  enqueue(async () => {
+    drafts = [];
+    // Al volver a cargar se lee la carpeta vacía
+    loaded = null;
+    listeners.forEach((listener) => listener());
+    await FileSystem.deleteAsync(DRAFTS_DIR, { idempotent: true });
+  });
+
+export const getDrafts = () => drafts;
+
+export const subscribeToDrafts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
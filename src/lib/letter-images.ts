@@ -0,0 +1,117 @@
+import { Image } from "react-native";
+import { manipulateAsync, SaveFormat } from "expo-image-manipulator";
+import { decode } from "base64-arraybuffer";
+import { supabase } from "../integrations/supabase/client";
+
+export const LETTER_IMAGES_BUCKET = "letter-images";
+
+// Lado más largo de cada variante, en píxeles
+const FULL_MAX_SIZE = 1600;
+const THUMBNAIL_MAX_SIZE = 480;
+
+// Las URLs firmadas duran una hora; React Query las refresca antes de que expiren
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type LetterImagePaths = {
+  image_path: string;
+  thumbnail_path: string;
+};
+
+export const getImageSize = (uri: string) =>
+  new Promise<{ width: number; height: number }>((resolve, reject) => {
+    Image.getSize(uri, (width, height) => resolve({ width, height }), reject);
+  });
+
+// Redimensiona la imagen para que su lado más largo no pase de maxSize y la devuelve en base64
+const resizeToJpeg = async (uri: string, maxSize: number, compress: number) => {
+  const { width, height } = await getImageSize(uri);
+  const actions =
+    Math.max(width, height) > maxSize
+      ? [{ resize: width >= height ? { width: maxSize } : { height: maxSize } }]
+      : [];
+
+  const result = await manipulateAsync(uri, actions, {
+    compress,
+    format: SaveFormat.JPEG,
+    base64: true,
+  });
+
+  if (!result.base64) {
+    throw new Error("No se pudo procesar la imagen");
+  }
+  return result.base64;
+};
+
+const uploadJpeg = async (path: string, base64: string) => {
+  const { error } = await supabase.storage
+    .from(LETTER_IMAGES_BUCKET)
+    .upload(path, decode(base64), {
+      contentType: "image/jpeg",
+      // Volver a subir la misma carta reemplaza los archivos en lugar de fallar
+      upsert: true,
+    });
+
+  if (error) throw error;
+};
+
+// Redimensiona y sube una sola imagen (por ejemplo, la portada de un video)
+export const uploadResizedJpeg = async (path: string, uri: string, maxSize = FULL_MAX_SIZE) =>
+  uploadJpeg(path, await resizeToJpeg(uri, maxSize, 0.8));
+
+// Sube las dos variantes de una foto (completa y miniatura) con los nombres dados
+const uploadVariants = async (fullPath: string, thumbnailPath: string, uri: string) => {
+  const [full, thumbnail] = await Promise.all([
+    resizeToJpeg(uri, FULL_MAX_SIZE, 0.8),
+    resizeToJpeg(uri, THUMBNAIL_MAX_SIZE, 0.6),
+  ]);
+
+  await uploadJpeg(thumbnailPath, thumbnail);
+  await uploadJpeg(fullPath, full);
+};
+
+/**
+ * Sube la foto de una carta al bucket en dos variantes (completa y miniatura)
+ * y devuelve las rutas que se guardan en la fila de love_letters.
+ * Las rutas empiezan con el id de la pareja porque así lo exigen las políticas del bucket.
+ */
+export const uploadLetterImage = async (
+  coupleId: string,
+  letterId: string,
+  uri: string
+): Promise<LetterImagePaths> => {
+  const paths = {
+    image_path: `${coupleId}/letters/${letterId}/full.jpg`,
+    thumbnail_path: `${coupleId}/letters/${letterId}/thumb.jpg`,
+  };
+
+  await uploadVariants(paths.image_path, paths.thumbnail_path, uri);
+  return paths;
+};
+
+/**
+ * Sube una de las fotos de la galería de una carta. Cada foto va en su propia carpeta
+ * (el id de su fila en letter_media), así que reintentar la subida no duplica archivos.
+ */
+export const uploadLetterPhoto = async (
+  coupleId: string,
+  letterId: string,
+  mediaId: string,
+  uri: string
+) => {
+  const paths = {
+    path: `${coupleId}/letters/${letterId}/${mediaId}/full.jpg`,
+    thumbnail_path: `${coupleId}/letters/${letterId}/${mediaId}/thumb.jpg`,
+  };
+
+  await uploadVariants(paths.path, paths.thumbnail_path, uri);
+  return paths;
+};
+
+export const getLetterImageUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(LETTER_IMAGES_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
@@ -0,0 +1,123 @@
+import { supabase } from "../integrations/supabase/client";
+import type { LetterReaction, LoveLetter } from "./letters";
+
+// Las que aparecen siempre en la barra; el resto se elige manteniendo presionado
+export const QUICK_REACTIONS = ["❤️", "😍", "🥰", "😂", "🥺"];
+
+export const EMOJI_CATEGORIES: { title: string; emojis: string[] }[] = [
+  {
+    title: "Amor",
+    emojis: [
+      "❤️", "🧡", "💛", "💚", "💙", "💜", "🤍", "🖤", "🤎", "💕", "💞", "💓", "💗", "💖",
+      "💘", "💝", "💟", "❣️", "💌", "💋", "😘", "😚", "😙", "🥰", "😍", "🤩", "💑", "💏",
+    ],
+  },
+  {
+    title: "Caras",
+    emojis: [
+      "😀", "😃", "😄", "😁", "😆", "😅", "🤣", "😂", "🙂", "🙃", "😉", "😊", "😇", "🥹",
+      "😋", "😛", "😜", "🤪", "😝", "🤗", "🤭", "🫢", "🤫", "🤔", "🫡", "🤐", "🤨", "😐",
+      "😑", "😶", "😏", "😒", "🙄", "😬", "😌", "😔", "😪", "🤤", "😴", "😷", "🥴", "😵",
+      "🤯", "🥳", "🥸", "😎", "🤓", "🧐", "😕", "😟", "🙁", "😮", "😯", "😲", "😳", "🥺",
+      "😦", "😧", "😨", "😰", "😥", "😢", "😭", "😱", "😖", "😣", "😞", "😓", "😩", "😫",
+      "🥱", "😤", "😡", "😠", "🤬", "😈", "💀", "🤡", "👻", "👽", "🤖", "💩",
+    ],
+  },
+  {
+    title: "Gestos",
+    emojis: [
+      "👍", "👎", "👏", "🙌", "🫶", "👐", "🤲", "🙏", "🤝", "✌️", "🤞", "🫰", "🤟", "🤘",
+      "👌", "🤌", "👈", "👉", "👆", "👇", "☝️", "✋", "🤚", "🖐️", "👋", "🤙", "💪", "🫂",
+    ],
+  },
+  {
+    title: "Naturaleza",
+    emojis: [
+      "🌹", "🥀", "🌷", "🌸", "💐", "🌻", "🌼", "🌺", "🍀", "🌿", "🌈", "☀️", "🌙", "⭐",
+      "🌟", "✨", "⚡", "🔥", "💧", "🌊", "❄️", "☁️", "🐶", "🐱", "🐰", "🐻", "🐼", "🦋",
+    ],
+  },
+  {
+    title: "Cosas",
+    emojis: [
+      "🎉", "🎊", "🎁", "🎈", "🎂", "🍰", "🍫", "🍓", "🍕", "☕", "🍷", "🥂", "🎵", "🎶",
+      "🎧", "📸", "✈️", "🏠", "💍", "👑", "💎", "🧸", "📝", "📖", "💤", "💯", "✅", "❗",
+    ],
+  },
+];
+
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  // La cuenta actual ya reaccionó con este emoji
+  mine: boolean;
+};
+
+// Agrupa las reacciones por emoji, en el orden en que se pusieron por primera vez
+export const summarizeReactions = (
+  reactions: LetterReaction[],
+  userId: string | undefined
+): ReactionSummary[] => {
+  const sorted = [...reactions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const summaries = new Map<string, ReactionSummary>();
+
+  for (const reaction of sorted) {
+    const summary = summaries.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, mine: false };
+    summary.count += 1;
+    summary.mine ||= reaction.user_id === userId;
+    summaries.set(reaction.emoji, summary);
+  }
+
+  return [...summaries.values()];
+};
+
+const isSameReaction = (a: LetterReaction, b: LetterReaction) =>
+  a.id === b.id || (a.user_id === b.user_id && a.emoji === b.emoji);
+
+// Agrega o reemplaza la reacción; la respuesta del insert y su evento de Realtime pueden
+// llegar en cualquier orden, así que se compara también por cuenta y emoji
+export const upsertReactionInLetter = (letter: LoveLetter, reaction: LetterReaction): LoveLetter => ({
+  ...letter,
+  letter_reactions: [
+    ...letter.letter_reactions.filter((item) => !isSameReaction(item, reaction)),
+    reaction,
+  ],
+});
+
+export const removeReactionFromLetter = (
+  letter: LoveLetter,
+  match: Pick<LetterReaction, "user_id" | "emoji">
+): LoveLetter => ({
+  ...letter,
+  letter_reactions: letter.letter_reactions.filter(
+    (item) => item.user_id !== match.user_id || item.emoji !== match.emoji
+  ),
+});
+
+// Los borrados de Realtime traen solo el id, sin la carta ni el emoji
+export const removeReactionById = (letter: LoveLetter, id: string): LoveLetter =>
+  letter.letter_reactions.some((item) => item.id === id)
+    ? { ...letter, letter_reactions: letter.letter_reactions.filter((item) => item.id !== id) }
+    : letter;
+
+export const addReaction = async (letterId: string, emoji: string) => {
+  const { data, error } = await supabase
+    .from("letter_reactions")
+    .insert({ letter_id: letterId, emoji })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const removeReaction = async (letterId: string, userId: string, emoji: string) => {
+  const { error } = await supabase
+    .from("letter_reactions")
+    .delete()
+    .eq("letter_id", letterId)
+    .eq("user_id", userId)
+    .eq("emoji", emoji);
+
+  if (error) throw error;
+};
@@ -0,0 +1,41 @@
+import { supabase } from "../integrations/supabase/client";
+import type { LetterRead, LoveLetter } from "./letters";
+
+export const unreadLettersQueryKey = ["love_letters", "unread"] as const;
+
+// Una carta se puede marcar como leída si es de la otra persona y ya se puede abrir
+export const canMarkAsRead = (letter: LoveLetter, userId: string) =>
+  !!letter.author_id &&
+  letter.author_id !== userId &&
+  (!letter.unlock_at || new Date(letter.unlock_at) <= new Date()) &&
+  !letter.letter_reads.some((read) => read.user_id === userId);
+
+// Lectura más reciente de alguien que no es quien escribió la carta
+export const getSeenAt = (letter: LoveLetter) =>
+  letter.letter_reads
+    .filter((read) => read.user_id !== letter.author_id)
+    .reduce<string | null>((latest, read) => (!latest || read.read_at > latest ? read.read_at : latest), null);
+
+export const upsertReadInLetter = (letter: LoveLetter, read: LetterRead): LoveLetter => ({
+  ...letter,
+  letter_reads: [...letter.letter_reads.filter((item) => item.user_id !== read.user_id), read],
+});
+
+export const fetchUnreadLetterCount = async () => {
+  const { data, error } = await supabase.rpc("unread_letter_count");
+
+  if (error) throw error;
+  return data;
+};
+
+// Si otra sesión ya la marcó, se conserva la hora de la primera lectura
+export const markLettersRead = async (letterIds: string[]) => {
+  const { error } = await supabase
+    .from("letter_reads")
+    .upsert(
+      letterIds.map((letter_id) => ({ letter_id })),
+      { onConflict: "letter_id,user_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
@@ -0,0 +1,102 @@
+import { addDays } from "date-fns";
+import { supabase } from "../integrations/supabase/client";
+import { LETTER_SELECT, LetterCursor, LETTERS_PAGE_SIZE } from "./letters";
+
+export type LetterFilters = {
+  query: string;
+  authorId: string | null;
+  // Días en formato yyyy-MM-dd (hora local), ambos incluidos
+  from: string | null;
+  to: string | null;
+  hasPhoto: boolean;
+};
+
+export const emptyLetterFilters: LetterFilters = {
+  query: "",
+  authorId: null,
+  from: null,
+  to: null,
+  hasPhoto: false,
+};
+
+// Fuera de "love_letters" para que los resultados de búsqueda no se guarden en el dispositivo
+export const letterSearchRootKey = ["letter_search"] as const;
+
+export const letterSearchQueryKey = (filters: LetterFilters) =>
+  [...letterSearchRootKey, filters] as const;
+
+export const hasActiveFilters = (filters: LetterFilters) =>
+  !!filters.query.trim() || !!filters.authorId || !!filters.from || !!filters.to || filters.hasPhoto;
+
+const startOfLocalDay = (day: string) => new Date(`${day}T00:00:00`);
+
+/**
+ * Trae una página de cartas que cumplen los filtros, con el mismo cursor que el feed.
+ * La función solo dice qué cartas coinciden; sus fotos, reacciones y lecturas se piden
+ * después con LETTER_SELECT, igual que en el feed.
+ */
+export const searchLetters = async (filters: LetterFilters, cursor: LetterCursor | null) => {
+  const query = filters.query.trim();
+
+  const { data: matches, error } = await supabase
+    .rpc("search_love_letters", {
+      search_query: query || undefined,
+      author_filter: filters.authorId ?? undefined,
+      from_date: filters.from ? startOfLocalDay(filters.from).toISOString() : undefined,
+      // El día final se incluye completo
+      to_date: filters.to ? addDays(startOfLocalDay(filters.to), 1).toISOString() : undefined,
+      has_photo: filters.hasPhoto,
+      before_created_at: cursor?.created_at,
+      before_id: cursor?.id,
+      page_size: LETTERS_PAGE_SIZE,
+    })
+    .select("id");
+
+  if (error) throw error;
+  if (matches.length === 0) return [];
+
+  const ids = matches.map((match) => match.id);
+  const { data: letters, error: lettersError } = await supabase
+    .from("love_letters")
+    .select(LETTER_SELECT)
+    .in("id", ids)
+    .order("position", { referencedTable: "letter_media" });
+
+  if (lettersError) throw lettersError;
+  // Se devuelven en el orden de la búsqueda; si alguna se borró entre las dos consultas, se omite
+  const byId = new Map(letters.map((letter) => [letter.id, letter]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+};
+
+// Quita acentos y mayúsculas para comparar como lo hace la búsqueda
+const normalize = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+// Palabras de la búsqueda sin operadores (comillas, "-", "or")
+export const getHighlightTerms = (query: string) =>
+  normalize(query)
+    .split(/[\s"]+/)
+    .filter((term) => term.length >= 2 && term !== "or" && !term.startsWith("-"));
+
+/**
+ * Divide el texto en fragmentos marcando las palabras que coinciden con la búsqueda.
+ * La búsqueda de Postgres compara raíces ("playa" encuentra "playas"), así que aquí
+ * una palabra coincide si comparte el inicio con alguno de los términos.
+ */
+export const splitHighlights = (text: string, terms: string[]) => {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  return text
+    .split(/(\s+)/)
+    .filter(Boolean)
+    .map((word) => {
+      const normalizedWord = normalize(word).replace(/[^\p{L}\p{N}]/gu, "");
+      const match =
+        !!normalizedWord &&
+        terms.some((term) => {
+          const stem = term.slice(0, Math.max(3, term.length - 2));
+          return normalizedWord.startsWith(stem) || normalizedWord === term;
+        });
+      return { text: word, match };
+    });
+};
@@ -0,0 +1,92 @@
+import * as FileSystem from "expo-file-system";
+import * as VideoThumbnails from "expo-video-thumbnails";
+import { Video } from "react-native-compressor";
+import { supabase } from "../integrations/supabase/client";
+import { LETTER_IMAGES_BUCKET, uploadResizedJpeg } from "./letter-images";
+
+export const MAX_LETTER_VIDEOS = 3;
+export const MAX_VIDEO_DURATION_SECONDS = 60;
+// Tamaño máximo del archivo ya comprimido que se sube a Storage
+export const MAX_VIDEO_BYTES = 20 * 1024 * 1024;
+
+// Video listo para adjuntar: ya comprimido y con su portada, todo en el dispositivo
+export type PreparedVideo = {
+  uri: string;
+  posterUri: string;
+  durationMs: number;
+};
+
+const getFileSize = async (uri: string) => {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists ? info.size : 0;
+};
+
+/**
+ * Comprime el video para que no pase de MAX_VIDEO_BYTES y saca su portada.
+ * Primero prueba la compresión automática; si no alcanza, vuelve a comprimir
+ * con el bitrate que hace falta para la duración del video.
+ */
+export const prepareLetterVideo = async (
+  uri: string,
+  durationMs: number,
+  onProgress?: (progress: number) => void
+): Promise<PreparedVideo> => {
+  let compressed = await Video.compress(
+    uri,
+    { compressionMethod: "auto", maxSize: 1280 },
+    (progress) => onProgress?.(progress * 0.5)
+  );
+
+  if ((await getFileSize(compressed)) > MAX_VIDEO_BYTES) {
+    // Se deja un 10 % de margen para el audio y el contenedor
+    const seconds = Math.max(1, durationMs / 1000);
+    const bitrate = Math.floor((MAX_VIDEO_BYTES * 8 * 0.9) / seconds);
+    compressed = await Video.compress(
+      uri,
+      { compressionMethod: "manual", bitrate, maxSize: 960 },
+      (progress) => onProgress?.(0.5 + progress * 0.5)
+    );
+  }
+
+  if ((await getFileSize(compressed)) > MAX_VIDEO_BYTES) {
+    throw new Error("El video es demasiado pesado incluso después de comprimirlo");
+  }
+  onProgress?.(1);
+
+  const poster = await VideoThumbnails.getThumbnailAsync(compressed, { time: 0, quality: 0.8 });
+  return { uri: compressed, posterUri: poster.uri, durationMs };
+};
+
+/**
+ * Sube un video y su portada. El video se manda directo desde el archivo con una URL
+ * de subida firmada, sin cargarlo entero en memoria como se hace con las fotos.
+ */
+export const uploadLetterVideo = async (
+  coupleId: string,
+  letterId: string,
+  mediaId: string,
+  video: Omit<PreparedVideo, "durationMs">
+) => {
+  const paths = {
+    path: `${coupleId}/letters/${letterId}/${mediaId}/video.mp4`,
+    thumbnail_path: `${coupleId}/letters/${letterId}/${mediaId}/poster.jpg`,
+  };
+
+  await uploadResizedJpeg(paths.thumbnail_path, video.posterUri);
+
+  const { data, error } = await supabase.storage
+    .from(LETTER_IMAGES_BUCKET)
+    .createSignedUploadUrl(paths.path, { upsert: true });
+  if (error) throw error;
+
+  const result = await FileSystem.uploadAsync(data.signedUrl, video.uri, {
+    httpMethod: "PUT",
+    uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+    headers: { "Content-Type": "video/mp4", "x-upsert": "true" },
+  });
+  if (result.status >= 300) {
+    throw new Error(`Error al subir el video (${result.status})`);
+  }
+
+  return paths;
+};
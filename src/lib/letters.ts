@@ -0,0 +1,270 @@
+import { supabase } from "../integrations/supabase/client";
+import type { Tables, TablesUpdate } from "../integrations/supabase/types";
+
+export type LetterMedia = Tables<"letter_media">;
+export type LetterReaction = Tables<"letter_reactions">;
+export type LetterRead = Tables<"letter_reads">;
+// Carta con sus fotos (letter_media), reacciones y lecturas incluidas en la misma consulta.
+// El mensaje de una carta sellada está en sealed_letter_messages y solo llega cuando se puede leer.
+// image_url (fotos antiguas en base64) no se pide nunca: se migra a Storage en el servidor
+export type LoveLetter = Omit<Tables<"love_letters">, "image_url"> & {
+  letter_media: LetterMedia[];
+  letter_reactions: LetterReaction[];
+  letter_reads: LetterRead[];
+  sealed_letter_messages: Pick<Tables<"sealed_letter_messages">, "message"> | null;
+};
+export type LetterRevision = Tables<"letter_revisions">;
+export type LetterUpdate = TablesUpdate<"love_letters">;
+
+// Posición en el feed: las cartas se ordenan por fecha y luego por id para desempatar
+export type LetterCursor = Pick<LoveLetter, "created_at" | "id">;
+
+export const LETTERS_PAGE_SIZE = 15;
+
+// Columnas de la carta (sin image_url) más sus fotos, reacciones, lecturas y el mensaje si estuvo
+// sellada; todas las consultas de cartas usan esta selección
+export const LETTER_SELECT = `
+  id, author, author_id, couple_id, created_at, deleted_at, edited_at, format_version, image_path,
+  message, parent_id, reply_count, thumbnail_path, unlock_at,
+  letter_media(*), letter_reactions(*), letter_reads(*), sealed_letter_messages(message)
+`;
+
+export const lettersQueryKey = ["love_letters", "feed"] as const;
+
+export const toCursor = (letter: LoveLetter): LetterCursor => ({
+  created_at: letter.created_at,
+  id: letter.id,
+});
+
+// Los valores van entre comillas porque los timestamps llevan caracteres especiales para PostgREST
+const quote = (value: string) => `"${value}"`;
+
+/**
+ * Trae una página de cartas anteriores al cursor (o las más recientes si no hay cursor).
+ */
+export const fetchLetterPage = async (cursor: LetterCursor | null) => {
+  let query = supabase
+    .from("love_letters")
+    .select(LETTER_SELECT)
+    .is("deleted_at", null)
+    .is("parent_id", null)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .order("position", { referencedTable: "letter_media" })
+    .limit(LETTERS_PAGE_SIZE);
+
+  if (cursor) {
+    query = query.or(
+      `created_at.lt.${quote(cursor.created_at)},and(created_at.eq.${quote(cursor.created_at)},id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Trae solo las cartas más nuevas que el cursor, ordenadas de la más reciente a la más antigua.
+ */
+export const fetchNewerLetters = async (cursor: LetterCursor) => {
+  const { data, error } = await supabase
+    .from("love_letters")
+    .select(LETTER_SELECT)
+    .is("deleted_at", null)
+    .is("parent_id", null)
+    .or(
+      `created_at.gt.${quote(cursor.created_at)},and(created_at.eq.${quote(cursor.created_at)},id.gt.${cursor.id})`
+    )
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .order("position", { referencedTable: "letter_media" });
+
+  if (error) throw error;
+  return data;
+};
+
+export const letterQueryKey = (id: string) => ["love_letters", "letter", id] as const;
+
+export const fetchLetter = async (id: string) => {
+  const { data, error } = await supabase
+    .from("love_letters")
+    .select(LETTER_SELECT)
+    .eq("id", id)
+    .order("position", { referencedTable: "letter_media" })
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const repliesQueryKey = (letterId: string) =>
+  ["love_letters", "replies", letterId] as const;
+
+// Respuestas de una carta, de la más antigua a la más nueva como en una conversación
+export const fetchReplies = async (letterId: string) => {
+  const { data, error } = await supabase
+    .from("love_letters")
+    .select(LETTER_SELECT)
+    .eq("parent_id", letterId)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: true })
+    .order("position", { referencedTable: "letter_media" });
+
+  if (error) throw error;
+  return data;
+};
+
+export const letterRevisionsQueryKey = (letterId: string) =>
+  ["love_letters", "revisions", letterId] as const;
+
+export const updateLetter = async (id: string, changes: LetterUpdate) => {
+  const { data, error } = await supabase
+    .from("love_letters")
+    .update(changes)
+    .eq("id", id)
+    .select(LETTER_SELECT)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Borrado suave: la carta se oculta del feed pero se puede recuperar con restoreLetter
+export const softDeleteLetter = (id: string) =>
+  updateLetter(id, { deleted_at: new Date().toISOString() });
+
+export const restoreLetter = (id: string) => updateLetter(id, { deleted_at: null });
+
+export const fetchLetterRevisions = async (letterId: string) => {
+  const { data, error } = await supabase
+    .from("letter_revisions")
+    .select("*")
+    .eq("letter_id", letterId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+// Se comparan como fechas porque Realtime y PostgREST no siempre formatean igual el timestamp
+const isNewerOrEqual = (a: LetterCursor, b: LetterCursor) => {
+  const diff = Date.parse(a.created_at) - Date.parse(b.created_at);
+  return diff > 0 || (diff === 0 && a.id >= b.id);
+};
+
+/**
+ * Inserta o reemplaza una carta dentro de las páginas cargadas. Si la carta ya está
+ * se actualiza en su lugar; si no, se inserta en su posición según la fecha siempre
+ * que caiga dentro del rango ya cargado (las más antiguas aparecerán al paginar).
+ * Las cartas borradas se quitan.
+ */
+export const upsertLetterInPages = (pages: LoveLetter[][], letter: LoveLetter) => {
+  if (letter.deleted_at) return removeLetterFromPages(pages, letter.id);
+
+  let found = false;
+  const updated = pages.map((page) =>
+    page.map((item) => {
+      if (item.id !== letter.id) return item;
+      found = true;
+      return letter;
+    })
+  );
+  if (found) return updated;
+
+  if (pages.length === 0 || pages[0].length === 0) return [[letter], ...pages.slice(1)];
+
+  const cursor = toCursor(letter);
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    const page = pages[pageIndex];
+    const index = page.findIndex((item) => isNewerOrEqual(cursor, toCursor(item)));
+    if (index !== -1) {
+      return pages.map((items, i) =>
+        i === pageIndex ? [...items.slice(0, index), letter, ...items.slice(index)] : items
+      );
+    }
+  }
+  return pages;
+};
+
+export const findLetterInPages = (pages: LoveLetter[][], id: string) =>
+  pages.flat().find((item) => item.id === id);
+
+export const removeLetterFromPages = (pages: LoveLetter[][], id: string) =>
+  pages.map((page) => page.filter((item) => item.id !== id));
+
+/**
+ * Mensaje de la carta. Las que se escribieron selladas lo guardan aparte hasta que se
+ * editan ya abiertas; si la fila trae mensaje, es el más nuevo.
+ */
+export const getLetterMessage = (letter: LoveLetter) =>
+  letter.message || letter.sealed_letter_messages?.message || "";
+
+export type LetterPhoto = {
+  key: string;
+  path: string | null;
+  thumbnailPath: string | null;
+};
+
+/**
+ * Fotos de la carta en el orden de la galería. Las cartas escritas antes de
+ * letter_media tienen una sola foto en image_path.
+ */
+export const getLetterPhotos = (letter: LoveLetter): LetterPhoto[] => {
+  const media = (letter.letter_media ?? [])
+    .filter((item) => item.kind === "image")
+    .sort((a, b) => a.position - b.position);
+
+  if (media.length > 0) {
+    return media.map((item) => ({
+      key: item.id,
+      path: item.path,
+      thumbnailPath: item.thumbnail_path,
+    }));
+  }
+
+  if (letter.image_path) {
+    return [{ key: letter.id, path: letter.image_path, thumbnailPath: letter.thumbnail_path }];
+  }
+  return [];
+};
+
+export type LetterVideo = {
+  key: string;
+  path: string;
+  posterPath: string | null;
+  durationMs: number | null;
+};
+
+export const getLetterVideos = (letter: LoveLetter): LetterVideo[] =>
+  (letter.letter_media ?? [])
+    .filter((item) => item.kind === "video")
+    .sort((a, b) => a.position - b.position)
+    .map((item) => ({
+      key: item.id,
+      path: item.path,
+      posterPath: item.thumbnail_path,
+      durationMs: item.duration_ms,
+    }));
+
+export type LetterVoiceNote = {
+  key: string;
+  path: string;
+  trimStartMs: number;
+  durationMs: number;
+  waveform: number[];
+};
+
+// Nota de voz de la carta (como mucho una)
+export const getLetterVoiceNote = (letter: LoveLetter): LetterVoiceNote | null => {
+  const audio = (letter.letter_media ?? []).find((item) => item.kind === "audio");
+  if (!audio) return null;
+
+  return {
+    key: audio.id,
+    path: audio.path,
+    trimStartMs: audio.trim_start_ms,
+    durationMs: audio.duration_ms ?? 0,
+    waveform: audio.waveform ?? [],
+  };
+};
@@ -0,0 +1,139 @@
+import * as FileSystem from "expo-file-system";
+import * as Crypto from "expo-crypto";
+import type { TablesUpdate } from "../integrations/supabase/types";
+import { getProvider, MusicProvider } from "./music-providers";
+
+// Lo que se guarda en music_playlists de cada enlace
+export type MusicMetadata = {
+  title: string | null;
+  authorName: string | null;
+  coverUrl: string | null;
+  // Solo en playlists y álbumes, cuando el servicio la publica
+  trackCount: number | null;
+};
+
+type MusicSource = { provider: string; url: string };
+
+// Apple Music no tiene oEmbed público; de sus enlaces se leen las etiquetas de la página
+const OEMBED_ENDPOINTS: Partial<Record<MusicProvider, string>> = {
+  spotify: "https://open.spotify.com/oembed",
+  youtube: "https://www.youtube.com/oembed",
+  soundcloud: "https://soundcloud.com/oembed",
+};
+
+const fetchOEmbed = async (source: MusicSource) => {
+  const endpoint = OEMBED_ENDPOINTS[getProvider(source)];
+  if (!endpoint) return null;
+
+  const response = await fetch(`${endpoint}?format=json&url=${encodeURIComponent(source.url)}`);
+  if (!response.ok) throw new Error(`oEmbed request failed with status ${response.status}`);
+
+  const data = await response.json();
+  return {
+    title: (data.title as string | undefined) ?? null,
+    authorName: (data.author_name as string | undefined) ?? null,
+    thumbnailUrl: (data.thumbnail_url as string | undefined) ?? null,
+  };
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+// Contenido de <meta property|name="key" content="..."> sin importar el orden de los atributos
+const metaContent = (html: string, key: string) => {
+  const escaped = key.replace(/[.:]/g, "\\$&");
+  const match =
+    html.match(new RegExp(`<meta[^>]+(?:property|name)=["']${escaped}["'][^>]*content=["']([^"']*)["']`, "i")) ??
+    html.match(new RegExp(`<meta[^>]+content=["']([^"']*)["'][^>]*(?:property|name)=["']${escaped}["']`, "i"));
+  return match ? decodeEntities(match[1]) : null;
+};
+
+const parseCount = (value: string | null | undefined) => {
+  if (!value) return null;
+  const count = parseInt(value.replace(/[.,\s]/g, ""), 10);
+  return Number.isNaN(count) ? null : count;
+};
+
+/**
+ * Título, portada y cantidad de canciones según las etiquetas de la página del enlace.
+ * Spotify publica music:song_count; Apple Music lo dice en la descripción ("Álbum · 2020 · 12 canciones")
+ * y SoundCloud lo trae en los datos de la página.
+ */
+const fetchPageMetadata = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Page request failed with status ${response.status}`);
+  const html = await response.text();
+
+  const description = metaContent(html, "og:description");
+  const trackCount =
+    parseCount(metaContent(html, "music:song_count")) ??
+    parseCount(description?.match(/(\d[\d.,]*)\s+(?:songs|canciones|tracks|items|elementos)\b/i)?.[1]) ??
+    parseCount(html.match(/"track_count":\s*(\d+)/)?.[1]);
+
+  return {
+    title: metaContent(html, "og:title"),
+    coverUrl: metaContent(html, "og:image"),
+    trackCount,
+  };
+};
+
+// Nunca falla: lo que no se pudo obtener queda en null
+export const fetchMusicMetadata = async (source: MusicSource): Promise<MusicMetadata> => {
+  const [oembed, page] = await Promise.all([
+    fetchOEmbed(source).catch((error) => {
+      console.error("Error fetching oEmbed:", error);
+      return null;
+    }),
+    fetchPageMetadata(source.url).catch((error) => {
+      console.error("Error fetching page metadata:", error);
+      return null;
+    }),
+  ]);
+
+  return {
+    title: oembed?.title ?? page?.title ?? null,
+    authorName: oembed?.authorName ?? null,
+    coverUrl: oembed?.thumbnailUrl ?? page?.coverUrl ?? null,
+    trackCount: page?.trackCount ?? null,
+  };
+};
+
+export const hasMusicMetadata = (metadata: MusicMetadata) =>
+  Object.values(metadata).some((value) => value !== null);
+
+// Columnas de music_playlists con los datos obtenidos
+export const metadataColumns = (metadata: MusicMetadata): TablesUpdate<"music_playlists"> => ({
+  title: metadata.title,
+  author_name: metadata.authorName,
+  cover_url: metadata.coverUrl,
+  track_count: metadata.trackCount,
+  metadata_updated_at: new Date().toISOString(),
+});
+
+// Portadas descargadas en el dispositivo; si el sistema borra la carpeta se vuelven a descargar
+const COVERS_DIR = `${FileSystem.cacheDirectory}music-covers/`;
+
+/**
+ * Copia local de la portada, para que las tarjetas no la vuelvan a pedir al servicio cada vez.
+ * Si no se puede descargar se usa el enlace remoto.
+ */
+export const getCachedCoverUri = async (coverUrl: string) => {
+  const name = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA1, coverUrl);
+  const fileUri = `${COVERS_DIR}${name}.jpg`;
+  if ((await FileSystem.getInfoAsync(fileUri)).exists) return fileUri;
+
+  try {
+    await FileSystem.makeDirectoryAsync(COVERS_DIR, { intermediates: true });
+    const { status } = await FileSystem.downloadAsync(coverUrl, fileUri);
+    if (status === 200) return fileUri;
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+  } catch (error) {
+    console.error("Error caching cover:", error);
+  }
+  return coverUrl;
+};
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MusicLink, parseMusicUrl, resolveMusicUrl } from "./music-providers";
+
+describe("parseMusicUrl", () => {
+  it.each<[string, string, MusicLink]>([
+    [
+      "playlist de Spotify",
+      "https://open.spotify.com/intl-es/playlist/37i9dQZF1DX76t638V6CA8?si=abc",
+      {
+        provider: "spotify",
+        externalId: "playlist:37i9dQZF1DX76t638V6CA8",
+        url: "https://open.spotify.com/playlist/37i9dQZF1DX76t638V6CA8",
+      },
+    ],
+    [
+      "video de YouTube",
+      "https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42",
+      { provider: "youtube", externalId: "video:dQw4w9WgXcQ", url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" },
+    ],
+    [
+      "youtu.be",
+      "youtu.be/dQw4w9WgXcQ",
+      { provider: "youtube", externalId: "video:dQw4w9WgXcQ", url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" },
+    ],
+    [
+      "playlist de YouTube Music",
+      "https://music.youtube.com/playlist?list=PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI",
+      {
+        provider: "youtube",
+        externalId: "playlist:PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI",
+        url: "https://music.youtube.com/playlist?list=PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI",
+      },
+    ],
+    [
+      "canción de un álbum de Apple Music",
+      "https://music.apple.com/MX/album/un-verano-sin-ti/1622045624?i=1622045625",
+      {
+        provider: "apple_music",
+        externalId: "song:1622045625",
+        url: "https://music.apple.com/mx/album/un-verano-sin-ti/1622045624?i=1622045625",
+      },
+    ],
+    [
+      "playlist de SoundCloud",
+      "https://m.soundcloud.com/artista/sets/favoritas?si=123",
+      {
+        provider: "soundcloud",
+        externalId: "playlist:artista/sets/favoritas",
+        url: "https://soundcloud.com/artista/sets/favoritas",
+      },
+    ],
+  ])("reconoce %s", (_name, input, link) => {
+    expect(parseMusicUrl(input)).toEqual({ ok: true, link });
+  });
+
+  it.each([
+    ["vacío", "  ", "Pega el enlace"],
+    ["de otro servicio", "https://tidal.com/browse/track/123", "no es de Spotify, YouTube, Apple Music ni SoundCloud"],
+    ["de YouTube sin video", "https://www.youtube.com/feed/trending", "no se puede reproducir aquí"],
+    ["de YouTube con id corto", "https://www.youtube.com/watch?v=abc", "parece incompleto"],
+    ["de Apple Music sin id", "https://music.apple.com/us/album", "parece incompleto"],
+    ["corto de SoundCloud", "https://on.soundcloud.com/AbCd", "se tienen que abrir primero"],
+    // decodeURIComponent falla con estos escapes; el parser no debe lanzar
+    ["de YouTube con % suelto", "https://www.youtube.com/watch?v=%", "caracteres que no se entienden"],
+    ["de YouTube con escape inválido", "https://www.youtube.com/playlist?list=%zz", "caracteres que no se entienden"],
+    ["de Apple Music con escape inválido", "https://music.apple.com/us/album/x/123?i=%E0%A4%A", "caracteres que no se entienden"],
+    ["de SoundCloud con escape inválido", "https://soundcloud.com/artista/cancion?in=%", "caracteres que no se entienden"],
+  ])("rechaza un enlace %s", (_name, input, message) => {
+    const result = parseMusicUrl(input);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toContain(message);
+  });
+});
+
+describe("resolveMusicUrl", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("rechaza un escape inválido sin pedir nada", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const result = await resolveMusicUrl("https://www.youtube.com/watch?v=%");
+    expect(result.ok).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rechaza un enlace corto de SoundCloud que lleva a un escape inválido", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => ({ url: "https://soundcloud.com/artista/cancion?in=%" }) as Response)
+    );
+    const result = await resolveMusicUrl("https://on.soundcloud.com/AbCd");
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  canonicalSpotifyUrl,
+  parseSpotifyUrl,
+  resolveSpotifyUrl,
+  spotifyEmbedUrl,
+  SpotifyParseResult,
+} from "./spotify";
+
+export const MUSIC_PROVIDERS = ["spotify", "youtube", "apple_music", "soundcloud"] as const;
+
+export type MusicProvider = (typeof MUSIC_PROVIDERS)[number];
+
+export const MUSIC_PROVIDER_NAMES: Record<MusicProvider, string> = {
+  spotify: "Spotify",
+  youtube: "YouTube",
+  apple_music: "Apple Music",
+  soundcloud: "SoundCloud",
+};
+
+// Alto del reproductor de cada servicio
+export const MUSIC_EMBED_HEIGHTS: Record<MusicProvider, number> = {
+  spotify: 380,
+  youtube: 220,
+  apple_music: 450,
+  soundcloud: 300,
+};
+
+// Enlace reconocido, tal como se guarda en music_playlists (provider, external_id, url)
+export type MusicLink = {
+  provider: MusicProvider;
+  // Qué se comparte dentro del servicio, por ejemplo "playlist:37i9dQZF1DX76t638V6CA8"
+  externalId: string;
+  // Enlace canónico, sin parámetros de seguimiento
+  url: string;
+};
+
+export type MusicParseResult = { ok: true; link: MusicLink } | { ok: false; error: string };
+
+type MusicSource = { provider: string; external_id: string; url: string };
+
+const fail = (error: string): MusicParseResult => ({ ok: false, error });
+
+const PROVIDER_URLS: [MusicProvider, RegExp][] = [
+  ["spotify", /^(?:spotify:|(?:https?:\/\/)?(?:(?:open|play)\.spotify\.com|spotify\.link|spotify\.app\.link)\/)/i],
+  ["youtube", /^(?:https?:\/\/)?(?:(?:www|m|music)\.)?(?:youtube\.com|youtu\.be)\//i],
+  ["apple_music", /^(?:https?:\/\/)?(?:embed\.)?music\.apple\.com\//i],
+  ["soundcloud", /^(?:https?:\/\/)?(?:(?:www|m|on)\.)?soundcloud\.com\//i],
+];
+
+const detectProvider = (value: string) =>
+  PROVIDER_URLS.find(([, pattern]) => pattern.test(value))?.[0] ?? null;
+
+export const isMusicProvider = (value: string): value is MusicProvider =>
+  (MUSIC_PROVIDERS as readonly string[]).includes(value);
+
+// Las filas guardadas antes de que hubiera otros servicios son todas de Spotify
+export const getProvider = (source: { provider: string }): MusicProvider =>
+  isMusicProvider(source.provider) ? source.provider : "spotify";
+
+// decodeURIComponent falla con escapes mal formados, como "%" o "%zz"
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Ruta y parámetros de un enlace; el URL de React Native no separa las partes de la dirección.
+ * Devuelve null si algún parámetro no se puede decodificar.
+ */
+const splitUrl = (value: string) => {
+  const match = value.match(/^(?:https?:\/\/)?[^/?#]+\/?([^?#]*)(?:\?([^#]*))?/);
+  const params = new Map<string, string>();
+  for (const pair of match?.[2]?.split("&") ?? []) {
+    const [key, param = ""] = pair.split("=");
+    if (!key) continue;
+    const decoded = decodeParam(param);
+    if (decoded === null) return null;
+    params.set(key, decoded);
+  }
+  return { segments: (match?.[1] ?? "").split("/").filter(Boolean), params };
+};
+
+const MALFORMED_LINK = "El enlace tiene caracteres que no se entienden. Cópialo de nuevo desde la app.";
+
+const fromSpotify = (parsed: SpotifyParseResult): MusicParseResult =>
+  parsed.ok
+    ? {
+        ok: true,
+        link: {
+          provider: "spotify",
+          externalId: `${parsed.link.type}:${parsed.link.id}`,
+          url: canonicalSpotifyUrl(parsed.link),
+        },
+      }
+    : parsed;
+
+const YOUTUBE_VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+const YOUTUBE_LIST_ID = /^[A-Za-z0-9_-]{10,}$/;
+
+// youtube.com/watch?v=, /playlist?list=, /shorts/, /embed/, /live/, youtu.be/ y music.youtube.com
+const parseYouTubeUrl = (value: string): MusicParseResult => {
+  const parts = splitUrl(value);
+  if (!parts) return fail(MALFORMED_LINK);
+  const { segments, params } = parts;
+  const isMusic = /^(?:https?:\/\/)?music\./i.test(value);
+  const host = isMusic ? "https://music.youtube.com" : "https://www.youtube.com";
+
+  let videoId: string | undefined;
+  if (/^(?:https?:\/\/)?youtu\.be\//i.test(value)) {
+    videoId = segments[0];
+  } else if (segments[0] === "watch") {
+    videoId = params.get("v");
+  } else if (["shorts", "embed", "live", "v"].includes(segments[0])) {
+    videoId = segments[1];
+  }
+
+  if (videoId) {
+    if (!YOUTUBE_VIDEO_ID.test(videoId)) {
+      return fail("El enlace de YouTube parece incompleto. Cópialo de nuevo desde YouTube.");
+    }
+    return {
+      ok: true,
+      link: { provider: "youtube", externalId: `video:${videoId}`, url: `${host}/watch?v=${videoId}` },
+    };
+  }
+
+  const listId = params.get("list");
+  if (segments[0] === "playlist" && listId) {
+    if (!YOUTUBE_LIST_ID.test(listId)) {
+      return fail("El enlace de YouTube parece incompleto. Cópialo de nuevo desde YouTube.");
+    }
+    return {
+      ok: true,
+      link: { provider: "youtube", externalId: `playlist:${listId}`, url: `${host}/playlist?list=${listId}` },
+    };
+  }
+
+  return fail("Ese enlace de YouTube no se puede reproducir aquí. Usa un video o una playlist.");
+};
+
+const APPLE_MUSIC_TYPES = ["album", "playlist", "song", "artist", "station", "music-video"];
+
+// music.apple.com/<país>/<tipo>/<nombre>/<id>; una canción dentro de un álbum lleva ?i=<id>
+const parseAppleMusicUrl = (value: string): MusicParseResult => {
+  const parts = splitUrl(value);
+  if (!parts) return fail(MALFORMED_LINK);
+  const { segments, params } = parts;
+  const [country, type, ...rest] = segments;
+  const id = rest[rest.length - 1];
+
+  if (!country || !/^[a-z]{2}$/i.test(country) || !type || !id) {
+    return fail("El enlace de Apple Music parece incompleto. Cópialo de nuevo desde Apple Music.");
+  }
+  if (!APPLE_MUSIC_TYPES.includes(type)) {
+    return fail(
+      "Ese enlace de Apple Music no se puede reproducir aquí. Usa una canción, álbum, playlist, artista o estación."
+    );
+  }
+
+  const songId = type === "album" ? params.get("i") : undefined;
+  const path = [country.toLowerCase(), type, ...rest].join("/");
+  return {
+    ok: true,
+    link: {
+      provider: "apple_music",
+      externalId: songId ? `song:${songId}` : `${type}:${id}`,
+      url: `https://music.apple.com/${path}${songId ? `?i=${songId}` : ""}`,
+    },
+  };
+};
+
+const SOUNDCLOUD_SHORT_LINK = /^(?:https?:\/\/)?on\.soundcloud\.com\//i;
+// Secciones de soundcloud.com que no son de un perfil
+const SOUNDCLOUD_RESERVED = ["discover", "search", "stream", "you", "charts", "upload", "feed"];
+
+// soundcloud.com/<perfil>/<canción> o soundcloud.com/<perfil>/sets/<playlist>
+const parseSoundCloudUrl = (value: string): MusicParseResult => {
+  if (SOUNDCLOUD_SHORT_LINK.test(value)) {
+    return fail("Los enlaces cortos de SoundCloud se tienen que abrir primero para saber a dónde llevan.");
+  }
+
+  const parts = splitUrl(value);
+  if (!parts) return fail(MALFORMED_LINK);
+  const [user, second, third] = parts.segments;
+  if (!user || SOUNDCLOUD_RESERVED.includes(user.toLowerCase()) || !second) {
+    return fail("Ese enlace de SoundCloud no se puede reproducir aquí. Usa una canción o una playlist.");
+  }
+
+  const isSet = second === "sets";
+  if (isSet && !third) {
+    return fail("El enlace de SoundCloud parece incompleto. Cópialo de nuevo desde SoundCloud.");
+  }
+
+  const path = isSet ? `${user}/sets/${third}` : `${user}/${second}`;
+  return {
+    ok: true,
+    link: {
+      provider: "soundcloud",
+      externalId: `${isSet ? "playlist" : "track"}:${path}`,
+      url: `https://soundcloud.com/${path}`,
+    },
+  };
+};
+
+/**
+ * Reconoce enlaces de Spotify, YouTube (y YouTube Music), Apple Music y SoundCloud.
+ * Los enlaces cortos (spotify.link, on.soundcloud.com) necesitan resolveMusicUrl.
+ */
+export const parseMusicUrl = (input: string): MusicParseResult => {
+  const value = input.trim();
+  if (!value) return fail("Pega el enlace de la canción o playlist.");
+
+  switch (detectProvider(value)) {
+    case "spotify":
+      return fromSpotify(parseSpotifyUrl(value));
+    case "youtube":
+      return parseYouTubeUrl(value);
+    case "apple_music":
+      return parseAppleMusicUrl(value);
+    case "soundcloud":
+      return parseSoundCloudUrl(value);
+    default:
+      return fail("Ese enlace no es de Spotify, YouTube, Apple Music ni SoundCloud.");
+  }
+};
+
+// Sigue un enlace corto de SoundCloud hasta la canción o playlist
+const resolveSoundCloudShortLink = async (value: string): Promise<MusicParseResult> => {
+  try {
+    const response = await fetch(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    const parsed = parseSoundCloudUrl(response.url);
+    if (parsed.ok) return parsed;
+    return fail("No encontramos a dónde lleva ese enlace corto. Pega el enlace completo de SoundCloud.");
+  } catch (error) {
+    console.error("Error resolving SoundCloud short link:", error);
+    return fail("No se pudo abrir el enlace corto. Revisa tu conexión o pega el enlace completo de SoundCloud.");
+  }
+};
+
+// Como parseMusicUrl, pero también sigue los enlaces cortos hasta el enlace completo
+export const resolveMusicUrl = async (input: string): Promise<MusicParseResult> => {
+  const value = input.trim();
+  const provider = detectProvider(value);
+
+  if (provider === "spotify") return fromSpotify(await resolveSpotifyUrl(value));
+  if (provider === "soundcloud" && SOUNDCLOUD_SHORT_LINK.test(value)) {
+    return resolveSoundCloudShortLink(value);
+  }
+  return parseMusicUrl(value);
+};
+
+// Tipo e id de lo compartido; external_id tiene la forma "<tipo>:<id>"
+const splitExternalId = (externalId: string) => {
+  const separator = externalId.indexOf(":");
+  return { type: externalId.slice(0, separator), id: externalId.slice(separator + 1) };
+};
+
+export const getMusicEmbedUrl = (source: MusicSource) => {
+  const { type, id } = splitExternalId(source.external_id);
+
+  switch (getProvider(source)) {
+    case "spotify": {
+      // Filas viejas con un external_id que no se pudo reconocer: se usa el enlace tal cual
+      const parsed = parseSpotifyUrl(source.url);
+      return parsed.ok ? spotifyEmbedUrl(parsed.link) : source.url;
+    }
+    case "youtube":
+      return type === "playlist"
+        ? `https://www.youtube.com/embed/videoseries?list=${id}`
+        : `https://www.youtube.com/embed/${id}`;
+    case "apple_music":
+      return source.url.replace("https://music.apple.com/", "https://embed.music.apple.com/");
+    case "soundcloud":
+      return `https://w.soundcloud.com/player/?url=${encodeURIComponent(source.url)}&visual=true`;
+  }
+};
+
+/**
+ * Enlace para abrir en la app del servicio. Spotify tiene su propio esquema; el resto abre
+ * su app desde el enlace web cuando está instalada (y si no, en el navegador).
+ */
+export const getMusicAppUrl = (source: MusicSource) => {
+  if (getProvider(source) === "spotify") {
+    const parsed = parseSpotifyUrl(source.url);
+    if (parsed.ok) return `spotify:${parsed.link.type}:${parsed.link.id}`;
+  }
+  return null;
+};
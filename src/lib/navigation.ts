@@ -0,0 +1,93 @@
+import {
+  CommonActions,
+  createNavigationContainerRef,
+  LinkingOptions,
+  StackActions,
+} from "@react-navigation/native";
+import * as Linking from "expo-linking";
+
+export type Section = "home" | "music" | "diary" | "feed";
+
+export type RootStackParamList = {
+  SignIn: undefined;
+  CoupleSetup: undefined;
+  Home: undefined;
+  Music: undefined;
+  Diary: undefined;
+  // letterId: carta a la que desplazarse al abrir el feed (por ejemplo, desde un aviso)
+  Feed: { letterId?: string } | undefined;
+  Letter: { id: string };
+  Playlist: { id: string };
+  NotFound: undefined;
+};
+
+type SectionRoute = "Home" | "Music" | "Diary" | "Feed";
+
+export const SECTION_ROUTES: Record<Section, SectionRoute> = {
+  home: "Home",
+  music: "Music",
+  diary: "Diary",
+  feed: "Feed",
+};
+
+// Sección que se marca en la barra de abajo para cada pantalla; las que no están no muestran la barra
+const ROUTE_SECTIONS: Partial<Record<keyof RootStackParamList, Section>> = {
+  Music: "music",
+  Diary: "diary",
+  Feed: "feed",
+  Letter: "feed",
+  Playlist: "music",
+};
+
+export const getRouteSection = (routeName: string | undefined) =>
+  routeName ? ROUTE_SECTIONS[routeName as keyof RootStackParamList] ?? null : null;
+
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL("/")],
+  config: {
+    // Al abrir un enlace directo, atrás vuelve al inicio en lugar de salir de la app
+    initialRouteName: "Home",
+    screens: {
+      Home: "",
+      Music: "music",
+      Diary: "diary",
+      Feed: "feed",
+      Letter: "letter/:id",
+      Playlist: "playlist/:id",
+      NotFound: "*",
+    },
+  },
+};
+
+/**
+ * Cambia de sección como lo haría una barra de pestañas: la pila queda siempre como
+ * Inicio → sección (→ detalle), así el botón atrás de Android vuelve al inicio.
+ */
+export const goToSection = <Route extends SectionRoute>(
+  route: Route,
+  params?: RootStackParamList[Route]
+) => {
+  if (!navigationRef.isReady()) return;
+
+  const state = navigationRef.getRootState();
+  if (route === "Home") {
+    if (state.routes.some((item) => item.name === "Home")) {
+      navigationRef.dispatch(StackActions.popTo("Home"));
+    }
+    return;
+  }
+
+  if (state.routes.some((item) => item.name === route)) {
+    navigationRef.dispatch(StackActions.popTo(route, params));
+    return;
+  }
+
+  navigationRef.dispatch(
+    CommonActions.reset({
+      index: 1,
+      routes: [{ name: "Home" }, { name: route, params }],
+    })
+  );
+};
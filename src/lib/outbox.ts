@@ -0,0 +1,400 @@
+import * as FileSystem from "expo-file-system";
+import * as Crypto from "expo-crypto";
+import NetInfo from "@react-native-community/netinfo";
+import { supabase } from "../integrations/supabase/client";
+import type { TablesInsert } from "../integrations/supabase/types";
+import { uploadLetterPhoto } from "./letter-images";
+import { PreparedVideo, uploadLetterVideo } from "./letter-videos";
+import { uploadVoiceNote, VoiceNote } from "./voice-notes";
+
+export type OutboxStatus = "pending" | "sending" | "failed";
+
+export type OutboxPhoto = {
+  // Id de la fila en letter_media, generado en el dispositivo como el de la carta
+  id: string;
+  // Copia local de la foto dentro de la carpeta del outbox
+  uri: string;
+};
+
+export type OutboxVoiceNote = Omit<VoiceNote, "uri"> & {
+  id: string;
+  uri: string;
+};
+
+// Video ya comprimido; el archivo y su portada se copian a la carpeta del outbox
+export type OutboxVideo = PreparedVideo & {
+  id: string;
+};
+
+export type OutboxEntry = {
+  // Id de la carta generado en el dispositivo: es el mismo en cada reintento
+  id: string;
+  // Pareja de la cuenta que escribió la carta (carpeta de las fotos en Storage)
+  coupleId: string;
+  message: string;
+  // Versión del formato del mensaje (ver src/lib/rich-text.ts)
+  formatVersion: number;
+  author: string;
+  // Fotos en el orden de la galería
+  photos: OutboxPhoto[];
+  videos: OutboxVideo[];
+  voiceNote: OutboxVoiceNote | null;
+  // Fecha a partir de la cual se puede abrir la carta (null si se puede leer de inmediato)
+  unlockAt: string | null;
+  // Carta a la que responde (null si es una carta normal)
+  parentId: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+};
+
+export type NewOutboxLetter = {
+  coupleId: string;
+  message: string;
+  formatVersion: number;
+  author: string;
+  imageUris: string[];
+  videos: PreparedVideo[];
+  voiceNote: VoiceNote | null;
+  unlockAt: string | null;
+  parentId?: string | null;
+};
+
+// Las versiones anteriores guardaban una sola foto en imageUri y no tenían videos ni nota de voz
+type StoredOutboxEntry = Omit<OutboxEntry, "photos" | "videos" | "voiceNote"> & {
+  photos?: OutboxPhoto[];
+  videos?: OutboxVideo[];
+  imageUri?: string | null;
+  voiceNote?: OutboxVoiceNote | null;
+};
+
+const OUTBOX_DIR = `${FileSystem.documentDirectory}outbox/`;
+const OUTBOX_FILE = `${OUTBOX_DIR}outbox.json`;
+
+// Después de este número de intentos la carta queda como fallida hasta que se reintente a mano
+const MAX_AUTO_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+let entries: OutboxEntry[] = [];
+let loaded: Promise<void> | null = null;
+let processing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const backoffDelay = (attempts: number) =>
+  Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+const setEntries = async (next: OutboxEntry[]) => {
+  entries = next;
+  listeners.forEach((listener) => listener());
+  await FileSystem.writeAsStringAsync(OUTBOX_FILE, JSON.stringify(entries));
+};
+
+const updateEntry = (id: string, changes: Partial<OutboxEntry>) =>
+  setEntries(entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+
+const removeEntry = async (id: string) => {
+  const entry = entries.find((item) => item.id === id);
+  await setEntries(entries.filter((item) => item.id !== id));
+  const files = [
+    ...(entry?.photos ?? []).map((photo) => photo.uri),
+    ...(entry?.videos ?? []).flatMap((video) => [video.uri, video.posterUri]),
+    ...(entry?.voiceNote ? [entry.voiceNote.uri] : []),
+  ];
+  for (const uri of files) {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+};
+
+const loadOutbox = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      await FileSystem.makeDirectoryAsync(OUTBOX_DIR, { intermediates: true });
+      const info = await FileSystem.getInfoAsync(OUTBOX_FILE);
+      if (!info.exists) return;
+
+      try {
+        const stored: StoredOutboxEntry[] = JSON.parse(
+          await FileSystem.readAsStringAsync(OUTBOX_FILE)
+        );
+        // Si la app se cerró a mitad de un envío, la carta vuelve a quedar pendiente
+        // Las entradas guardadas por versiones anteriores no tienen todos los campos
+        entries = stored.map(({ imageUri, ...entry }) => ({
+          ...entry,
+          photos: entry.photos ?? (imageUri ? [{ id: entry.id, uri: imageUri }] : []),
+          formatVersion: entry.formatVersion ?? 0,
+          videos: entry.videos ?? [],
+          voiceNote: entry.voiceNote ?? null,
+          unlockAt: entry.unlockAt ?? null,
+          parentId: entry.parentId ?? null,
+          status: entry.status === "sending" ? "pending" : entry.status,
+        }));
+        listeners.forEach((listener) => listener());
+      } catch (error) {
+        console.error("Error leyendo el outbox:", error);
+      }
+    })();
+  }
+  return loaded;
+};
+
+const sendEntry = async (entry: OutboxEntry) => {
+  const media: TablesInsert<"letter_media">[] = [];
+  for (const [position, photo] of entry.photos.entries()) {
+    const paths = await uploadLetterPhoto(entry.coupleId, entry.id, photo.id, photo.uri);
+    media.push({ id: photo.id, letter_id: entry.id, position, ...paths });
+  }
+
+  for (const [position, video] of entry.videos.entries()) {
+    const paths = await uploadLetterVideo(entry.coupleId, entry.id, video.id, video);
+    media.push({
+      id: video.id,
+      letter_id: entry.id,
+      kind: "video",
+      position,
+      duration_ms: video.durationMs,
+      ...paths,
+    });
+  }
+
+  const { voiceNote } = entry;
+  if (voiceNote) {
+    const path = await uploadVoiceNote(entry.coupleId, entry.id, voiceNote.id, voiceNote.uri);
+    media.push({
+      id: voiceNote.id,
+      letter_id: entry.id,
+      kind: "audio",
+      path,
+      duration_ms: voiceNote.durationMs,
+      trim_start_ms: voiceNote.trimStartMs,
+      waveform: voiceNote.waveform,
+    });
+  }
+
+  // ignoreDuplicates: si un intento anterior sí llegó a insertar la carta, no se duplica.
+  // La pareja, el autor y la fecha los pone la base de datos: la carta queda con la hora en que llegó,
+  // no con la hora en que se escribió sin conexión
+  const { error } = await supabase.from("love_letters").upsert(
+    {
+      id: entry.id,
+      message: entry.message,
+      format_version: entry.formatVersion,
+      author: entry.author,
+      unlock_at: entry.unlockAt,
+      parent_id: entry.parentId,
+    },
+    { onConflict: "id", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+
+  if (media.length > 0) {
+    const { error: mediaError } = await supabase
+      .from("letter_media")
+      .upsert(media, { onConflict: "id", ignoreDuplicates: true });
+    if (mediaError) throw mediaError;
+  }
+};
+
+const attemptEntry = async (entry: OutboxEntry) => {
+  await updateEntry(entry.id, { status: "sending" });
+
+  try {
+    await sendEntry(entry);
+    await removeEntry(entry.id);
+    return true;
+  } catch (error) {
+    console.error(`Error enviando la carta ${entry.id}:`, error);
+    const attempts = entry.attempts + 1;
+    await updateEntry(entry.id, {
+      status: attempts >= MAX_AUTO_ATTEMPTS ? "failed" : "pending",
+      attempts,
+      nextAttemptAt: Date.now() + backoffDelay(attempts),
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const pending = entries.filter((entry) => entry.status === "pending");
+  if (pending.length === 0) return;
+
+  const next = Math.min(...pending.map((entry) => entry.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    processOutbox();
+  }, Math.max(next - Date.now(), 0));
+};
+
+/**
+ * Envía las cartas pendientes cuyo tiempo de espera ya pasó. Si no hay conexión
+ * no intenta nada: el listener de NetInfo vuelve a llamar cuando regrese.
+ */
+export const processOutbox = () => {
+  if (!processing) {
+    processing = (async () => {
+      await loadOutbox();
+      const { isConnected } = await NetInfo.fetch();
+      if (!isConnected) return;
+
+      // Sin sesión las políticas rechazarían el envío; se reintenta al volver a entrar
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) return;
+
+      const due = entries.filter(
+        (entry) => entry.status === "pending" && entry.nextAttemptAt <= Date.now()
+      );
+      for (const entry of due) {
+        await attemptEntry(entry);
+      }
+    })()
+      // Quien llama casi nunca espera el resultado: un error aquí (por ejemplo al leer el
+      // archivo o consultar la red) se registra para no dejar una promesa rechazada sin manejar
+      .catch((error) => console.error("Error procesando el outbox:", error))
+      .finally(() => {
+        processing = null;
+        scheduleRetry();
+      });
+  }
+  return processing;
+};
+
+/**
+ * Guarda la carta en el outbox (con una copia de sus fotos, videos y nota de voz)
+ * e intenta enviarla de inmediato.
+ * Devuelve true si la carta ya quedó guardada en Supabase.
+ */
+export const enqueueLetter = async ({
+  coupleId,
+  message,
+  formatVersion,
+  author,
+  imageUris,
+  videos,
+  voiceNote,
+  unlockAt,
+  parentId = null,
+}: NewOutboxLetter) => {
+  await loadOutbox();
+
+  const id = Crypto.randomUUID();
+  const photos: OutboxPhoto[] = [];
+  for (const uri of imageUris) {
+    const photoId = Crypto.randomUUID();
+    const localUri = `${OUTBOX_DIR}${photoId}.jpg`;
+    await FileSystem.copyAsync({ from: uri, to: localUri });
+    photos.push({ id: photoId, uri: localUri });
+  }
+
+  const outboxVideos: OutboxVideo[] = [];
+  for (const video of videos) {
+    const videoId = Crypto.randomUUID();
+    const localUri = `${OUTBOX_DIR}${videoId}.mp4`;
+    const posterUri = `${OUTBOX_DIR}${videoId}-poster.jpg`;
+    await FileSystem.copyAsync({ from: video.uri, to: localUri });
+    await FileSystem.copyAsync({ from: video.posterUri, to: posterUri });
+    outboxVideos.push({ ...video, id: videoId, uri: localUri, posterUri });
+  }
+
+  let outboxVoiceNote: OutboxVoiceNote | null = null;
+  if (voiceNote) {
+    const voiceNoteId = Crypto.randomUUID();
+    const localUri = `${OUTBOX_DIR}${voiceNoteId}.m4a`;
+    await FileSystem.copyAsync({ from: voiceNote.uri, to: localUri });
+    outboxVoiceNote = { ...voiceNote, id: voiceNoteId, uri: localUri };
+  }
+
+  await setEntries([
+    ...entries,
+    {
+      id,
+      coupleId,
+      message,
+      formatVersion,
+      author,
+      photos,
+      videos: outboxVideos,
+      voiceNote: outboxVoiceNote,
+      unlockAt,
+      parentId,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+    },
+  ]);
+
+  // Si ya había un envío en curso, esperar a que termine para que incluya esta carta
+  if (processing) await processing;
+  await processOutbox();
+  return !entries.some((entry) => entry.id === id);
+};
+
+// Reintento manual: reinicia el contador para volver a usar el backoff automático
+export const retryOutboxEntry = async (id: string) => {
+  await loadOutbox();
+  await updateEntry(id, { status: "pending", attempts: 0, nextAttemptAt: 0 });
+  await processOutbox();
+};
+
+export const discardOutboxEntry = async (id: string) => {
+  await loadOutbox();
+  await removeEntry(id);
+};
+
+/**
+ * Borra todas las cartas sin enviar y sus copias de fotos, videos y notas de voz.
+ * Se llama al cerrar sesión, para que la próxima cuenta no envíe las cartas de la anterior.
+ */
+export const clearOutbox = async () => {
+  await loadOutbox();
+  // Un envío en curso termina primero; sin sesión no empieza ninguno nuevo
+  if (processing) await processing;
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  entries = [];
+  listeners.forEach((listener) => listener());
+  await FileSystem.deleteAsync(OUTBOX_DIR, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(OUTBOX_DIR, { intermediates: true });
+};
+
+export const getOutboxEntries = () => entries;
+
+export const subscribeToOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Carga el outbox guardado y reintenta los envíos cada vez que vuelve la conexión.
+ * Se llama una vez al iniciar la app; devuelve la función para detenerlo.
+ */
+export const startOutbox = () => {
+  processOutbox();
+
+  const unsubscribe = NetInfo.addEventListener((state) => {
+    if (state.isConnected) {
+      processOutbox();
+    }
+  });
+
+  const { data: authListener } = supabase.auth.onAuthStateChange((event) => {
+    if (event === "SIGNED_IN") {
+      processOutbox();
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    authListener.subscription.unsubscribe();
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+};
@@ -0,0 +1,75 @@
+import { manipulateAsync, SaveFormat } from "expo-image-manipulator";
+
+export type CropRatio = {
+  key: string;
+  label: string;
+  // Ancho / alto; null conserva la proporción de la foto
+  value: number | null;
+};
+
+export const CROP_RATIOS: CropRatio[] = [
+  { key: "original", label: "Original", value: null },
+  { key: "square", label: "1:1", value: 1 },
+  { key: "landscape", label: "4:3", value: 4 / 3 },
+  { key: "portrait", label: "3:4", value: 3 / 4 },
+  { key: "wide", label: "16:9", value: 16 / 9 },
+  { key: "story", label: "9:16", value: 9 / 16 },
+];
+
+export type PhotoFilter = {
+  key: string;
+  label: string;
+  // Color que se pone encima de la foto; se guarda junto con ella al exportar
+  overlay: string | null;
+};
+
+export const PHOTO_FILTERS: PhotoFilter[] = [
+  { key: "none", label: "Original", overlay: null },
+  { key: "warm", label: "Cálido", overlay: "rgba(255, 160, 60, 0.2)" },
+  { key: "cool", label: "Frío", overlay: "rgba(60, 140, 255, 0.18)" },
+  { key: "rose", label: "Rosado", overlay: "rgba(255, 105, 180, 0.2)" },
+  { key: "lavender", label: "Lavanda", overlay: "rgba(147, 107, 199, 0.25)" },
+  { key: "sunset", label: "Atardecer", overlay: "rgba(159, 18, 57, 0.22)" },
+  { key: "faded", label: "Suave", overlay: "rgba(255, 255, 255, 0.25)" },
+];
+
+export const PHOTO_STICKERS = ["❤️", "💜", "💕", "💖", "💘", "🌹", "✨", "😘", "🥰", "💍"];
+
+export type PhotoSize = { width: number; height: number };
+
+/**
+ * Recorte centrado más grande posible con la proporción pedida.
+ */
+export const getCenteredCrop = ({ width, height }: PhotoSize, ratio: number) => {
+  const cropWidth = Math.min(width, Math.round(height * ratio));
+  const cropHeight = Math.min(height, Math.round(width / ratio));
+  return {
+    originX: Math.floor((width - cropWidth) / 2),
+    originY: Math.floor((height - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight,
+  };
+};
+
+// Tamaño de la foto después de girarla (en cuartos de vuelta)
+export const getRotatedSize = ({ width, height }: PhotoSize, rotation: number): PhotoSize =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * Gira y recorta la foto. Devuelve un archivo nuevo; el original no se toca.
+ */
+export const applyPhotoTransform = async (
+  uri: string,
+  size: PhotoSize,
+  { rotation, ratio }: { rotation: number; ratio: number | null }
+) => {
+  const rotated = getRotatedSize(size, rotation);
+  const actions = [
+    ...(rotation % 360 !== 0 ? [{ rotate: rotation }] : []),
+    ...(ratio ? [{ crop: getCenteredCrop(rotated, ratio) }] : []),
+  ];
+  if (actions.length === 0) return { uri, ...size };
+
+  const result = await manipulateAsync(uri, actions, { compress: 0.9, format: SaveFormat.JPEG });
+  return { uri: result.uri, width: result.width, height: result.height };
+};
@@ -0,0 +1,49 @@
+import { supabase } from "../integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "../integrations/supabase/types";
+
+export type MusicPlaylist = Tables<"music_playlists">;
+
+export const playlistsQueryKey = ["music_playlists"] as const;
+
+// Las playlists que todavía no llegan al servidor usan un id temporal con este prefijo
+export const PENDING_PLAYLIST_PREFIX = "pending-";
+
+export const fetchPlaylists = async () => {
+  const { data, error } = await supabase
+    .from("music_playlists")
+    .select("*")
+    .order("sort_order", { ascending: true })
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const addPlaylist = async (playlist: TablesInsert<"music_playlists">) => {
+  const { data, error } = await supabase.from("music_playlists").insert([playlist]).select().single();
+  if (error) throw error;
+  return data;
+};
+
+export const updatePlaylist = async (id: string, changes: TablesUpdate<"music_playlists">) => {
+  const { data, error } = await supabase
+    .from("music_playlists")
+    .update(changes)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deletePlaylist = async (id: string) => {
+  const { error } = await supabase.from("music_playlists").delete().eq("id", id);
+  if (error) throw error;
+};
+
+// ids en el orden en que deben quedar, de la primera a la última
+export const reorderPlaylists = async (ids: string[]) => {
+  const { error } = await supabase.rpc("reorder_music_playlists", { playlist_ids: ids });
+  if (error) throw error;
+};
@@ -0,0 +1,86 @@
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import * as Device from "expo-device";
+import Constants from "expo-constants";
+import { supabase } from "../integrations/supabase/client";
+
+// Adónde lleva un aviso al tocarlo; lo arman los triggers de love_letters y music_playlists
+export type NotificationTarget =
+  | { section: "feed"; letterId?: string }
+  | { section: "music"; playlistId?: string };
+
+// Token de este dispositivo, para poder borrarlo al cerrar sesión
+let registeredToken: string | null = null;
+
+// Con la app abierta los avisos se muestran igual, pero sin sonido
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Pide permiso, obtiene el token de Expo y lo guarda en push_tokens para la cuenta actual.
+ * Devuelve null en el simulador o si no se dio permiso.
+ */
+export const registerForPushNotifications = async () => {
+  if (!Device.isDevice) return null;
+
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync("default", {
+      name: "Cartas y playlists",
+      importance: Notifications.AndroidImportance.HIGH,
+      lightColor: "#7e1785",
+    });
+  }
+
+  let { status } = await Notifications.getPermissionsAsync();
+  if (status !== "granted") {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== "granted") return null;
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId;
+  const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+  // Si el dispositivo antes tenía otra cuenta, la función hace que el token pase a esta
+  const { error } = await supabase.rpc("register_push_token", {
+    push_token: token,
+    token_platform: Platform.OS === "ios" ? "ios" : "android",
+  });
+  if (error) throw error;
+
+  registeredToken = token;
+  return token;
+};
+
+// Se llama antes de cerrar sesión, mientras todavía se puede borrar la fila propia
+export const unregisterPushToken = async () => {
+  if (!registeredToken) return;
+
+  const { error } = await supabase.from("push_tokens").delete().eq("token", registeredToken);
+  if (error) throw error;
+  registeredToken = null;
+};
+
+// Valida el "data" del aviso: puede venir de una versión anterior o de una prueba manual
+export const getNotificationTarget = (
+  data: Record<string, unknown> | undefined
+): NotificationTarget | null => {
+  if (data?.section === "feed") {
+    return {
+      section: "feed",
+      letterId: typeof data.letterId === "string" ? data.letterId : undefined,
+    };
+  }
+  if (data?.section === "music") {
+    return {
+      section: "music",
+      playlistId: typeof data.playlistId === "string" ? data.playlistId : undefined,
+    };
+  }
+  return null;
+};
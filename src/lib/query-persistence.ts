@@ -0,0 +1,171 @@
+import { AppState } from "react-native";
+import * as FileSystem from "expo-file-system";
+import NetInfo from "@react-native-community/netinfo";
+import { dehydrate, DehydratedState, hydrate, onlineManager, QueryClient } from "@tanstack/react-query";
+
+const CACHE_FILE = `${FileSystem.documentDirectory}query-cache.json`;
+
+// Subir este número invalida las cachés guardadas con un formato anterior
+const CACHE_VERSION = 9;
+const CACHE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const WRITE_DELAY_MS = 1000;
+
+// Solo estas consultas se guardan en el dispositivo (el perfil y la pareja para poder abrir sin conexión)
+const PERSISTED_QUERY_ROOTS = ["love_letters", "music_playlists", "profile", "couple"];
+
+// Del feed paginado se guardan solo las primeras páginas para que el archivo no crezca sin límite
+const MAX_PERSISTED_PAGES = 3;
+
+type PersistedCache = {
+  version: number;
+  savedAt: number;
+  state: DehydratedState;
+};
+
+const isInfiniteData = (data: unknown): data is { pages: unknown[]; pageParams: unknown[] } =>
+  !!data &&
+  typeof data === "object" &&
+  Array.isArray((data as { pages?: unknown }).pages) &&
+  Array.isArray((data as { pageParams?: unknown }).pageParams);
+
+const trimInfiniteData = (state: DehydratedState): DehydratedState => ({
+  ...state,
+  queries: state.queries.map((query) => {
+    const data = query.state.data;
+    if (!isInfiniteData(data)) return query;
+    return {
+      ...query,
+      state: {
+        ...query.state,
+        data: {
+          pages: data.pages.slice(0, MAX_PERSISTED_PAGES),
+          pageParams: data.pageParams.slice(0, MAX_PERSISTED_PAGES),
+        },
+      },
+    };
+  }),
+});
+
+const isSealedLetter = (value: unknown): value is { unlock_at: string } => {
+  const unlockAt = (value as { unlock_at?: unknown } | null)?.unlock_at;
+  return typeof unlockAt === "string" && new Date(unlockAt).getTime() > Date.now();
+};
+
+// Quien escribió una carta sellada la recibe completa; en el archivo no se guarda su contenido
+const redactLetter = (value: unknown) =>
+  isSealedLetter(value)
+    ? { ...value, message: "", letter_media: [], sealed_letter_messages: null }
+    : value;
+
+const redactLetters = (data: unknown) => {
+  if (isInfiniteData(data)) {
+    return {
+      ...data,
+      pages: data.pages.map((page) => (Array.isArray(page) ? page.map(redactLetter) : page)),
+    };
+  }
+  return Array.isArray(data) ? data.map(redactLetter) : redactLetter(data);
+};
+
+const redactSealedLetters = (state: DehydratedState): DehydratedState => ({
+  ...state,
+  queries: state.queries.map((query) =>
+    query.queryKey[0] === "love_letters"
+      ? { ...query, state: { ...query.state, data: redactLetters(query.state.data) } }
+      : query
+  ),
+});
+
+const writeCache = async (queryClient: QueryClient) => {
+  const state = dehydrate(queryClient, {
+    shouldDehydrateQuery: (query) =>
+      query.state.status === "success" &&
+      PERSISTED_QUERY_ROOTS.includes(String(query.queryKey[0])),
+  });
+
+  const cache: PersistedCache = {
+    version: CACHE_VERSION,
+    savedAt: Date.now(),
+    state: redactSealedLetters(trimInfiniteData(state)),
+  };
+
+  try {
+    await FileSystem.writeAsStringAsync(CACHE_FILE, JSON.stringify(cache));
+  } catch (error) {
+    console.error("Error guardando la caché:", error);
+  }
+};
+
+/**
+ * Carga en el QueryClient las últimas cartas y playlists guardadas en el dispositivo.
+ * Los datos restaurados conservan su fecha original, así que React Query los
+ * revalida en segundo plano en cuanto haya conexión.
+ */
+export const restoreQueryCache = async (queryClient: QueryClient) => {
+  try {
+    const info = await FileSystem.getInfoAsync(CACHE_FILE);
+    if (!info.exists) return;
+
+    const cache: PersistedCache = JSON.parse(await FileSystem.readAsStringAsync(CACHE_FILE));
+    if (cache.version !== CACHE_VERSION || Date.now() - cache.savedAt > CACHE_MAX_AGE_MS) {
+      await FileSystem.deleteAsync(CACHE_FILE, { idempotent: true });
+      return;
+    }
+
+    hydrate(queryClient, cache.state);
+  } catch (error) {
+    console.error("Error restaurando la caché:", error);
+  }
+};
+
+// Al cerrar sesión no deben quedar cartas de la cuenta anterior en el dispositivo
+export const clearPersistedQueryCache = () =>
+  FileSystem.deleteAsync(CACHE_FILE, { idempotent: true });
+
+/**
+ * Guarda la caché en el dispositivo cada vez que cambian las consultas persistidas
+ * y al mandar la app a segundo plano. Devuelve la función para dejar de guardar.
+ */
+export const persistQueryCache = (queryClient: QueryClient) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleWrite = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      writeCache(queryClient);
+    }, WRITE_DELAY_MS);
+  };
+
+  const unsubscribeCache = queryClient.getQueryCache().subscribe((event) => {
+    if (
+      event.type === "updated" &&
+      PERSISTED_QUERY_ROOTS.includes(String(event.query.queryKey[0]))
+    ) {
+      scheduleWrite();
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener("change", (state) => {
+    if (state === "background" && timer) {
+      clearTimeout(timer);
+      timer = null;
+      writeCache(queryClient);
+    }
+  });
+
+  return () => {
+    unsubscribeCache();
+    appStateSubscription.remove();
+    if (timer) clearTimeout(timer);
+  };
+};
+
+// React Query pausa las consultas sin conexión y las reanuda cuando NetInfo avisa que volvió
+export const setupOnlineManager = () => {
+  onlineManager.setEventListener((setOnline) =>
+    NetInfo.addEventListener((state) => {
+      setOnline(!!state.isConnected);
+    })
+  );
+};
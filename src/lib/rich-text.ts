@@ -0,0 +1,183 @@
+/**
+ * Formato ligero para las cartas, parecido a Markdown pero con pocas reglas:
+ *
+ *   **negritas**   _cursivas_   # Título   ## Subtítulo   - lista   1. lista numerada
+ *
+ * El texto se guarda tal cual se escribe; se interpreta solo al mostrarlo y nunca
+ * se convierte en HTML ni en enlaces, así que cualquier texto es seguro de renderizar.
+ */
+
+export type LetterFormat = {
+  version: number;
+  maxLength: number;
+};
+
+// El largo máximo de cada versión debe coincidir con la restricción de love_letters
+export const LETTER_FORMATS: Record<number, LetterFormat> = {
+  0: { version: 0, maxLength: 1000 },
+  1: { version: 1, maxLength: 5000 },
+};
+
+// Formato con el que se escriben las cartas nuevas
+export const CURRENT_LETTER_FORMAT = LETTER_FORMATS[1];
+
+export const getLetterFormat = (version: number) => LETTER_FORMATS[version] ?? LETTER_FORMATS[0];
+
+export type InlineNode = {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+};
+
+export type RichTextBlock =
+  | { type: "heading"; level: 1 | 2; content: InlineNode[] }
+  | { type: "bullet"; content: InlineNode[] }
+  | { type: "numbered"; number: number; content: InlineNode[] }
+  | { type: "paragraph"; content: InlineNode[] }
+  | { type: "blank" };
+
+// Negritas o cursivas sin saltos de línea; los marcadores sin cerrar se muestran como texto
+const INLINE_PATTERN = /\*\*(.+?)\*\*|_(.+?)_/;
+
+const parseInline = (text: string, bold = false, italic = false): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ text: rest, bold, italic });
+      break;
+    }
+
+    if (match.index > 0) {
+      nodes.push({ text: rest.slice(0, match.index), bold, italic });
+    }
+    if (match[1] !== undefined) {
+      nodes.push(...parseInline(match[1], true, italic));
+    } else {
+      nodes.push(...parseInline(match[2], bold, true));
+    }
+    rest = rest.slice(match.index + match[0].length);
+  }
+
+  return nodes;
+};
+
+const HEADING_PATTERN = /^(#{1,2})\s+(.*)$/;
+const BULLET_PATTERN = /^[-•]\s+(.*)$/;
+const NUMBERED_PATTERN = /^(\d{1,3})[.)]\s+(.*)$/;
+
+/**
+ * Convierte el texto de una carta en bloques (una línea por bloque).
+ */
+export const parseRichText = (source: string): RichTextBlock[] =>
+  source.split(/\r?\n/).map((line): RichTextBlock => {
+    if (!line.trim()) return { type: "blank" };
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      return {
+        type: "heading",
+        level: heading[1].length === 1 ? 1 : 2,
+        content: parseInline(heading[2]),
+      };
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    if (bullet) return { type: "bullet", content: parseInline(bullet[1]) };
+
+    const numbered = NUMBERED_PATTERN.exec(line);
+    if (numbered) {
+      return { type: "numbered", number: Number(numbered[1]), content: parseInline(numbered[2]) };
+    }
+
+    return { type: "paragraph", content: parseInline(line) };
+  });
+
+// Texto sin marcadores, para vistas previas de una sola línea
+export const stripRichText = (source: string) =>
+  parseRichText(source)
+    .flatMap((block) =>
+      block.type === "blank" ? [] : [block.content.map((node) => node.text).join("")]
+    )
+    .join(" ");
+
+// Si el texto usa algún marcador; sin ellos se ve igual como texto plano que con formato
+export const usesRichText = (source: string) =>
+  parseRichText(source).some(
+    (block) =>
+      block.type !== "blank" &&
+      (block.type !== "paragraph" || block.content.some((node) => node.bold || node.italic))
+  );
+
+/**
+ * Versión con la que se guarda una carta editada: conserva la que tenía y solo pasa al
+ * formato actual si el texto nuevo usa formato o ya no entra en el largo de su versión.
+ */
+export const editedLetterFormatVersion = (currentVersion: number, message: string) =>
+  currentVersion >= CURRENT_LETTER_FORMAT.version ||
+  (!usesRichText(message) && message.length <= getLetterFormat(currentVersion).maxLength)
+    ? currentVersion
+    : CURRENT_LETTER_FORMAT.version;
+
+export type TextSelection = { start: number; end: number };
+
+export type EditResult = { text: string; selection: TextSelection };
+
+/**
+ * Envuelve la selección con un marcador (por ejemplo ** para negritas).
+ * Sin selección inserta el par de marcadores y deja el cursor en medio.
+ */
+export const wrapSelection = (
+  text: string,
+  selection: TextSelection,
+  marker: string
+): EditResult => {
+  const { start, end } = selection;
+  const selected = text.slice(start, end);
+
+  return {
+    text: text.slice(0, start) + marker + selected + marker + text.slice(end),
+    selection: {
+      start: start + marker.length,
+      end: end + marker.length,
+    },
+  };
+};
+
+/**
+ * Agrega un prefijo (título o viñeta) al inicio de cada línea tocada por la selección,
+ * o lo quita si todas las líneas ya lo tienen.
+ */
+export const toggleLinePrefix = (
+  text: string,
+  selection: TextSelection,
+  prefix: string
+): EditResult => {
+  const lineStart = selection.start === 0 ? 0 : text.lastIndexOf("\n", selection.start - 1) + 1;
+  const nextBreak = text.indexOf("\n", selection.end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+
+  const lines = text.slice(lineStart, lineEnd).split("\n");
+  const remove = lines.every((line) => line.startsWith(prefix));
+  const updated = lines.map((line) => (remove ? line.slice(prefix.length) : prefix + line));
+  const delta = (remove ? -prefix.length : prefix.length) * lines.length;
+
+  return {
+    text: text.slice(0, lineStart) + updated.join("\n") + text.slice(lineEnd),
+    selection: {
+      start: Math.max(lineStart, selection.start + (remove ? -prefix.length : prefix.length)),
+      end: Math.max(lineStart, selection.end + delta),
+    },
+  };
+};
+
+// Inserta texto (por ejemplo un emoji) en lugar de la selección
+export const insertText = (text: string, selection: TextSelection, value: string): EditResult => {
+  const position = selection.start + value.length;
+  return {
+    text: text.slice(0, selection.start) + value + text.slice(selection.end),
+    selection: { start: position, end: position },
+  };
+};
@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  canonicalSpotifyUrl,
+  isSpotifyShortLink,
+  parseSpotifyUrl,
+  resolveSpotifyUrl,
+  SpotifyLink,
+  spotifyEmbedUrl,
+} from "./spotify";
+
+const PLAYLIST_ID = "37i9dQZF1DX76t638V6CA8";
+const TRACK_ID = "4uLU6hMCjMI75M1A2tKUQC";
+
+describe("parseSpotifyUrl", () => {
+  it.each<[string, string, SpotifyLink]>([
+    ["enlace normal", `https://open.spotify.com/playlist/${PLAYLIST_ID}`, { type: "playlist", id: PLAYLIST_ID }],
+    ["sin https", `open.spotify.com/track/${TRACK_ID}`, { type: "track", id: TRACK_ID }],
+    ["http y play.spotify.com", `http://play.spotify.com/album/${TRACK_ID}`, { type: "album", id: TRACK_ID }],
+    ["con /intl-xx/", `https://open.spotify.com/intl-es/track/${TRACK_ID}`, { type: "track", id: TRACK_ID }],
+    ["con /intl-xx/ en mayúsculas", `https://open.spotify.com/INTL-PT/track/${TRACK_ID}`, { type: "track", id: TRACK_ID }],
+    ["con /embed/", `https://open.spotify.com/embed/playlist/${PLAYLIST_ID}`, { type: "playlist", id: PLAYLIST_ID }],
+    ["con /intl-xx/ y /embed/", `https://open.spotify.com/intl-de/embed/show/${PLAYLIST_ID}`, { type: "show", id: PLAYLIST_ID }],
+    ["con /user/x/", `https://open.spotify.com/user/spotify/playlist/${PLAYLIST_ID}`, { type: "playlist", id: PLAYLIST_ID }],
+    ["con ?si=", `https://open.spotify.com/track/${TRACK_ID}?si=a1b2c3d4e5f6`, { type: "track", id: TRACK_ID }],
+    ["con ?si= y más parámetros", `https://open.spotify.com/playlist/${PLAYLIST_ID}?si=abc&pt=def#top`, { type: "playlist", id: PLAYLIST_ID }],
+    ["con barra final", `https://open.spotify.com/artist/${TRACK_ID}/`, { type: "artist", id: TRACK_ID }],
+    ["tipo en mayúsculas", `https://open.spotify.com/Episode/${TRACK_ID}`, { type: "episode", id: TRACK_ID }],
+    ["con espacios alrededor", `  https://open.spotify.com/track/${TRACK_ID}\n`, { type: "track", id: TRACK_ID }],
+    ["URI", `spotify:track:${TRACK_ID}`, { type: "track", id: TRACK_ID }],
+    ["URI en mayúsculas", `SPOTIFY:album:${TRACK_ID}`, { type: "album", id: TRACK_ID }],
+    ["URI de playlist de usuario", `spotify:user:spotify:playlist:${PLAYLIST_ID}`, { type: "playlist", id: PLAYLIST_ID }],
+  ])("reconoce %s", (_name, input, link) => {
+    expect(parseSpotifyUrl(input)).toEqual({ ok: true, link });
+  });
+
+  it.each([
+    ["vacío", "", "Pega el enlace de Spotify."],
+    ["solo espacios", "   ", "Pega el enlace de Spotify."],
+    ["de otro sitio", `https://example.com/track/${TRACK_ID}`, "Ese enlace no es de Spotify."],
+    ["texto cualquiera", "mi playlist favorita", "Ese enlace no es de Spotify."],
+    ["dominio parecido", `https://open.spotify.com.evil.com/track/${TRACK_ID}`, "Ese enlace no es de Spotify."],
+    ["sin tipo ni id", "https://open.spotify.com/", "Al enlace le falta la parte que dice qué se comparte"],
+    ["sin id", "https://open.spotify.com/playlist", "Al enlace le falta la parte que dice qué se comparte"],
+    ["URI sin id", "spotify:track", "Al enlace le falta la parte que dice qué se comparte"],
+    ["tipo desconocido", `https://open.spotify.com/concert/${TRACK_ID}`, "no se puede reproducir aquí"],
+    ["id corto", "https://open.spotify.com/track/4uLU6hMCjMI75M1A", "parece incompleto"],
+    ["id con símbolos", "https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKU-C", "parece incompleto"],
+    ["enlace corto", "https://spotify.link/AbCdEf123", "Los enlaces cortos de Spotify"],
+    ["enlace corto de app.link", "spotify.app.link/AbCdEf123", "Los enlaces cortos de Spotify"],
+  ])("rechaza un enlace %s", (_name, input, message) => {
+    const result = parseSpotifyUrl(input);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toContain(message);
+  });
+});
+
+describe("isSpotifyShortLink", () => {
+  it.each([
+    ["https://spotify.link/AbCdEf123", true],
+    ["spotify.link/AbCdEf123", true],
+    ["https://spotify.app.link/AbCdEf123?_p=c1", true],
+    ["https://spotify.link/", false],
+    [`https://open.spotify.com/track/${TRACK_ID}`, false],
+  ])("%s → %s", (input, expected) => {
+    expect(isSpotifyShortLink(input)).toBe(expected);
+  });
+});
+
+describe("resolveSpotifyUrl", () => {
+  const mockFetch = (response: { url: string; text?: string } | Error) => {
+    const fetchMock = vi.fn(async () => {
+      if (response instanceof Error) throw response;
+      return { url: response.url, text: async () => response.text ?? "" } as Response;
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("no pide nada para los enlaces completos", async () => {
+    const fetchMock = mockFetch({ url: "" });
+    await expect(resolveSpotifyUrl(`https://open.spotify.com/track/${TRACK_ID}`)).resolves.toEqual({
+      ok: true,
+      link: { type: "track", id: TRACK_ID },
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each<[string, string, { url: string; text?: string }, SpotifyLink]>([
+    [
+      "sigue la redirección",
+      "https://spotify.link/AbCdEf123",
+      { url: `https://open.spotify.com/playlist/${PLAYLIST_ID}?si=xyz` },
+      { type: "playlist", id: PLAYLIST_ID },
+    ],
+    [
+      "agrega https a los enlaces sin esquema",
+      "spotify.link/AbCdEf123",
+      { url: `https://open.spotify.com/intl-es/track/${TRACK_ID}` },
+      { type: "track", id: TRACK_ID },
+    ],
+    [
+      "busca el enlace en la página si la redirección no llega",
+      "https://spotify.app.link/AbCdEf123",
+      {
+        url: "https://spotify.app.link/AbCdEf123",
+        text: `<html><a href="https://open.spotify.com/album/${TRACK_ID}?si=1">Abrir</a></html>`,
+      },
+      { type: "album", id: TRACK_ID },
+    ],
+  ])("%s", async (_name, input, response, link) => {
+    const fetchMock = mockFetch(response);
+    await expect(resolveSpotifyUrl(input)).resolves.toEqual({ ok: true, link });
+    expect(fetchMock).toHaveBeenCalledWith(
+      input.startsWith("https://") ? input : `https://${input}`
+    );
+  });
+
+  it("falla si la página no tiene ningún enlace de Spotify", async () => {
+    mockFetch({ url: "https://spotify.link/AbCdEf123", text: "<html></html>" });
+    const result = await resolveSpotifyUrl("https://spotify.link/AbCdEf123");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toContain("No encontramos a dónde lleva");
+  });
+
+  it("falla sin conexión", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetch(new TypeError("Network request failed"));
+    const result = await resolveSpotifyUrl("https://spotify.link/AbCdEf123");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toContain("No se pudo abrir el enlace corto");
+  });
+});
+
+describe("enlaces canónicos", () => {
+  it.each<[SpotifyLink, string, string]>([
+    [
+      { type: "playlist", id: PLAYLIST_ID },
+      `https://open.spotify.com/playlist/${PLAYLIST_ID}`,
+      `https://open.spotify.com/embed/playlist/${PLAYLIST_ID}`,
+    ],
+    [
+      { type: "episode", id: TRACK_ID },
+      `https://open.spotify.com/episode/${TRACK_ID}`,
+      `https://open.spotify.com/embed/episode/${TRACK_ID}`,
+    ],
+  ])("%o", (link, canonical, embed) => {
+    expect(canonicalSpotifyUrl(link)).toBe(canonical);
+    expect(spotifyEmbedUrl(link)).toBe(embed);
+    expect(parseSpotifyUrl(canonical)).toEqual({ ok: true, link });
+  });
+});
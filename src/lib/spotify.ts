@@ -0,0 +1,98 @@
+export const SPOTIFY_TYPES = ["track", "album", "playlist", "artist", "episode", "show"] as const;
+
+export type SpotifyType = (typeof SPOTIFY_TYPES)[number];
+
+export type SpotifyLink = {
+  type: SpotifyType;
+  id: string;
+};
+
+export type SpotifyParseResult = { ok: true; link: SpotifyLink } | { ok: false; error: string };
+
+// Los ids de Spotify son base62 de 22 caracteres
+const SPOTIFY_ID = /^[A-Za-z0-9]{22}$/;
+const SPOTIFY_WEB_URL = /^(?:https?:\/\/)?(?:open|play)\.spotify\.com\/([^?#]*)/i;
+const SPOTIFY_SHORT_LINK = /^(?:https?:\/\/)?(?:spotify\.link|spotify\.app\.link)\/[A-Za-z0-9_-]+/i;
+const SPOTIFY_URI = /^spotify:/i;
+
+const fail = (error: string): SpotifyParseResult => ({ ok: false, error });
+
+const isSpotifyType = (value: string): value is SpotifyType =>
+  (SPOTIFY_TYPES as readonly string[]).includes(value);
+
+// Ruta de un enlace o partes de un URI: [intl-xx] [embed] [user/<nombre>] <tipo> <id>
+const parseSegments = (segments: string[]): SpotifyParseResult => {
+  let rest = segments.filter(Boolean);
+  if (rest[0]?.toLowerCase().startsWith("intl-")) rest = rest.slice(1);
+  if (rest[0]?.toLowerCase() === "embed") rest = rest.slice(1);
+  // Enlaces viejos de playlists: /user/<nombre>/playlist/<id>
+  if (rest[0]?.toLowerCase() === "user" && rest.length >= 4) rest = rest.slice(2);
+
+  const [type, id] = rest;
+  if (!type || !id) {
+    return fail("Al enlace le falta la parte que dice qué se comparte. Cópialo de nuevo desde Spotify.");
+  }
+
+  const normalizedType = type.toLowerCase();
+  if (!isSpotifyType(normalizedType)) {
+    return fail(
+      "Ese enlace de Spotify no se puede reproducir aquí. Usa una canción, álbum, playlist, artista, episodio o podcast."
+    );
+  }
+  if (!SPOTIFY_ID.test(id)) {
+    return fail("El enlace de Spotify parece incompleto. Cópialo de nuevo desde Spotify.");
+  }
+
+  return { ok: true, link: { type: normalizedType, id } };
+};
+
+export const isSpotifyShortLink = (input: string) => SPOTIFY_SHORT_LINK.test(input.trim());
+
+/**
+ * Reconoce los enlaces de Spotify (open.spotify.com con o sin /intl-xx/, /embed/ o barra final,
+ * y URIs spotify:tipo:id). Los enlaces cortos (spotify.link) necesitan resolveSpotifyUrl.
+ */
+export const parseSpotifyUrl = (input: string): SpotifyParseResult => {
+  const value = input.trim();
+  if (!value) return fail("Pega el enlace de Spotify.");
+
+  if (SPOTIFY_URI.test(value)) {
+    return parseSegments(value.split(":").slice(1));
+  }
+
+  if (isSpotifyShortLink(value)) {
+    return fail("Los enlaces cortos de Spotify se tienen que abrir primero para saber a dónde llevan.");
+  }
+
+  const match = value.match(SPOTIFY_WEB_URL);
+  if (!match) return fail("Ese enlace no es de Spotify.");
+  return parseSegments(match[1].split("/"));
+};
+
+/**
+ * Como parseSpotifyUrl, pero también sigue los enlaces cortos (spotify.link) hasta el
+ * enlace completo. Si la redirección no llega a open.spotify.com se busca en la página.
+ */
+export const resolveSpotifyUrl = async (input: string): Promise<SpotifyParseResult> => {
+  const value = input.trim();
+  if (!isSpotifyShortLink(value)) return parseSpotifyUrl(value);
+
+  try {
+    const response = await fetch(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    const redirected = parseSpotifyUrl(response.url);
+    if (redirected.ok) return redirected;
+
+    const page = await response.text();
+    const link = page.match(/https:\/\/open\.spotify\.com\/[^"'\s<>\\]+/);
+    if (link) return parseSpotifyUrl(link[0]);
+    return fail("No encontramos a dónde lleva ese enlace corto. Pega el enlace completo de Spotify.");
+  } catch (error) {
+    console.error("Error resolving Spotify short link:", error);
+    return fail("No se pudo abrir el enlace corto. Revisa tu conexión o pega el enlace completo de Spotify.");
+  }
+};
+
+// Forma en la que se guardan los enlaces: https://open.spotify.com/<tipo>/<id>
+export const canonicalSpotifyUrl = ({ type, id }: SpotifyLink) => `https://open.spotify.com/${type}/${id}`;
+
+export const spotifyEmbedUrl = ({ type, id }: SpotifyLink) => `https://open.spotify.com/embed/${type}/${id}`;
@@ -0,0 +1,89 @@
+import * as FileSystem from "expo-file-system";
+import { decode } from "base64-arraybuffer";
+import { supabase } from "../integrations/supabase/client";
+import { LETTER_IMAGES_BUCKET } from "./letter-images";
+
+// Las notas de voz son cortas: al llegar a este largo la grabación se detiene sola
+export const MAX_VOICE_NOTE_MS = 3 * 60 * 1000;
+// Lo mínimo que puede quedar después de recortar
+export const MIN_VOICE_NOTE_MS = 1000;
+// Cantidad de barras con que se guarda y se dibuja la forma de onda
+export const WAVEFORM_BARS = 48;
+
+export const PLAYBACK_RATES = [1, 1.5, 2, 0.75];
+
+export type VoiceNote = {
+  // Archivo grabado en el dispositivo (completo, sin recortar)
+  uri: string;
+  // Parte del archivo que se envía
+  trimStartMs: number;
+  durationMs: number;
+  // Niveles 0-100 de la parte recortada, ya reducidos a WAVEFORM_BARS
+  waveform: number[];
+};
+
+// Metering viene en decibeles (de -160 a 0); por debajo de -60 dB se considera silencio
+export const meteringToLevel = (metering: number | undefined) => {
+  if (metering === undefined) return 0;
+  const level = ((metering + 60) / 60) * 100;
+  return Math.round(Math.min(100, Math.max(0, level)));
+};
+
+/**
+ * Reduce (o estira) una lista de niveles a la cantidad de barras pedida,
+ * tomando el máximo de cada tramo para que los picos no se pierdan.
+ */
+export const resampleWaveform = (levels: number[], bars = WAVEFORM_BARS) => {
+  if (levels.length === 0) return new Array<number>(bars).fill(0);
+  return Array.from({ length: bars }, (_, bar) => {
+    const start = Math.floor((bar * levels.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * levels.length) / bars));
+    return Math.max(...levels.slice(start, end));
+  });
+};
+
+// Parte de los niveles (muestreados a lo largo de totalMs) que cae dentro del recorte
+export const trimWaveform = (
+  levels: number[],
+  totalMs: number,
+  startMs: number,
+  endMs: number
+) => {
+  if (totalMs <= 0) return levels;
+  const from = Math.floor((startMs / totalMs) * levels.length);
+  const to = Math.ceil((endMs / totalMs) * levels.length);
+  return levels.slice(from, Math.max(from + 1, to));
+};
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Sube la nota de voz de una carta. Igual que las fotos, va en la carpeta de la pareja
+ * y en una subcarpeta con el id de su fila en letter_media.
+ */
+export const uploadVoiceNote = async (
+  coupleId: string,
+  letterId: string,
+  mediaId: string,
+  uri: string
+) => {
+  const path = `${coupleId}/letters/${letterId}/${mediaId}/voice.m4a`;
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  const { error } = await supabase.storage
+    .from(LETTER_IMAGES_BUCKET)
+    .upload(path, decode(base64), {
+      contentType: "audio/mp4",
+      upsert: true,
+    });
+
+  if (error) throw error;
+  return path;
+};
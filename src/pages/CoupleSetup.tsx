@@ -0,0 +1,243 @@
+import * as React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+} from "react-native";
+import { useQueryClient } from "@tanstack/react-query";
+import { Heart, Users } from "lucide-react-native";
+import { useAuth } from "../hooks/use-auth";
+import { createCouple, joinCouple, profileQueryKey, saveProfile } from "../lib/auth";
+
+// Después de iniciar sesión: elegir nombre y crear la pareja o unirse con un código
+const CoupleSetup = () => {
+  const queryClient = useQueryClient();
+  const { session, profile, signOut } = useAuth();
+  const userId = session?.user.id as string;
+
+  const [displayName, setDisplayName] = React.useState(profile?.display_name ?? "");
+  const [coupleName, setCoupleName] = React.useState("");
+  const [inviteCode, setInviteCode] = React.useState("");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const run = async (action: () => Promise<unknown>, errorMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: profileQueryKey(userId) });
+    } catch (error) {
+      console.error("Error in couple setup:", error);
+      Alert.alert("Error", errorMessage);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSaveName = () =>
+    run(() => saveProfile(userId, displayName.trim()), "No se pudo guardar tu nombre.");
+
+  const handleCreate = () =>
+    run(() => createCouple(coupleName.trim() || "Nosotros"), "No se pudo crear la pareja.");
+
+  const handleJoin = () =>
+    run(
+      () => joinCouple(inviteCode.trim()),
+      "El código no es válido o esa pareja ya está completa."
+    );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={{ flex: 1 }}
+      >
+        <ScrollView contentContainerStyle={styles.content}>
+          <Heart width={40} height={40} color="#7e1785" fill="#7e1785" />
+
+          {!profile ? (
+            <>
+              <Text style={styles.title}>¿Cómo te llamas?</Text>
+              <Text style={styles.subtitle}>Así aparecerá tu nombre en las cartas que escribas</Text>
+              <View style={styles.formContainer}>
+                <TextInput
+                  style={styles.input}
+                  value={displayName}
+                  onChangeText={setDisplayName}
+                  placeholder="Nataly"
+                  placeholderTextColor="#A1A1AA"
+                  maxLength={50}
+                />
+                <TouchableOpacity
+                  style={[styles.submitButton, (!displayName.trim() || isSubmitting) && styles.submitButtonDisabled]}
+                  onPress={handleSaveName}
+                  disabled={!displayName.trim() || isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.submitButtonText}>Continuar</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : (
+            <>
+              <Text style={styles.title}>Hola, {profile.display_name}</Text>
+              <Text style={styles.subtitle}>
+                Crea su espacio o únete al de tu pareja con el código que te compartió
+              </Text>
+
+              <View style={styles.formContainer}>
+                <Text style={styles.inputLabel}>Crear nuestro espacio</Text>
+                <TextInput
+                  style={styles.input}
+                  value={coupleName}
+                  onChangeText={setCoupleName}
+                  placeholder="Ð+M"
+                  placeholderTextColor="#A1A1AA"
+                  maxLength={50}
+                />
+                <TouchableOpacity
+                  style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+                  onPress={handleCreate}
+                  disabled={isSubmitting}
+                >
+                  <View style={styles.submitButtonContent}>
+                    <Text style={styles.submitButtonText}>Crear</Text>
+                    <Heart width={20} height={20} color="white" />
+                  </View>
+                </TouchableOpacity>
+
+                <View style={styles.divider} />
+
+                <Text style={styles.inputLabel}>Tengo un código</Text>
+                <TextInput
+                  style={styles.input}
+                  value={inviteCode}
+                  onChangeText={setInviteCode}
+                  placeholder="AB12CD"
+                  placeholderTextColor="#A1A1AA"
+                  autoCapitalize="characters"
+                  maxLength={6}
+                />
+                <TouchableOpacity
+                  style={[styles.submitButton, (!inviteCode.trim() || isSubmitting) && styles.submitButtonDisabled]}
+                  onPress={handleJoin}
+                  disabled={!inviteCode.trim() || isSubmitting}
+                >
+                  <View style={styles.submitButtonContent}>
+                    <Text style={styles.submitButtonText}>Unirme</Text>
+                    <Users width={20} height={20} color="white" />
+                  </View>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={signOut}>
+            <Text style={styles.secondaryButtonText}>Cerrar sesión</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+export default CoupleSetup;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  content: {
+    flexGrow: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#7e1785",
+    marginTop: 12,
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#4B5563",
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  formContainer: {
+    width: "100%",
+    maxWidth: 400,
+    backgroundColor: "white",
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#7e1785",
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: "#1F2937",
+    marginBottom: 16,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: "#E5E7EB",
+    marginVertical: 24,
+  },
+  submitButton: {
+    backgroundColor: "#7e1785",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  submitButtonDisabled: {
+    backgroundColor: "#936bc7",
+  },
+  submitButtonContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  submitButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 18,
+  },
+  secondaryButton: {
+    marginTop: 24,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#7e1785",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,20 @@
+import React from 'react';
+import { SafeAreaView, StyleSheet } from 'react-native';
+import DiarySection from '../components/DiarySection';
+
+const Diary = () => {
+  return (
+    <SafeAreaView style={styles.container}>
+      <DiarySection />
+    </SafeAreaView>
+  );
+};
+
+export default Diary;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+});
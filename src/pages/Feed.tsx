@@ -0,0 +1,39 @@
+import React from 'react';
+import { SafeAreaView, StyleSheet } from 'react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import FeedSection from '../components/FeedSection';
+import { useLetterFilters } from '../hooks/use-letter-filters';
+import { emptyLetterFilters } from '../lib/letter-search';
+import type { RootStackParamList } from '../lib/navigation';
+
+type FeedProps = NativeStackScreenProps<RootStackParamList, 'Feed'>;
+
+const Feed = ({ route, navigation }: FeedProps) => {
+  const { filters, setFilters } = useLetterFilters();
+  const letterId = route.params?.letterId ?? null;
+
+  // Con una búsqueda activa la carta pedida podría no estar en la lista
+  React.useEffect(() => {
+    if (letterId) setFilters(emptyLetterFilters);
+  }, [letterId, setFilters]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <FeedSection
+        filters={filters}
+        onFiltersChange={setFilters}
+        focusLetterId={letterId}
+        onFocusHandled={() => navigation.setParams({ letterId: undefined })}
+      />
+    </SafeAreaView>
+  );
+};
+
+export default Feed;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+});
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, SafeAreaView, Animated, Image } from 'react-native';
+import { Music, FileText, Heart } from 'lucide-react-native';
+import LottieView from 'lottie-react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useAuth } from '../hooks/use-auth';
+import type { RootStackParamList } from '../lib/navigation';
+
+type HomeProps = NativeStackScreenProps<RootStackParamList, 'Home'>;
+
+const Home = ({ navigation }: HomeProps) => {
+  const { couple, signOut } = useAuth();
+  // Animation for heart pulse effect
+  const pulseAnim = React.useRef(new Animated.Value(1)).current;
+  // Para controlar qué tipo de animación mostrar: 'lottie' o 'gif'
+  const [animationType, setAnimationType] = useState('gif');
+  
+  React.useEffect(() => {
+    Animated.loop(
+      Animated.sequence([
+        Animated.timing(pulseAnim, {
+          toValue: 1.2,
+          duration: 1000,
+          useNativeDriver: true
+        }),
+        Animated.timing(pulseAnim, {
+          toValue: 1,
+          duration: 1000,
+          useNativeDriver: true
+        })
+      ])
+    ).start();
+  }, []);
+  
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.homeContainer}>
+        <ScrollView 
+          contentContainerStyle={styles.homeContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.centerContent}>
+            <View style={styles.heartContainer}>
+              {animationType === 'lottie' ? (
+                <LottieView
+                  source={require('../assets/animations/pixel-heart.json')}
+                  autoPlay
+                  loop
+                  style={styles.lottieAnimation}
+                />
+              ) : (
+                <Animated.View
+                  style={{
+                    transform: [{ scale: pulseAnim }]
+                  }}
+                >
+                  <Image
+                    source={require('../assets/animations/pixel-heart.gif')}
+                    style={styles.heartAnimation}
+                  />
+                </Animated.View>
+              )}
+            </View>
+            
+            <View style={styles.textContainer}>
+              <Text style={styles.title}>Ð+M</Text>
+              <Text style={styles.subtitle}>
+                Te hice esto para que cada vez que me extrañes puedas ver todas nuestras cartas y canciones
+              </Text>
+            </View>
+
+            <View style={styles.buttonsContainer}>
+              <TouchableOpacity
+                style={styles.menuButton}
+                onPress={() => navigation.navigate('Music')}
+              >
+                <Music width={32} height={32} color="#7e1785" />
+                <Text style={styles.buttonTitle}>Nuestra Música</Text>
+                <Text style={styles.buttonSubtitle}>Las canciones que nos gustan y nos hemos dedicado</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.menuButton}
+                onPress={() => navigation.navigate('Diary')}
+              >
+                <FileText width={32} height={32} color="#7e1785" />
+                <Text style={styles.buttonTitle}>Escribir Carta</Text>
+                <Text style={styles.buttonSubtitle}>¿Me quieres decir algo?</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.menuButton}
+                onPress={() => navigation.navigate('Feed')}
+              >
+                <Heart width={32} height={32} color="#7e1785" fill="#7e1785" />
+                <Text style={styles.buttonTitle}>Nuestras Cartas</Text>
+                <Text style={styles.buttonSubtitle}>Lee todos nuestros mensajes</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Código para que la otra persona se una a la pareja */}
+            <View style={styles.accountContainer}>
+              {couple && (
+                <Text style={styles.inviteText}>
+                  Código de pareja: <Text style={styles.inviteCode}>{couple.invite_code}</Text>
+                </Text>
+              )}
+              <TouchableOpacity onPress={signOut}>
+                <Text style={styles.signOutText}>Cerrar sesión</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+export default Home;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  lottieAnimation: {
+    width: 150,
+    height: 150,
+  },
+  heartAnimation: {
+    width: 100,
+    height: 100,
+    resizeMode: 'contain',
+  },
+  homeContainer: {
+    flex: 1,
+  },
+  homeContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingVertical: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    
+  },
+  centerContent: {
+    maxWidth: 400,
+    width: '100%',
+  },
+  heartContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+    position: 'relative',
+  },
+  textContainer: {
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontSize: 48,
+    fontWeight: 'bold',
+    color: '#7e1785',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#4B5563',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  buttonsContainer: {
+    width: '100%',
+    gap: 16,
+  },
+  menuButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+    borderWidth: 1,
+    borderColor: 'rgba(229, 231, 235, 0.5)',
+  },
+  buttonTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#7e1785',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  buttonSubtitle: {
+    fontSize: 14,
+    color: '#936bc7',
+    textAlign: 'center',
+  },
+  accountContainer: {
+    alignItems: 'center',
+    marginTop: 32,
+    gap: 8,
+  },
+  inviteText: {
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  inviteCode: {
+    fontWeight: 'bold',
+    color: '#7e1785',
+    letterSpacing: 2,
+  },
+  signOutText: {
+    fontSize: 14,
+    color: '#7e1785',
+    fontWeight: '500',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, SafeAreaView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ArrowLeft } from 'lucide-react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import LetterCard from '../components/LetterCard';
+import { useLetter } from '../hooks/use-letters';
+import { goToSection, RootStackParamList } from '../lib/navigation';
+
+type LetterProps = NativeStackScreenProps<RootStackParamList, 'Letter'>;
+
+// Una carta sola, para abrirla desde un enlace (letter/:id)
+const Letter = ({ route, navigation }: LetterProps) => {
+  const { letter, isPending } = useLetter(route.params.id);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft width={24} height={24} color="#7e1785" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Carta</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {isPending ? (
+          <ActivityIndicator size="large" color="#7e1785" style={styles.loading} />
+        ) : letter ? (
+          <LetterCard letter={letter} />
+        ) : (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>No encontramos esta carta. Puede que la hayan borrado.</Text>
+            <TouchableOpacity onPress={() => goToSection('Feed')}>
+              <Text style={styles.linkText}>Ver todas las cartas</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default Letter;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#7e1785',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 100, // Espacio para la navegación de abajo
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#9F1239',
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7e1785',
+  },
+});
@@ -0,0 +1,20 @@
+import React from 'react';
+import { SafeAreaView, StyleSheet } from 'react-native';
+import MusicSection from '../components/MusicSection';
+
+const Music = () => {
+  return (
+    <SafeAreaView style={styles.container}>
+      <MusicSection />
+    </SafeAreaView>
+  );
+};
+
+export default Music;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+});
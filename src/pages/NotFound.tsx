@@ -1,10 +1,19 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { goToSection, RootStackParamList } from '../lib/navigation';
 
-const NotFound = () => {
+type NotFoundProps = NativeStackScreenProps<RootStackParamList, 'NotFound'>;
+
+// Se muestra con los enlaces que no corresponden a ninguna pantalla
+const NotFound = ({ route }: NotFoundProps) => {
   return (
     <View style={styles.container}>
       <Text style={styles.errorText}>404 - Página no encontrada 😢</Text>
+      {route.path && <Text style={styles.pathText}>{route.path}</Text>}
+      <TouchableOpacity style={styles.homeButton} onPress={() => goToSection('Home')}>
+        <Text style={styles.homeButtonText}>Volver al inicio</Text>
+      </TouchableOpacity>
     </View>
   );
 };
@@ -24,4 +33,21 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: 'red',
   },
-});
\ No newline at end of file
+  pathText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  homeButton: {
+    backgroundColor: '#7e1785',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    marginTop: 24,
+  },
+  homeButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, SafeAreaView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ArrowLeft } from 'lucide-react-native';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import PlaylistCard from '../components/PlaylistCard';
+import { usePlaylists } from '../hooks/use-playlists';
+import { goToSection, RootStackParamList } from '../lib/navigation';
+
+type PlaylistProps = NativeStackScreenProps<RootStackParamList, 'Playlist'>;
+
+// Una playlist sola, para abrirla desde un enlace o un aviso (playlist/:id)
+const Playlist = ({ route, navigation }: PlaylistProps) => {
+  const { data: playlists, isPending } = usePlaylists();
+  const playlist = playlists?.find((item) => item.id === route.params.id);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <ArrowLeft width={24} height={24} color="#7e1785" />
+        </TouchableOpacity>
+        <Text style={styles.title}>Playlist</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {isPending ? (
+          <ActivityIndicator size="large" color="#7e1785" style={styles.loading} />
+        ) : playlist ? (
+          <PlaylistCard playlist={playlist} />
+        ) : (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>No encontramos esta playlist.</Text>
+            <TouchableOpacity onPress={() => goToSection('Music')}>
+              <Text style={styles.linkText}>Ver todas las playlists</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default Playlist;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#7e1785',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 100, // Espacio para la navegación de abajo
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#9F1239',
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#7e1785',
+  },
+});
@@ -0,0 +1,250 @@
+import * as React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+} from "react-native";
+import { Mail, Heart } from "lucide-react-native";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "../components/ui/input-otp-native";
+import { sendEmailCode, verifyEmailCode } from "../lib/auth";
+
+const CODE_LENGTH = 6;
+
+const SignIn = () => {
+  const [email, setEmail] = React.useState("");
+  const [code, setCode] = React.useState("");
+  const [codeSent, setCodeSent] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const handleSendCode = async () => {
+    if (!email.trim().includes("@")) {
+      Alert.alert("Correo inválido", "Por favor escribe un correo válido");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await sendEmailCode(email.trim().toLowerCase());
+      setCodeSent(true);
+    } catch (error) {
+      console.error("Error sending code:", error);
+      Alert.alert("Error", "No se pudo enviar el código. Inténtalo de nuevo.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (token: string) => {
+    setIsSubmitting(true);
+    try {
+      // Al verificar, onAuthStateChange actualiza la sesión y la app cambia de pantalla
+      await verifyEmailCode(email.trim().toLowerCase(), token);
+    } catch (error) {
+      console.error("Error verifying code:", error);
+      Alert.alert("Código incorrecto", "El código no es válido o ya expiró.");
+      setCode("");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onCodeChange = (value: string) => {
+    setCode(value);
+    if (value.length === CODE_LENGTH) {
+      handleVerify(value);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.content}
+      >
+        <Heart width={48} height={48} color="#7e1785" fill="#7e1785" />
+        <Text style={styles.title}>Ð+M</Text>
+        <Text style={styles.subtitle}>
+          {codeSent
+            ? `Escribe el código que te llegó a ${email.trim()}`
+            : "Entra con tu correo para ver nuestras cartas y canciones"}
+        </Text>
+
+        <View style={styles.formContainer}>
+          {!codeSent ? (
+            <>
+              <Text style={styles.inputLabel}>Tu correo</Text>
+              <TextInput
+                style={styles.input}
+                value={email}
+                onChangeText={setEmail}
+                placeholder="nataly@correo.com"
+                placeholderTextColor="#A1A1AA"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoComplete="email"
+              />
+              <TouchableOpacity
+                style={[styles.submitButton, (!email.trim() || isSubmitting) && styles.submitButtonDisabled]}
+                onPress={handleSendCode}
+                disabled={!email.trim() || isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <View style={styles.submitButtonContent}>
+                    <Text style={styles.submitButtonText}>Enviar código</Text>
+                    <Mail width={20} height={20} color="white" />
+                  </View>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <InputOTP
+                maxLength={CODE_LENGTH}
+                value={code}
+                onChange={onCodeChange}
+                disabled={isSubmitting}
+              >
+                <InputOTPGroup style={styles.otpGroup}>
+                  {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                    <InputOTPSlot
+                      key={index}
+                      index={index}
+                      style={styles.otpSlot}
+                      textStyle={styles.otpSlotText}
+                    />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+
+              {isSubmitting && <ActivityIndicator style={styles.verifying} size="small" color="#7e1785" />}
+
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => {
+                  setCodeSent(false);
+                  setCode("");
+                }}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.secondaryButtonText}>Usar otro correo</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+export default SignIn;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "transparent",
+  },
+  content: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 24,
+  },
+  title: {
+    fontSize: 48,
+    fontWeight: "bold",
+    color: "#7e1785",
+    marginTop: 12,
+    marginBottom: 12,
+    textAlign: "center",
+  },
+  subtitle: {
+    fontSize: 16,
+    color: "#4B5563",
+    textAlign: "center",
+    lineHeight: 24,
+    marginBottom: 24,
+  },
+  formContainer: {
+    width: "100%",
+    maxWidth: 400,
+    backgroundColor: "white",
+    borderRadius: 20,
+    padding: 24,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: "#7e1785",
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: "#1F2937",
+    marginBottom: 24,
+  },
+  otpGroup: {
+    justifyContent: "center",
+    gap: 8,
+  },
+  otpSlot: {
+    width: 44,
+    height: 52,
+    borderRadius: 12,
+    borderColor: "#936bc7",
+  },
+  otpSlotText: {
+    fontSize: 22,
+    color: "#7e1785",
+  },
+  verifying: {
+    marginTop: 16,
+  },
+  submitButton: {
+    backgroundColor: "#7e1785",
+    borderRadius: 12,
+    padding: 16,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  submitButtonDisabled: {
+    backgroundColor: "#936bc7",
+  },
+  submitButtonContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  submitButtonText: {
+    color: "white",
+    fontWeight: "600",
+    fontSize: 18,
+  },
+  secondaryButton: {
+    marginTop: 24,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#7e1785",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,32 @@
+
+-- Guardar las fotos de las cartas en Storage en lugar de data URLs dentro de la tabla
+ALTER TABLE public.love_letters
+  ADD COLUMN image_path TEXT,
+  ADD COLUMN thumbnail_path TEXT;
+
+-- image_url queda solo para las cartas antiguas que todavía tienen la foto en base64
+COMMENT ON COLUMN public.love_letters.image_url IS 'Legacy: data URL de la foto, se migra a image_path con scripts/migrate-legacy-images.mjs';
+COMMENT ON COLUMN public.love_letters.image_path IS 'Ruta en el bucket letter-images de la foto en tamaño completo';
+COMMENT ON COLUMN public.love_letters.thumbnail_path IS 'Ruta en el bucket letter-images de la miniatura';
+
+-- Las fotos antiguas se migran una sola vez con scripts/migrate-legacy-images.mjs (service role)
+
+-- Bucket privado para las fotos (se leen con URLs firmadas)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('letter-images', 'letter-images', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view letter images" 
+  ON storage.objects 
+  FOR SELECT 
+  USING (bucket_id = 'letter-images');
+
+CREATE POLICY "Anyone can upload letter images" 
+  ON storage.objects 
+  FOR INSERT 
+  WITH CHECK (bucket_id = 'letter-images');
+
+CREATE POLICY "Anyone can replace letter images" 
+  ON storage.objects 
+  FOR UPDATE 
+  USING (bucket_id = 'letter-images');
@@ -0,0 +1,4 @@
+
+-- Índice para la paginación por cursor del feed (created_at, id) en orden descendente
+CREATE INDEX IF NOT EXISTS love_letters_feed_cursor_idx
+  ON public.love_letters (created_at DESC, id DESC);
@@ -0,0 +1,3 @@
+
+-- Publicar los cambios de love_letters para que el feed se actualice en tiempo real
+ALTER PUBLICATION supabase_realtime ADD TABLE public.love_letters;
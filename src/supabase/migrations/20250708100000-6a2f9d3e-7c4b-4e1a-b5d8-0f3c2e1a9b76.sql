@@ -0,0 +1,237 @@
+
+-- Parejas: cada cuenta pertenece a una pareja y solo ve las cartas y playlists de esa pareja
+CREATE TABLE public.couples (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  invite_code TEXT NOT NULL UNIQUE DEFAULT upper(substr(md5(random()::text), 1, 6)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Perfil de cada cuenta de Supabase Auth
+CREATE TABLE public.profiles (
+  id UUID NOT NULL PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  couple_id UUID REFERENCES public.couples (id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Pareja de la cuenta actual. SECURITY DEFINER para poder usarla dentro de las políticas de profiles
+CREATE OR REPLACE FUNCTION public.current_couple_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT couple_id FROM public.profiles WHERE id = auth.uid()
+$$;
+
+ALTER TABLE public.couples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their couple" 
+  ON public.couples 
+  FOR SELECT 
+  TO authenticated
+  USING (id = public.current_couple_id());
+
+CREATE POLICY "Users can view their own and their partner's profile" 
+  ON public.profiles 
+  FOR SELECT 
+  TO authenticated
+  USING (id = auth.uid() OR couple_id = public.current_couple_id());
+
+CREATE POLICY "Users can create their own profile" 
+  ON public.profiles 
+  FOR INSERT 
+  TO authenticated
+  WITH CHECK (id = auth.uid() AND couple_id IS NULL);
+
+-- La pareja solo se cambia con create_couple/join_couple
+CREATE POLICY "Users can update their own profile" 
+  ON public.profiles 
+  FOR UPDATE 
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid() AND couple_id IS NOT DISTINCT FROM public.current_couple_id());
+
+-- Crea una pareja para la cuenta actual. La primera pareja que se crea se queda con las
+-- cartas y playlists que existían antes de tener cuentas
+CREATE OR REPLACE FUNCTION public.create_couple(couple_name TEXT)
+RETURNS public.couples
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_couple public.couples;
+  is_first_couple BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF public.current_couple_id() IS NOT NULL THEN
+    RAISE EXCEPTION 'Already in a couple';
+  END IF;
+
+  SELECT NOT EXISTS (SELECT 1 FROM public.couples) INTO is_first_couple;
+
+  INSERT INTO public.couples (name) VALUES (couple_name) RETURNING * INTO new_couple;
+  UPDATE public.profiles SET couple_id = new_couple.id WHERE id = auth.uid();
+
+  IF is_first_couple THEN
+    UPDATE public.love_letters SET couple_id = new_couple.id WHERE couple_id IS NULL;
+    UPDATE public.music_playlists SET couple_id = new_couple.id WHERE couple_id IS NULL;
+  END IF;
+
+  RETURN new_couple;
+END;
+$$;
+
+-- Une la cuenta actual a la pareja con ese código de invitación (máximo dos personas)
+CREATE OR REPLACE FUNCTION public.join_couple(code TEXT)
+RETURNS public.couples
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.couples;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF public.current_couple_id() IS NOT NULL THEN
+    RAISE EXCEPTION 'Already in a couple';
+  END IF;
+
+  SELECT * INTO target FROM public.couples WHERE invite_code = upper(trim(code));
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Invalid invite code';
+  END IF;
+  IF (SELECT count(*) FROM public.profiles WHERE couple_id = target.id) >= 2 THEN
+    RAISE EXCEPTION 'Couple is full';
+  END IF;
+
+  UPDATE public.profiles SET couple_id = target.id WHERE id = auth.uid();
+  RETURN target;
+END;
+$$;
+
+-- Cartas: pareja y autor salen de la cuenta que escribe, no del cliente
+ALTER TABLE public.love_letters
+  ADD COLUMN couple_id UUID REFERENCES public.couples (id) ON DELETE CASCADE,
+  ADD COLUMN author_id UUID REFERENCES auth.users (id) ON DELETE SET NULL;
+
+CREATE INDEX love_letters_couple_feed_idx
+  ON public.love_letters (couple_id, created_at DESC, id DESC);
+
+CREATE OR REPLACE FUNCTION public.set_letter_author()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_id := auth.uid();
+  NEW.couple_id := public.current_couple_id();
+  NEW.author := COALESCE((SELECT display_name FROM public.profiles WHERE id = auth.uid()), NEW.author);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER love_letters_set_author
+  BEFORE INSERT ON public.love_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_letter_author();
+
+DROP POLICY "Anyone can view love letters" ON public.love_letters;
+DROP POLICY "Anyone can create love letters" ON public.love_letters;
+-- Bases donde ya se había creado la política abierta para migrar las fotos antiguas
+DROP POLICY IF EXISTS "Anyone can update love letters" ON public.love_letters;
+
+CREATE POLICY "Couple members can view their letters" 
+  ON public.love_letters 
+  FOR SELECT 
+  TO authenticated
+  USING (couple_id = public.current_couple_id());
+
+CREATE POLICY "Couple members can create letters" 
+  ON public.love_letters 
+  FOR INSERT 
+  TO authenticated
+  WITH CHECK (couple_id = public.current_couple_id() AND author_id = auth.uid());
+
+CREATE POLICY "Couple members can update their letters" 
+  ON public.love_letters 
+  FOR UPDATE 
+  TO authenticated
+  USING (couple_id = public.current_couple_id())
+  WITH CHECK (couple_id = public.current_couple_id());
+
+-- Playlists
+ALTER TABLE public.music_playlists
+  ADD COLUMN couple_id UUID REFERENCES public.couples (id) ON DELETE CASCADE DEFAULT public.current_couple_id(),
+  ADD COLUMN created_by UUID REFERENCES auth.users (id) ON DELETE SET NULL DEFAULT auth.uid();
+
+DROP POLICY "Anyone can view playlists" ON public.music_playlists;
+DROP POLICY "Anyone can create playlists" ON public.music_playlists;
+DROP POLICY "Anyone can delete playlists" ON public.music_playlists;
+
+CREATE POLICY "Couple members can view their playlists" 
+  ON public.music_playlists 
+  FOR SELECT 
+  TO authenticated
+  USING (couple_id = public.current_couple_id());
+
+CREATE POLICY "Couple members can create playlists" 
+  ON public.music_playlists 
+  FOR INSERT 
+  TO authenticated
+  WITH CHECK (couple_id = public.current_couple_id());
+
+CREATE POLICY "Couple members can delete their playlists" 
+  ON public.music_playlists 
+  FOR DELETE 
+  TO authenticated
+  USING (couple_id = public.current_couple_id());
+
+-- Storage: las fotos nuevas se guardan bajo la carpeta de la pareja ({couple_id}/letters/...).
+-- Las subidas antes de este cambio (letters/...) siguen visibles si pertenecen a una carta de la pareja
+DROP POLICY "Anyone can view letter images" ON storage.objects;
+DROP POLICY "Anyone can upload letter images" ON storage.objects;
+DROP POLICY "Anyone can replace letter images" ON storage.objects;
+
+CREATE POLICY "Couple members can view their letter images" 
+  ON storage.objects 
+  FOR SELECT 
+  TO authenticated
+  USING (
+    bucket_id = 'letter-images'
+    AND (
+      (storage.foldername(name))[1] = public.current_couple_id()::text
+      OR EXISTS (
+        SELECT 1 FROM public.love_letters l
+        WHERE l.couple_id = public.current_couple_id()
+          AND (l.image_path = name OR l.thumbnail_path = name)
+      )
+    )
+  );
+
+CREATE POLICY "Couple members can upload letter images" 
+  ON storage.objects 
+  FOR INSERT 
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'letter-images'
+    AND (storage.foldername(name))[1] = public.current_couple_id()::text
+  );
+
+CREATE POLICY "Couple members can replace letter images" 
+  ON storage.objects 
+  FOR UPDATE 
+  TO authenticated
+  USING (
+    bucket_id = 'letter-images'
+    AND (storage.foldername(name))[1] = public.current_couple_id()::text
+  );
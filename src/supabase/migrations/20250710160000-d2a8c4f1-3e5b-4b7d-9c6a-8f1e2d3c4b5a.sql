@@ -0,0 +1,67 @@
+
+-- Editar y borrar cartas: marca de edición, borrado suave e historial de versiones
+ALTER TABLE public.love_letters
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.letter_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  letter_id UUID NOT NULL REFERENCES public.love_letters (id) ON DELETE CASCADE,
+  couple_id UUID NOT NULL REFERENCES public.couples (id) ON DELETE CASCADE,
+  -- Mensaje como estaba antes de la edición
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX letter_revisions_letter_idx ON public.letter_revisions (letter_id, created_at DESC);
+
+ALTER TABLE public.letter_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Couple members can view letter revisions" 
+  ON public.letter_revisions 
+  FOR SELECT 
+  TO authenticated
+  USING (couple_id = public.current_couple_id());
+
+-- Guarda la versión anterior del mensaje, marca la carta como editada y evita
+-- que una actualización cambie el autor o la pareja
+CREATE OR REPLACE FUNCTION public.track_letter_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_id := OLD.author_id;
+  NEW.author := OLD.author;
+  NEW.couple_id := OLD.couple_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    INSERT INTO public.letter_revisions (letter_id, couple_id, message)
+    VALUES (OLD.id, OLD.couple_id, OLD.message);
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER love_letters_track_edit
+  BEFORE UPDATE ON public.love_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_letter_edit();
+
+-- Solo quien escribió la carta puede editarla o borrarla. Las cartas de antes de
+-- tener cuentas (sin author_id) las puede actualizar cualquiera de la pareja
+DROP POLICY "Couple members can update their letters" ON public.love_letters;
+
+CREATE POLICY "Authors can update their letters" 
+  ON public.love_letters 
+  FOR UPDATE 
+  TO authenticated
+  USING (
+    couple_id = public.current_couple_id()
+    AND (author_id = auth.uid() OR author_id IS NULL)
+  )
+  WITH CHECK (couple_id = public.current_couple_id());
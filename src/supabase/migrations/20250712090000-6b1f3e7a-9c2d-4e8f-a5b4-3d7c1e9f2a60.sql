@@ -0,0 +1,5 @@
+
+-- Cartas programadas ("ábrela cuando..."): la app muestra un sobre sellado con cuenta
+-- regresiva hasta unlock_at. Las cartas sin fecha se pueden leer de inmediato
+ALTER TABLE public.love_letters
+  ADD COLUMN unlock_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,46 @@
+
+-- Búsqueda de texto completo sobre el mensaje y el autor de las cartas
+CREATE INDEX IF NOT EXISTS love_letters_search_idx
+  ON public.love_letters
+  USING GIN (to_tsvector('spanish', author || ' ' || message));
+
+-- Busca cartas con filtros opcionales, paginadas con el mismo cursor (created_at, id) que el feed.
+-- Corre con los permisos de quien llama, así que las políticas limitan el resultado a su pareja
+CREATE OR REPLACE FUNCTION public.search_love_letters(
+  search_query TEXT DEFAULT NULL,
+  author_filter UUID DEFAULT NULL,
+  from_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  to_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  has_photo BOOLEAN DEFAULT FALSE,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 15
+)
+RETURNS SETOF public.love_letters
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.love_letters AS letter
+  WHERE letter.deleted_at IS NULL
+    AND (
+      search_query IS NULL
+      OR (
+        to_tsvector('spanish', letter.author || ' ' || letter.message)
+          @@ websearch_to_tsquery('spanish', search_query)
+        -- Las cartas selladas no deben delatar su contenido en los resultados
+        AND (letter.unlock_at IS NULL OR letter.unlock_at <= now())
+      )
+    )
+    AND (author_filter IS NULL OR letter.author_id = author_filter)
+    AND (from_date IS NULL OR letter.created_at >= from_date)
+    AND (to_date IS NULL OR letter.created_at < to_date)
+    AND (NOT has_photo OR letter.image_path IS NOT NULL OR letter.image_url IS NOT NULL)
+    AND (
+      before_created_at IS NULL
+      OR (letter.created_at, letter.id) < (before_created_at, before_id)
+    )
+  ORDER BY letter.created_at DESC, letter.id DESC
+  LIMIT page_size;
+$$;
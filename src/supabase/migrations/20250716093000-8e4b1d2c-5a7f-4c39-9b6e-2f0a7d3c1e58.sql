@@ -0,0 +1,12 @@
+
+-- Formato del mensaje: 0 = texto plano (cartas anteriores), 1 = texto con formato
+-- (negritas, cursivas, títulos y listas). Cada versión tiene su propio largo máximo,
+-- el mismo que usa la app en src/lib/rich-text.ts
+ALTER TABLE public.love_letters
+  ADD COLUMN format_version SMALLINT NOT NULL DEFAULT 0;
+
+-- NOT VALID: solo se revisan las cartas nuevas o editadas, no las que ya existen
+ALTER TABLE public.love_letters
+  ADD CONSTRAINT love_letters_message_length CHECK (
+    char_length(message) <= CASE format_version WHEN 0 THEN 1000 ELSE 5000 END
+  ) NOT VALID;
@@ -0,0 +1,110 @@
+
+-- Varias fotos por carta. image_path/thumbnail_path de love_letters quedan solo
+-- para las cartas que se escribieron antes de esta tabla
+CREATE TABLE public.letter_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  letter_id UUID NOT NULL REFERENCES public.love_letters (id) ON DELETE CASCADE,
+  couple_id UUID NOT NULL REFERENCES public.couples (id) ON DELETE CASCADE DEFAULT public.current_couple_id(),
+  kind TEXT NOT NULL DEFAULT 'image' CHECK (kind IN ('image')),
+  -- Rutas dentro del bucket letter-images
+  path TEXT NOT NULL,
+  thumbnail_path TEXT,
+  -- Orden en la galería, empezando en 0
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX letter_media_letter_idx ON public.letter_media (letter_id, position);
+
+-- Las fotos que ya existían pasan a ser la primera foto de su carta
+INSERT INTO public.letter_media (letter_id, couple_id, path, thumbnail_path, position)
+SELECT id, couple_id, image_path, thumbnail_path, 0
+FROM public.love_letters
+WHERE image_path IS NOT NULL AND couple_id IS NOT NULL;
+
+ALTER TABLE public.letter_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Couple members can view letter media" 
+  ON public.letter_media 
+  FOR SELECT 
+  TO authenticated
+  USING (couple_id = public.current_couple_id());
+
+CREATE POLICY "Authors can add media to their letters" 
+  ON public.letter_media 
+  FOR INSERT 
+  TO authenticated
+  WITH CHECK (
+    couple_id = public.current_couple_id()
+    AND EXISTS (
+      SELECT 1 FROM public.love_letters l
+      WHERE l.id = letter_id
+        AND l.couple_id = public.current_couple_id()
+        AND l.author_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors can remove media from their letters" 
+  ON public.letter_media 
+  FOR DELETE 
+  TO authenticated
+  USING (
+    couple_id = public.current_couple_id()
+    AND EXISTS (
+      SELECT 1 FROM public.love_letters l
+      WHERE l.id = letter_id AND l.author_id = auth.uid()
+    )
+  );
+
+-- Realtime. Con RLS los borrados llegan solo con el id del archivo, aunque la tabla
+-- tenga REPLICA IDENTITY FULL: la app busca la carta que lo tiene entre las cargadas
+ALTER TABLE public.letter_media REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.letter_media;
+
+-- El filtro "con foto" de la búsqueda ahora mira letter_media
+CREATE OR REPLACE FUNCTION public.search_love_letters(
+  search_query TEXT DEFAULT NULL,
+  author_filter UUID DEFAULT NULL,
+  from_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  to_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  has_photo BOOLEAN DEFAULT FALSE,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 15
+)
+RETURNS SETOF public.love_letters
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.love_letters AS letter
+  WHERE letter.deleted_at IS NULL
+    AND (
+      search_query IS NULL
+      OR (
+        to_tsvector('spanish', letter.author || ' ' || letter.message)
+          @@ websearch_to_tsquery('spanish', search_query)
+        -- Las cartas selladas no deben delatar su contenido en los resultados
+        AND (letter.unlock_at IS NULL OR letter.unlock_at <= now())
+      )
+    )
+    AND (author_filter IS NULL OR letter.author_id = author_filter)
+    AND (from_date IS NULL OR letter.created_at >= from_date)
+    AND (to_date IS NULL OR letter.created_at < to_date)
+    AND (
+      NOT has_photo
+      OR letter.image_path IS NOT NULL
+      OR letter.image_url IS NOT NULL
+      OR EXISTS (
+        SELECT 1 FROM public.letter_media media
+        WHERE media.letter_id = letter.id AND media.kind = 'image'
+      )
+    )
+    AND (
+      before_created_at IS NULL
+      OR (letter.created_at, letter.id) < (before_created_at, before_id)
+    )
+  ORDER BY letter.created_at DESC, letter.id DESC
+  LIMIT page_size;
+$$;
@@ -0,0 +1,16 @@
+
+-- Notas de voz: se guardan en letter_media como un medio más de la carta.
+-- El audio va en el mismo bucket (letter-images) y bajo la misma carpeta de la pareja,
+-- así que aplican las mismas políticas de Storage que a las fotos
+ALTER TABLE public.letter_media DROP CONSTRAINT letter_media_kind_check;
+ALTER TABLE public.letter_media
+  ADD CONSTRAINT letter_media_kind_check CHECK (kind IN ('image', 'audio'));
+
+ALTER TABLE public.letter_media
+  ADD COLUMN duration_ms INTEGER,
+  ADD COLUMN trim_start_ms INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN waveform SMALLINT[];
+
+COMMENT ON COLUMN public.letter_media.duration_ms IS 'Duración del audio que se reproduce (ya recortado), en milisegundos';
+COMMENT ON COLUMN public.letter_media.trim_start_ms IS 'Milisegundo del archivo donde empieza la nota de voz recortada';
+COMMENT ON COLUMN public.letter_media.waveform IS 'Niveles de volumen (0-100) para dibujar la forma de onda sin descargar el audio';
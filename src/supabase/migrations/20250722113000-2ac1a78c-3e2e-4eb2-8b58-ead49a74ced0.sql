@@ -0,0 +1,8 @@
+
+-- Videos cortos en las cartas. El video ya llega comprimido desde el dispositivo;
+-- thumbnail_path guarda el cuadro que se muestra antes de reproducirlo
+ALTER TABLE public.letter_media DROP CONSTRAINT letter_media_kind_check;
+ALTER TABLE public.letter_media
+  ADD CONSTRAINT letter_media_kind_check CHECK (kind IN ('image', 'audio', 'video'));
+
+COMMENT ON COLUMN public.letter_media.thumbnail_path IS 'Miniatura de la foto o cuadro de portada del video';
@@ -0,0 +1,116 @@
+
+-- Respuestas: una respuesta es una carta más que apunta a la carta que contesta.
+-- Los hilos tienen un solo nivel (no se responde a una respuesta)
+ALTER TABLE public.love_letters
+  ADD COLUMN parent_id UUID REFERENCES public.love_letters (id) ON DELETE CASCADE,
+  ADD COLUMN reply_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.love_letters.parent_id IS 'Carta a la que responde (NULL en las cartas del feed)';
+COMMENT ON COLUMN public.love_letters.reply_count IS 'Respuestas sin borrar; la mantiene el trigger love_letters_count_replies';
+
+CREATE INDEX love_letters_parent_idx ON public.love_letters (parent_id, created_at)
+  WHERE parent_id IS NOT NULL;
+
+-- Una respuesta solo puede apuntar a una carta del feed de la misma pareja
+CREATE OR REPLACE FUNCTION public.check_letter_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.love_letters parent
+    WHERE parent.id = NEW.parent_id
+      AND parent.parent_id IS NULL
+      AND parent.couple_id = NEW.couple_id
+  ) THEN
+    RAISE EXCEPTION 'Invalid parent letter';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER love_letters_check_parent
+  BEFORE INSERT ON public.love_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_letter_parent();
+
+-- Recalcula el contador de la carta original. SECURITY DEFINER porque quien responde
+-- normalmente no es quien escribió la carta y las políticas no le dejarían actualizarla
+CREATE OR REPLACE FUNCTION public.count_letter_replies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent UUID := COALESCE(NEW.parent_id, OLD.parent_id);
+BEGIN
+  IF parent IS NOT NULL THEN
+    UPDATE public.love_letters
+    SET reply_count = (
+      SELECT count(*) FROM public.love_letters reply
+      WHERE reply.parent_id = parent AND reply.deleted_at IS NULL
+    )
+    WHERE id = parent;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER love_letters_count_replies
+  AFTER INSERT OR DELETE OR UPDATE OF deleted_at ON public.love_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.count_letter_replies();
+
+-- La búsqueda solo devuelve cartas del feed; las respuestas se ven dentro de su hilo
+CREATE OR REPLACE FUNCTION public.search_love_letters(
+  search_query TEXT DEFAULT NULL,
+  author_filter UUID DEFAULT NULL,
+  from_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  to_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  has_photo BOOLEAN DEFAULT FALSE,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 15
+)
+RETURNS SETOF public.love_letters
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.love_letters AS letter
+  WHERE letter.deleted_at IS NULL
+    AND letter.parent_id IS NULL
+    AND (
+      search_query IS NULL
+      OR (
+        to_tsvector('spanish', letter.author || ' ' || letter.message)
+          @@ websearch_to_tsquery('spanish', search_query)
+        -- Las cartas selladas no deben delatar su contenido en los resultados
+        AND (letter.unlock_at IS NULL OR letter.unlock_at <= now())
+      )
+    )
+    AND (author_filter IS NULL OR letter.author_id = author_filter)
+    AND (from_date IS NULL OR letter.created_at >= from_date)
+    AND (to_date IS NULL OR letter.created_at < to_date)
+    AND (
+      NOT has_photo
+      OR letter.image_path IS NOT NULL
+      OR letter.image_url IS NOT NULL
+      OR EXISTS (
+        SELECT 1 FROM public.letter_media media
+        WHERE media.letter_id = letter.id AND media.kind = 'image'
+      )
+    )
+    AND (
+      before_created_at IS NULL
+      OR (letter.created_at, letter.id) < (before_created_at, before_id)
+    )
+  ORDER BY letter.created_at DESC, letter.id DESC
+  LIMIT page_size;
+$$;
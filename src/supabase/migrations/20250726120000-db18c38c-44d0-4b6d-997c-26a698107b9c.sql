@@ -0,0 +1,46 @@
+
+-- Reacciones con emoji: cada cuenta puede poner varias reacciones distintas por carta,
+-- pero cada emoji una sola vez
+CREATE TABLE public.letter_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  letter_id UUID NOT NULL REFERENCES public.love_letters (id) ON DELETE CASCADE,
+  couple_id UUID NOT NULL REFERENCES public.couples (id) ON DELETE CASCADE DEFAULT public.current_couple_id(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid(),
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (letter_id, user_id, emoji)
+);
+
+CREATE INDEX letter_reactions_letter_idx ON public.letter_reactions (letter_id);
+
+ALTER TABLE public.letter_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Couple members can view reactions" 
+  ON public.letter_reactions 
+  FOR SELECT 
+  TO authenticated
+  USING (couple_id = public.current_couple_id());
+
+CREATE POLICY "Couple members can react to their letters" 
+  ON public.letter_reactions 
+  FOR INSERT 
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND couple_id = public.current_couple_id()
+    AND EXISTS (
+      SELECT 1 FROM public.love_letters l
+      WHERE l.id = letter_id AND l.couple_id = public.current_couple_id()
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions" 
+  ON public.letter_reactions 
+  FOR DELETE 
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Realtime. Con RLS los borrados llegan solo con el id de la reacción, aunque la tabla
+-- tenga REPLICA IDENTITY FULL: la app la busca por id entre las cartas cargadas
+ALTER TABLE public.letter_reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.letter_reactions;
@@ -0,0 +1,65 @@
+
+-- Confirmaciones de lectura: una fila por carta y por cuenta que la leyó
+CREATE TABLE public.letter_reads (
+  letter_id UUID NOT NULL REFERENCES public.love_letters (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid(),
+  couple_id UUID NOT NULL REFERENCES public.couples (id) ON DELETE CASCADE DEFAULT public.current_couple_id(),
+  read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (letter_id, user_id)
+);
+
+CREATE INDEX letter_reads_user_idx ON public.letter_reads (user_id);
+
+ALTER TABLE public.letter_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Couple members can view read receipts" 
+  ON public.letter_reads 
+  FOR SELECT 
+  TO authenticated
+  USING (couple_id = public.current_couple_id());
+
+CREATE POLICY "Users can mark letters of their couple as read" 
+  ON public.letter_reads 
+  FOR INSERT 
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND couple_id = public.current_couple_id()
+    AND EXISTS (
+      SELECT 1 FROM public.love_letters l
+      WHERE l.id = letter_id AND l.couple_id = public.current_couple_id()
+    )
+  );
+
+-- Las cartas que ya existían cuentan como leídas por la otra persona de la pareja,
+-- así al actualizar no aparece todo el historial como no leído
+INSERT INTO public.letter_reads (letter_id, user_id, couple_id, read_at)
+SELECT l.id, p.id, l.couple_id, now()
+FROM public.love_letters l
+JOIN public.profiles p ON p.couple_id = l.couple_id
+WHERE l.author_id IS DISTINCT FROM p.id
+ON CONFLICT DO NOTHING;
+
+-- Cartas de la otra persona que la cuenta actual todavía no leyó. Las selladas no cuentan
+-- hasta su fecha de apertura y las respuestas se leen dentro de su hilo
+CREATE OR REPLACE FUNCTION public.unread_letter_count()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM public.love_letters l
+  WHERE l.couple_id = public.current_couple_id()
+    AND l.deleted_at IS NULL
+    AND l.parent_id IS NULL
+    AND l.author_id IS NOT NULL
+    AND l.author_id <> auth.uid()
+    AND (l.unlock_at IS NULL OR l.unlock_at <= now())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.letter_reads r
+      WHERE r.letter_id = l.id AND r.user_id = auth.uid()
+    )
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.letter_reads;
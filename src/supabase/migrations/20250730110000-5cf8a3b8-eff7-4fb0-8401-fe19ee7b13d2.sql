@@ -0,0 +1,169 @@
+
+-- Notificaciones push: tokens de Expo por dispositivo y triggers que avisan a la pareja
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE TABLE public.push_tokens (
+  token TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE DEFAULT auth.uid(),
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX push_tokens_user_idx ON public.push_tokens (user_id);
+
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Si el dispositivo cambia de cuenta, el token pasa a la cuenta nueva al registrarlo
+-- de nuevo, así que también se puede actualizar una fila de otra cuenta
+CREATE POLICY "Users can view their own push tokens" 
+  ON public.push_tokens 
+  FOR SELECT 
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can register push tokens" 
+  ON public.push_tokens 
+  FOR INSERT 
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can claim push tokens" 
+  ON public.push_tokens 
+  FOR UPDATE 
+  TO authenticated
+  USING (true)
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove their own push tokens" 
+  ON public.push_tokens 
+  FOR DELETE 
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- A dónde se mandan los avisos. Para probar sin el servicio de Expo se apunta a un
+-- servidor local, por ejemplo:
+--   UPDATE public.push_settings SET endpoint = 'http://host.docker.internal:8787/push';
+-- Sin políticas: solo se lee desde las funciones de abajo
+CREATE TABLE public.push_settings (
+  id BOOLEAN NOT NULL PRIMARY KEY DEFAULT true CHECK (id),
+  endpoint TEXT NOT NULL DEFAULT 'https://exp.host/--/api/v2/push/send'
+);
+
+ALTER TABLE public.push_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.push_settings DEFAULT VALUES;
+
+-- Manda el aviso a los dispositivos de la pareja, menos a los de quien hizo el cambio.
+-- payload viaja en "data" y la app lo usa para abrir la sección (y la carta) correcta
+CREATE OR REPLACE FUNCTION public.send_couple_push(
+  target_couple UUID,
+  sender UUID,
+  title TEXT,
+  message TEXT,
+  payload JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  messages JSONB;
+BEGIN
+  SELECT jsonb_agg(jsonb_build_object(
+    'to', t.token,
+    'title', title,
+    'body', message,
+    'data', payload,
+    'sound', 'default',
+    'channelId', 'default'
+  ))
+  INTO messages
+  FROM public.push_tokens t
+  JOIN public.profiles p ON p.id = t.user_id
+  WHERE p.couple_id = target_couple
+    AND t.user_id IS DISTINCT FROM sender;
+
+  IF messages IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := (SELECT endpoint FROM public.push_settings),
+    body := messages,
+    headers := '{"Content-Type": "application/json", "Accept": "application/json"}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_couple_push(UUID, UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- El texto de la carta no va en el aviso para que no se lea en la pantalla bloqueada
+CREATE OR REPLACE FUNCTION public.notify_new_letter()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.couple_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    PERFORM public.send_couple_push(
+      NEW.couple_id, NEW.author_id,
+      NEW.author || ' respondió a una carta',
+      'Toca para leer la respuesta',
+      jsonb_build_object('section', 'feed', 'letterId', NEW.parent_id)
+    );
+  ELSIF NEW.unlock_at IS NOT NULL AND NEW.unlock_at > now() THEN
+    PERFORM public.send_couple_push(
+      NEW.couple_id, NEW.author_id,
+      'Carta sellada de ' || NEW.author,
+      'Se podrá abrir más adelante',
+      jsonb_build_object('section', 'feed', 'letterId', NEW.id)
+    );
+  ELSE
+    PERFORM public.send_couple_push(
+      NEW.couple_id, NEW.author_id,
+      'Nueva carta de ' || NEW.author,
+      'Toca para leerla',
+      jsonb_build_object('section', 'feed', 'letterId', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_letter
+  AFTER INSERT ON public.love_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_letter();
+
+CREATE OR REPLACE FUNCTION public.notify_new_playlist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.couple_id IS NOT NULL THEN
+    PERFORM public.send_couple_push(
+      NEW.couple_id, NEW.created_by,
+      'Nueva playlist',
+      NEW.name,
+      jsonb_build_object('section', 'music', 'playlistId', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_playlist
+  AFTER INSERT ON public.music_playlists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_playlist();
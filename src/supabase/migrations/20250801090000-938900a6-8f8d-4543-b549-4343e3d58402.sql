@@ -0,0 +1,61 @@
+
+-- Orden de las playlists, elegido por la pareja arrastrándolas en la lista (de menor a mayor)
+ALTER TABLE public.music_playlists ADD COLUMN sort_order INTEGER;
+
+-- Las que ya existen conservan el orden que tenían: la más reciente primero
+UPDATE public.music_playlists AS playlist
+SET sort_order = ordered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY couple_id ORDER BY created_at DESC) - 1 AS position
+  FROM public.music_playlists
+) AS ordered
+WHERE playlist.id = ordered.id;
+
+ALTER TABLE public.music_playlists
+  ALTER COLUMN sort_order SET DEFAULT 0,
+  ALTER COLUMN sort_order SET NOT NULL;
+
+CREATE INDEX music_playlists_couple_order_idx ON public.music_playlists (couple_id, sort_order);
+
+-- Las playlists nuevas quedan arriba de todas
+CREATE OR REPLACE FUNCTION public.place_new_playlist_first()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(MIN(sort_order), 0) - 1
+  INTO NEW.sort_order
+  FROM public.music_playlists
+  WHERE couple_id = NEW.couple_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER place_new_playlist_first
+  BEFORE INSERT ON public.music_playlists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.place_new_playlist_first();
+
+-- Hasta ahora las playlists no se podían editar
+CREATE POLICY "Couple members can update their playlists" 
+  ON public.music_playlists 
+  FOR UPDATE 
+  TO authenticated
+  USING (couple_id = public.current_couple_id())
+  WITH CHECK (couple_id = public.current_couple_id());
+
+-- Guarda el orden nuevo en una sola llamada; playlist_ids va de la primera a la última.
+-- Corre con los permisos de quien la llama, así que solo toca las playlists de su pareja
+CREATE OR REPLACE FUNCTION public.reorder_music_playlists(playlist_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.music_playlists AS playlist
+  SET sort_order = ordered.position - 1
+  FROM unnest(playlist_ids) WITH ORDINALITY AS ordered (id, position)
+  WHERE playlist.id = ordered.id
+    AND playlist.couple_id = public.current_couple_id();
+$$;
@@ -0,0 +1,17 @@
+
+-- Los enlaces de Spotify se guardan en su forma canónica: https://open.spotify.com/<tipo>/<id>.
+-- Se pasan a esa forma los que se guardaron antes con /intl-xx/, /embed/, /user/<nombre>/ o ?si=...
+UPDATE public.music_playlists AS playlist
+SET spotify_url = 'https://open.spotify.com/' || lower(parsed.parts[1]) || '/' || parsed.parts[2]
+FROM (
+  SELECT
+    id,
+    regexp_match(
+      spotify_url,
+      'open\.spotify\.com/(?:intl-[a-zA-Z-]+/)?(?:embed/)?(?:user/[^/]+/)?(track|album|playlist|artist|episode|show)/([A-Za-z0-9]{22})',
+      'i'
+    ) AS parts
+  FROM public.music_playlists
+) AS parsed
+WHERE playlist.id = parsed.id
+  AND parsed.parts IS NOT NULL;
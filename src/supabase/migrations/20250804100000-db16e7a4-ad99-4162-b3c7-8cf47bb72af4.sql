@@ -0,0 +1,28 @@
+
+-- Las playlists pueden venir de Spotify, YouTube (o YouTube Music), Apple Music o SoundCloud.
+-- url guarda el enlace canónico; external_id identifica lo compartido dentro del servicio
+-- (por ejemplo "playlist:37i9dQZF1DX76t638V6CA8" en Spotify o "video:dQw4w9WgXcQ" en YouTube)
+ALTER TABLE public.music_playlists RENAME COLUMN spotify_url TO url;
+
+ALTER TABLE public.music_playlists
+  ADD COLUMN provider TEXT NOT NULL DEFAULT 'spotify'
+    CHECK (provider IN ('spotify', 'youtube', 'apple_music', 'soundcloud')),
+  ADD COLUMN external_id TEXT;
+
+-- Hasta ahora todas eran de Spotify y ya están en forma canónica
+UPDATE public.music_playlists AS playlist
+SET external_id = COALESCE(parsed.parts[1] || ':' || parsed.parts[2], playlist.url)
+FROM (
+  SELECT
+    id,
+    regexp_match(
+      url,
+      '^https://open\.spotify\.com/(track|album|playlist|artist|episode|show)/([A-Za-z0-9]{22})$'
+    ) AS parts
+  FROM public.music_playlists
+) AS parsed
+WHERE playlist.id = parsed.id;
+
+ALTER TABLE public.music_playlists
+  ALTER COLUMN provider DROP DEFAULT,
+  ALTER COLUMN external_id SET NOT NULL;
@@ -0,0 +1,10 @@
+
+-- Datos que publica el servicio de cada enlace, guardados para no pedirlos en cada tarjeta:
+-- portada, título y autor oficiales y cantidad de canciones (solo en playlists y álbumes)
+ALTER TABLE public.music_playlists
+  ADD COLUMN cover_url TEXT,
+  ADD COLUMN title TEXT,
+  ADD COLUMN author_name TEXT,
+  ADD COLUMN track_count INTEGER CHECK (track_count >= 0),
+  -- NULL mientras no se hayan buscado; la app completa las filas que ya existían
+  ADD COLUMN metadata_updated_at TIMESTAMP WITH TIME ZONE;
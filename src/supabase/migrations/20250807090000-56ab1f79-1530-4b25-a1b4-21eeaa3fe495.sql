@@ -0,0 +1,38 @@
+
+-- Con la política "Users can claim push tokens" cualquier cuenta podía quedarse con el token
+-- de otro dispositivo (y recibir sus avisos) con solo conocerlo. Ahora solo se actualizan las
+-- filas propias y el cambio de cuenta de un dispositivo pasa por register_push_token
+DROP POLICY "Users can claim push tokens" ON public.push_tokens;
+
+CREATE POLICY "Users can update their own push tokens" 
+  ON public.push_tokens 
+  FOR UPDATE 
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Guarda el token de este dispositivo para la cuenta actual. Si el dispositivo antes tenía
+-- otra cuenta, el token pasa a esta: quien lo registra lo acaba de recibir de Expo en el
+-- mismo dispositivo
+CREATE OR REPLACE FUNCTION public.register_push_token(push_token TEXT, token_platform TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.push_tokens (token, user_id, platform, updated_at)
+  VALUES (push_token, auth.uid(), token_platform, now())
+  ON CONFLICT (token) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      platform = EXCLUDED.platform,
+      updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_push_token(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.register_push_token(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,31 @@
+
+-- Formato de cada versión guardada en el historial (0 = texto plano, como en love_letters),
+-- para mostrarla igual que se veía antes de la edición
+ALTER TABLE public.letter_revisions
+  ADD COLUMN format_version SMALLINT NOT NULL DEFAULT 0;
+
+-- De las versiones que ya están guardadas no se sabe el formato: quedan en 0 y se muestran
+-- como texto plano, que no pierde nada (a lo sumo se ven los marcadores)
+
+-- Igual que antes, pero la versión anterior se guarda con su formato
+CREATE OR REPLACE FUNCTION public.track_letter_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_id := OLD.author_id;
+  NEW.author := OLD.author;
+  NEW.couple_id := OLD.couple_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.message IS DISTINCT FROM OLD.message THEN
+    INSERT INTO public.letter_revisions (letter_id, couple_id, message, format_version)
+    VALUES (OLD.id, OLD.couple_id, OLD.message, OLD.format_version);
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,75 @@
+
+-- La validación de parent_id solo corría al insertar: con un UPDATE se podía mover una
+-- respuesta a una carta de otra pareja, responder a una respuesta o convertir en respuesta
+-- una carta que ya tiene las suyas. Ahora también se revisa al cambiar parent_id
+CREATE OR REPLACE FUNCTION public.check_letter_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id = NEW.id OR NOT EXISTS (
+    SELECT 1 FROM public.love_letters parent
+    WHERE parent.id = NEW.parent_id
+      AND parent.parent_id IS NULL
+      AND parent.couple_id = NEW.couple_id
+  ) THEN
+    RAISE EXCEPTION 'Invalid parent letter';
+  END IF;
+
+  -- Los hilos tienen un solo nivel: una carta con respuestas no puede pasar a ser respuesta
+  IF TG_OP = 'UPDATE' AND EXISTS (
+    SELECT 1 FROM public.love_letters reply WHERE reply.parent_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Invalid parent letter';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER love_letters_check_parent ON public.love_letters;
+
+CREATE TRIGGER love_letters_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.love_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_letter_parent();
+
+-- Si una respuesta cambia de carta se recalculan las dos: la que deja y la nueva
+CREATE OR REPLACE FUNCTION public.count_letter_replies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.love_letters AS letter
+  SET reply_count = (
+    SELECT count(*) FROM public.love_letters reply
+    WHERE reply.parent_id = letter.id AND reply.deleted_at IS NULL
+  )
+  WHERE letter.id IN (NEW.parent_id, OLD.parent_id);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER love_letters_count_replies ON public.love_letters;
+
+CREATE TRIGGER love_letters_count_replies
+  AFTER INSERT OR DELETE OR UPDATE OF deleted_at, parent_id ON public.love_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.count_letter_replies();
+
+-- Corrige los contadores que hayan quedado mal por cambios de parent_id anteriores
+UPDATE public.love_letters AS letter
+SET reply_count = (
+  SELECT count(*) FROM public.love_letters reply
+  WHERE reply.parent_id = letter.id AND reply.deleted_at IS NULL
+)
+WHERE letter.parent_id IS NULL;
@@ -0,0 +1,221 @@
+
+-- Cartas selladas: hasta ahora solo la app ocultaba el contenido, pero el mensaje y sus
+-- archivos llegaban igual por la API y por Realtime. Mientras no pase unlock_at, el mensaje
+-- se guarda aparte (love_letters.message queda vacío) y solo quien la escribió puede leerlo
+-- a él y a los archivos de la carta
+
+-- Si quien pide la carta la puede leer: es quien la escribió o ya pasó su fecha de apertura
+CREATE OR REPLACE FUNCTION public.is_letter_open(target_letter UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.love_letters
+    WHERE id = target_letter
+      AND (unlock_at IS NULL OR unlock_at <= now() OR author_id = auth.uid())
+  );
+$$;
+
+-- La clave foránea se revisa al final de la transacción porque la fila se guarda desde el
+-- trigger BEFORE INSERT de love_letters, antes de que exista la carta
+CREATE TABLE public.sealed_letter_messages (
+  letter_id UUID NOT NULL PRIMARY KEY
+    REFERENCES public.love_letters (id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  -- El mismo largo máximo que love_letters_message_length para el formato actual
+  message TEXT NOT NULL CHECK (char_length(message) <= 5000)
+);
+
+ALTER TABLE public.sealed_letter_messages ENABLE ROW LEVEL SECURITY;
+
+-- Sin políticas de escritura: solo la escriben los triggers de love_letters
+CREATE POLICY "Couple members can view opened sealed messages" 
+  ON public.sealed_letter_messages 
+  FOR SELECT 
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.love_letters l
+      WHERE l.id = letter_id AND l.couple_id = public.current_couple_id()
+    )
+    AND public.is_letter_open(letter_id)
+  );
+
+-- Las cartas que ya están selladas pasan a guardar el mensaje aparte. El trigger de edición
+-- se apaga para que no copie el mensaje al historial, que ve toda la pareja
+INSERT INTO public.sealed_letter_messages (letter_id, message)
+SELECT id, message
+FROM public.love_letters
+WHERE unlock_at > now();
+
+ALTER TABLE public.love_letters DISABLE TRIGGER love_letters_track_edit;
+UPDATE public.love_letters SET message = '' WHERE unlock_at > now();
+ALTER TABLE public.love_letters ENABLE TRIGGER love_letters_track_edit;
+
+-- Al escribir una carta sellada el mensaje se guarda aparte. Corre después de
+-- love_letters_set_author (los triggers BEFORE van en orden alfabético). Si la carta ya
+-- existe (un reintento del outbox) no se toca: el insert se va a ignorar o a fallar
+CREATE OR REPLACE FUNCTION public.store_sealed_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.unlock_at IS NULL OR NEW.unlock_at <= now()
+    OR EXISTS (SELECT 1 FROM public.love_letters WHERE id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.sealed_letter_messages (letter_id, message)
+  VALUES (NEW.id, NEW.message);
+  NEW.message := '';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER love_letters_store_sealed_message
+  BEFORE INSERT ON public.love_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.store_sealed_message();
+
+-- Al editar, el mensaje anterior puede estar en sealed_letter_messages. Mientras la carta
+-- siga sellada el mensaje nuevo también va ahí y no se guarda historial: la otra persona
+-- todavía no la leyó. Al editarla ya abierta, el mensaje vuelve a love_letters
+CREATE OR REPLACE FUNCTION public.track_letter_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous_message TEXT;
+BEGIN
+  NEW.author_id := OLD.author_id;
+  NEW.author := OLD.author;
+  NEW.couple_id := OLD.couple_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.message IS NOT DISTINCT FROM OLD.message THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.unlock_at IS NOT NULL AND NEW.unlock_at > now() THEN
+    INSERT INTO public.sealed_letter_messages (letter_id, message)
+    VALUES (OLD.id, NEW.message)
+    ON CONFLICT (letter_id) DO UPDATE SET message = EXCLUDED.message;
+    NEW.message := '';
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.sealed_letter_messages
+  WHERE letter_id = OLD.id
+  RETURNING message INTO previous_message;
+  previous_message := COALESCE(previous_message, OLD.message);
+
+  IF NEW.message IS DISTINCT FROM previous_message THEN
+    INSERT INTO public.letter_revisions (letter_id, couple_id, message, format_version)
+    VALUES (OLD.id, OLD.couple_id, previous_message, OLD.format_version);
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Archivos y versiones anteriores: igual que el mensaje
+DROP POLICY "Couple members can view letter media" ON public.letter_media;
+
+CREATE POLICY "Couple members can view letter media" 
+  ON public.letter_media 
+  FOR SELECT 
+  TO authenticated
+  USING (couple_id = public.current_couple_id() AND public.is_letter_open(letter_id));
+
+DROP POLICY "Couple members can view letter revisions" ON public.letter_revisions;
+
+CREATE POLICY "Couple members can view letter revisions" 
+  ON public.letter_revisions 
+  FOR SELECT 
+  TO authenticated
+  USING (couple_id = public.current_couple_id() AND public.is_letter_open(letter_id));
+
+-- En Storage los archivos de una carta están en {couple_id}/letters/{letter_id}/...
+DROP POLICY "Couple members can view their letter images" ON storage.objects;
+
+CREATE POLICY "Couple members can view their letter images" 
+  ON storage.objects 
+  FOR SELECT 
+  TO authenticated
+  USING (
+    bucket_id = 'letter-images'
+    AND (
+      (
+        (storage.foldername(name))[1] = public.current_couple_id()::text
+        AND NOT EXISTS (
+          SELECT 1 FROM public.love_letters l
+          WHERE l.id::text = (storage.foldername(name))[3]
+            AND NOT public.is_letter_open(l.id)
+        )
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.love_letters l
+        WHERE l.couple_id = public.current_couple_id()
+          AND (l.image_path = name OR l.thumbnail_path = name)
+          AND public.is_letter_open(l.id)
+      )
+    )
+  );
+
+-- La búsqueda también mira el mensaje guardado aparte, una vez que se puede leer
+CREATE OR REPLACE FUNCTION public.search_love_letters(
+  search_query TEXT DEFAULT NULL,
+  author_filter UUID DEFAULT NULL,
+  from_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  to_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  has_photo BOOLEAN DEFAULT FALSE,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 15
+)
+RETURNS SETOF public.love_letters
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT letter.*
+  FROM public.love_letters AS letter
+  LEFT JOIN public.sealed_letter_messages AS sealed ON sealed.letter_id = letter.id
+  WHERE letter.deleted_at IS NULL
+    AND letter.parent_id IS NULL
+    AND (
+      search_query IS NULL
+      OR (
+        to_tsvector('spanish', letter.author || ' ' || COALESCE(sealed.message, letter.message))
+          @@ websearch_to_tsquery('spanish', search_query)
+        -- Las cartas selladas no deben delatar su contenido en los resultados
+        AND (letter.unlock_at IS NULL OR letter.unlock_at <= now())
+      )
+    )
+    AND (author_filter IS NULL OR letter.author_id = author_filter)
+    AND (from_date IS NULL OR letter.created_at >= from_date)
+    AND (to_date IS NULL OR letter.created_at < to_date)
+    AND (
+      NOT has_photo
+      OR letter.image_path IS NOT NULL
+      OR letter.image_url IS NOT NULL
+      OR EXISTS (
+        SELECT 1 FROM public.letter_media media
+        WHERE media.letter_id = letter.id AND media.kind = 'image'
+      )
+    )
+    AND (
+      before_created_at IS NULL
+      OR (letter.created_at, letter.id) < (before_created_at, before_id)
+    )
+  ORDER BY letter.created_at DESC, letter.id DESC
+  LIMIT page_size;
+$$;
@@ -0,0 +1,31 @@
+
+-- join_couple: dos personas que se unen a la vez ya no pueden pasar las dos el límite de dos.
+-- La fila de la pareja queda bloqueada hasta terminar, así la segunda cuenta espera y cuenta de nuevo
+CREATE OR REPLACE FUNCTION public.join_couple(code TEXT)
+RETURNS public.couples
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.couples;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF public.current_couple_id() IS NOT NULL THEN
+    RAISE EXCEPTION 'Already in a couple';
+  END IF;
+
+  SELECT * INTO target FROM public.couples WHERE invite_code = upper(trim(code)) FOR UPDATE;
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Invalid invite code';
+  END IF;
+  IF (SELECT count(*) FROM public.profiles WHERE couple_id = target.id) >= 2 THEN
+    RAISE EXCEPTION 'Couple is full';
+  END IF;
+
+  UPDATE public.profiles SET couple_id = target.id WHERE id = auth.uid();
+  RETURN target;
+END;
+$$;